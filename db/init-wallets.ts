@@ -1,4 +1,4 @@
-import { getAllWallets } from '../lib/wallet/generator';
+import { getWalletForName } from '../lib/wallet/generator';
 import { query } from '../lib/db/client';
 
 /**
@@ -8,27 +8,18 @@ import { query } from '../lib/db/client';
 async function initWallets() {
   console.log('Initializing wallet addresses in database...\n');
 
-  const wallets = getAllWallets();
+  // Every wallet row derives its keypair from its name, so new wallets need no code change
+  const walletRows = await query('SELECT name FROM wallets ORDER BY id');
 
-  const walletMappings = [
-    { name: 'SOL_30M', type: 'sol_30m' as const },
-    { name: 'SOL_60M', type: 'sol_60m' as const },
-    { name: 'SOL_240M', type: 'sol_240m' as const },
-    { name: 'FARTCOIN', type: 'fartcoin' as const },
-    { name: 'FARTBOY', type: 'fartboy' as const },
-    { name: 'USELESS', type: 'useless' as const }
-  ];
-
-  for (const mapping of walletMappings) {
-    const keypair = wallets[mapping.type];
-    const address = keypair.publicKey.toString();
+  for (const row of walletRows.rows) {
+    const address = getWalletForName(row.name).publicKey.toString();
 
     await query(
       'UPDATE wallets SET address = $1 WHERE name = $2',
-      [address, mapping.name]
+      [address, row.name]
     );
 
-    console.log(`${mapping.name.padEnd(12)} → ${address}`);
+    console.log(`${row.name.padEnd(12)} → ${address}`);
   }
 
   console.log('\n✅ Wallet addresses initialized successfully!');
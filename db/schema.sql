@@ -3,6 +3,23 @@
 -- Created: 2025-10-03
 
 -- Drop existing tables if they exist (for development)
+DROP TABLE IF EXISTS notification_deliveries CASCADE;
+DROP TABLE IF EXISTS notification_channels CASCADE;
+DROP TABLE IF EXISTS signals CASCADE;
+DROP TABLE IF EXISTS webhook_requests CASCADE;
+DROP TABLE IF EXISTS trade_slices CASCADE;
+DROP TABLE IF EXISTS exit_rules CASCADE;
+DROP TABLE IF EXISTS risk_limits CASCADE;
+DROP TABLE IF EXISTS trading_halts CASCADE;
+DROP TABLE IF EXISTS trade_attempts CASCADE;
+DROP TABLE IF EXISTS trade_events CASCADE;
+DROP TABLE IF EXISTS webhook_idempotency CASCADE;
+DROP TABLE IF EXISTS webhook_keys CASCADE;
+DROP TABLE IF EXISTS trade_jobs CASCADE;
+DROP TABLE IF EXISTS paper_balances CASCADE;
+DROP TABLE IF EXISTS sizing_policies CASCADE;
+DROP TABLE IF EXISTS routes CASCADE;
+DROP TABLE IF EXISTS tokens CASCADE;
 DROP TABLE IF EXISTS balance_checks CASCADE;
 DROP TABLE IF EXISTS position_flags CASCADE;
 DROP TABLE IF EXISTS positions CASCADE;
@@ -20,10 +37,44 @@ CREATE TABLE wallets (
   base_token VARCHAR(20) NOT NULL, -- 'USDC' for SOL wallets, 'SOL' for meme
   quote_token VARCHAR(20) NOT NULL, -- 'SOL' for SOL wallets, meme coin for meme wallets
   min_gas_reserve DECIMAL(18, 9) DEFAULT 0.01, -- Minimum SOL to keep for gas
+  paper_mode BOOLEAN DEFAULT FALSE, -- TRUE = simulate fills against paper_balances, never swap
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Signals: Every /webhook request past ingress checks, with its parse result and outcome
+CREATE TABLE signals (
+  id SERIAL PRIMARY KEY,
+  received_at TIMESTAMP DEFAULT NOW(),
+
+  -- Request
+  ip VARCHAR(64),
+  headers JSONB, -- Headers of interest (content type, user agent, key id, signing timestamp); never secrets
+  raw_payload TEXT, -- Body as received, credential fields redacted (first 1024 chars if authentication failed)
+
+  -- Authentication and parsing
+  key_id VARCHAR(64), -- NULL when authentication failed
+  parser VARCHAR(30),
+  parsed_json JSONB, -- Parsed signal, NULL when parsing failed
+  parse_errors JSONB, -- Per-field parse errors
+
+  -- Routing
+  symbol VARCHAR(20),
+  action VARCHAR(15),
+  timeframe VARCHAR(10),
+  route_id INTEGER, -- Matched route (routes.id)
+  wallet_id INTEGER REFERENCES wallets(id),
+
+  -- Outcome at the webhook (execution outcome: trade_jobs / trades.signal_id)
+  status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'queued', 'rejected', 'duplicate', 'error')),
+  rejection_reason VARCHAR(50), -- Webhook error reason: 'authentication_failed', 'parse_failed', 'routing_failed', 'halted', ...
+  error TEXT,
+  response_status INTEGER,
+  job_ids INTEGER[], -- Trade jobs queued (one per position for FLATTEN_ALL)
+
+  completed_at TIMESTAMP
+);
+
 -- Trades table: All trade executions
 CREATE TABLE trades (
   id SERIAL PRIMARY KEY,
@@ -31,19 +82,25 @@ CREATE TABLE trades (
 
   -- Trade identification
   signature VARCHAR(88) UNIQUE, -- Solana transaction signature
-  webhook_timestamp TIMESTAMP NOT NULL,
+  webhook_timestamp TIMESTAMP NOT NULL, -- Signal time from the alert (alert / bar close time), else time received
   execution_timestamp TIMESTAMP,
 
   -- Trade details from TradingView
-  tv_action VARCHAR(10) NOT NULL, -- 'BUY' or 'SELL'
+  tv_action VARCHAR(10) NOT NULL, -- Swap side: 'BUY' or 'SELL'
+  signal_action VARCHAR(15), -- Alert action: 'BUY', 'SELL', 'CLOSE', 'ADD' (FLATTEN_ALL becomes CLOSEs)
   tv_symbol VARCHAR(20) NOT NULL, -- 'SOLUSD', 'FARTCOIN', etc.
   tv_timeframe VARCHAR(10), -- '30', '60', '240'
-  tv_price DECIMAL(18, 9), -- Price from TradingView alert
+  tv_price DECIMAL(18, 9), -- Price from TradingView alert (asset USD price, NULL if not sent)
+  oracle_price DECIMAL(18, 9), -- Oracle USD price of the asset when the alert price was checked
+  signal_shortfall_bps DECIMAL(10, 2), -- Fill price vs tv_price, positive = worse than the alert
+  signal_id INTEGER REFERENCES signals(id), -- Inbound signal that produced the trade (NULL for protective exits)
+  job_id INTEGER, -- trade_jobs row that executed the trade (no FK: trade_jobs references trades)
+  position_id INTEGER, -- Position the fill was applied to, set with the position update (no FK: positions references trades)
 
   -- Actual execution details
   input_token VARCHAR(20) NOT NULL,
   output_token VARCHAR(20) NOT NULL,
-  input_amount DECIMAL(18, 9) NOT NULL,
+  input_amount DECIMAL(18, 9) NOT NULL, -- Sized amount, replaced by the amount actually spent once verified
   output_amount DECIMAL(18, 9),
 
   -- Quote and slippage
@@ -51,6 +108,7 @@ CREATE TABLE trades (
   expected_slippage_pct DECIMAL(8, 4), -- Expected slippage from quote
   actual_slippage_pct DECIMAL(8, 4), -- Actual slippage after verification
   price_impact_pct DECIMAL(8, 4),
+  realized_pnl DECIMAL(18, 9), -- SELL only: P&L of this exit in output_token (FIFO cost basis)
 
   -- Fees
   jupiter_fee_lamports BIGINT,
@@ -58,13 +116,23 @@ CREATE TABLE trades (
   priority_fee_lamports BIGINT DEFAULT 10000,
 
   -- Status tracking
-  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'quoted', 'executed', 'verified', 'failed'
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'quoted', 'executed', 'verified', 'failed', 'position_tracked', 'position_error'
+  )), -- Changed only through TradeLifecycle.transition (see trade_events)
   error_message TEXT,
-  rejection_reason VARCHAR(100), -- 'high_slippage', 'low_balance', 'quote_failed', etc.
+  rejection_reason VARCHAR(100), -- 'high_slippage', 'low_balance', 'quote_failed', 'halted', 'risk_limit', 'price_deviation', 'stale_signal', etc.
+  interrupted_at TIMESTAMP, -- Shutdown cut the trade off mid-execution: recovery takes it without waiting for it to go stale
+  exit_trigger VARCHAR(20) CHECK (exit_trigger IN ('stop_loss', 'take_profit', 'trailing_stop')), -- Protective exit that generated this SELL, NULL = alert
+
+  -- Position sizing
+  sizing_policy VARCHAR(30), -- 'all_in', 'fixed_usd', 'percent_equity', 'volatility_scaled', 'position_exit', 'partial_exit', 'signal_size'
+  sizing_notional_usd DECIMAL(18, 2), -- Computed notional (NULL when sized without prices)
+  sizing_json JSONB, -- Full sizing decision (equity, caps)
 
   -- Metadata
+  is_paper BOOLEAN NOT NULL DEFAULT FALSE, -- Simulated fill (paper trading), never sent on-chain
   quote_json JSONB, -- Full Jupiter quote for debugging
-  verification_json JSONB, -- Helius verification data
+  verification_json JSONB, -- Helius verification data (simulated fill details for paper trades)
 
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
@@ -93,16 +161,18 @@ CREATE TABLE positions (
   total_exit_amount DECIMAL(18, 9) DEFAULT 0,
   total_exit_proceeds DECIMAL(18, 9) DEFAULT 0,
   realized_pnl DECIMAL(18, 9) DEFAULT 0, -- Realized P&L from exits
+  peak_price DECIMAL(18, 9), -- Highest price seen by the exit monitor (trailing stops)
 
   -- Metadata
   first_entry_at TIMESTAMP NOT NULL,
   last_exit_at TIMESTAMP,
   closed_at TIMESTAMP,
+  is_paper BOOLEAN NOT NULL DEFAULT FALSE, -- Paper trading ledger, kept apart from live positions
 
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW(),
 
-  UNIQUE(wallet_id, token, status) -- Only one OPEN/PARTIAL position per wallet+token
+  UNIQUE(wallet_id, token, status, is_paper) -- Only one OPEN/PARTIAL position per wallet+token per ledger
 );
 
 -- Position flags: Issues that require manual review
@@ -112,7 +182,7 @@ CREATE TABLE position_flags (
   trade_id INTEGER REFERENCES trades(id),
   wallet_id INTEGER REFERENCES wallets(id),
 
-  flag_type VARCHAR(50) NOT NULL, -- 'sell_without_position', 'sell_exceeds_position', 'balance_mismatch', etc.
+  flag_type VARCHAR(50) NOT NULL, -- 'sell_without_position', 'sell_exceeds_position', 'balance_mismatch', 'stuck_trade', 'risk_limit_breach', etc.
   severity VARCHAR(20) DEFAULT 'warning', -- 'info', 'warning', 'critical'
   description TEXT NOT NULL,
 
@@ -146,16 +216,263 @@ CREATE TABLE balance_checks (
   helius_response JSONB -- Raw Helius data for debugging
 );
 
+-- Webhook idempotency: De-duplicates retried or double-fired alerts
+CREATE TABLE webhook_idempotency (
+  id SERIAL PRIMARY KEY,
+  idempotency_key VARCHAR(128) NOT NULL UNIQUE, -- alert_id or sha256 of symbol/action/timeframe/bar time
+  trade_id INTEGER REFERENCES trades(id),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'processing', -- 'processing', 'completed'
+  response_status INTEGER, -- HTTP status of the original response
+  response_json JSONB, -- Original response body, replayed for duplicates
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Webhook keys: Named HMAC signing keys with scopes, expiry and rotation
+CREATE TABLE webhook_keys (
+  id SERIAL PRIMARY KEY,
+  key_id VARCHAR(64) NOT NULL UNIQUE, -- Public identifier sent in x-webhook-key-id
+  name VARCHAR(100) NOT NULL, -- Human label, shared by rotated generations of a key
+  secret VARCHAR(128) NOT NULL, -- HMAC-SHA256 signing secret
+
+  -- Scopes (NULL = unrestricted)
+  allowed_wallets TEXT[], -- Wallet names, e.g. {'SOL_30M','SOL_60M'}
+  allowed_symbols TEXT[], -- TradingView symbols, e.g. {'SOLUSD'}
+
+  -- Payload format: 'json', 'tradingview_strategy', 'plain_text', '3commas'
+  parser VARCHAR(30) NOT NULL DEFAULT 'json',
+
+  -- Lifecycle
+  active BOOLEAN DEFAULT TRUE,
+  expires_at TIMESTAMP, -- Set on rotation to give senders a grace period
+  revoked_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Webhook requests: Audit log of requests blocked before authentication or by rate limits
+CREATE TABLE webhook_requests (
+  id SERIAL PRIMARY KEY,
+  ip VARCHAR(64) NOT NULL, -- Client IP (req.ip, honours WEBHOOK_TRUST_PROXY)
+  key_id VARCHAR(64), -- Authenticated key, for per-key rate limits only
+
+  reason VARCHAR(30) NOT NULL CHECK (reason IN ('ip_not_allowed', 'rate_limited', 'payload_too_large')),
+  detail TEXT, -- Which limit was hit
+
+  method VARCHAR(10) NOT NULL,
+  path VARCHAR(200) NOT NULL,
+  content_length INTEGER, -- Declared body size in bytes, if sent
+  user_agent TEXT,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Trade jobs: Durable queue between the webhook and the execution worker
+CREATE TABLE trade_jobs (
+  id SERIAL PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'succeeded', 'failed'
+
+  -- Job input
+  signal_json JSONB NOT NULL, -- Parsed TradingView signal
+  options_json JSONB, -- Key id and wallet scope of the submitting webhook key
+
+  -- Scheduling
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMP NOT NULL DEFAULT NOW(), -- Backoff for retried jobs
+  locked_at TIMESTAMP,
+  locked_by VARCHAR(100), -- Worker that claimed the job
+
+  -- Outcome
+  trade_id INTEGER REFERENCES trades(id),
+  last_error TEXT,
+  result_status INTEGER, -- HTTP-style status of the pipeline result
+  result_json JSONB, -- Pipeline response body
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Paper balances: Simulated wallet balances for wallets in paper_mode
+CREATE TABLE paper_balances (
+  wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+  token VARCHAR(20) NOT NULL,
+  amount DECIMAL(18, 9) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  PRIMARY KEY (wallet_id, token)
+);
+
+-- Sizing policies: Per-wallet entry sizing (wallets without a row trade all-in)
+CREATE TABLE sizing_policies (
+  wallet_id INTEGER PRIMARY KEY REFERENCES wallets(id),
+  policy VARCHAR(30) NOT NULL DEFAULT 'all_in'
+    CHECK (policy IN ('all_in', 'fixed_usd', 'percent_equity', 'volatility_scaled')),
+  fixed_usd DECIMAL(18, 2), -- fixed_usd: notional per entry
+  equity_pct DECIMAL(8, 4), -- percent_equity: % of wallet equity per entry
+  target_volatility_pct DECIMAL(8, 4), -- volatility_scaled: equity * target / alert volatility
+  max_notional_usd DECIMAL(18, 2), -- Cap applied to every policy (NULL = no cap)
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tokens: Mint registry, merged into TOKENS at runtime so new tokens need no code change
+CREATE TABLE tokens (
+  symbol VARCHAR(20) PRIMARY KEY,
+  mint VARCHAR(44) NOT NULL UNIQUE,
+  decimals INTEGER NOT NULL,
+  name VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Routes: Alert (symbol, timeframe, strategy) -> wallet and token pair
+CREATE TABLE routes (
+  id SERIAL PRIMARY KEY,
+  symbol VARCHAR(20) NOT NULL, -- Alert symbol, e.g. 'SOLUSD'
+  timeframe VARCHAR(10), -- NULL = any timeframe
+  strategy VARCHAR(50), -- NULL = any strategy
+  wallet_id INTEGER NOT NULL REFERENCES wallets(id),
+  asset_token VARCHAR(20) NOT NULL REFERENCES tokens(symbol), -- Bought on BUY, sold on SELL
+  funding_token VARCHAR(20) NOT NULL REFERENCES tokens(symbol), -- Spent on BUY, received on SELL
+  options JSONB NOT NULL DEFAULT '{}', -- e.g. {"max_slippage_bps": 100, "twap_slices": 5, "twap_window_seconds": 10, "twap_target_impact_pct": 1}
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Trade events: Append-only history of every trade status transition
+CREATE TABLE trade_events (
+  id BIGSERIAL PRIMARY KEY,
+  trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+  from_status VARCHAR(20), -- NULL for the creation event
+  to_status VARCHAR(20) NOT NULL,
+  actor VARCHAR(50) NOT NULL, -- 'pipeline', 'admin', ...
+  payload JSONB, -- Fields written with the transition (signature, error, quote, ...)
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Trade attempts: One row per quote taken for a trade (re-quotes after expiry / slippage rejection)
+CREATE TABLE trade_attempts (
+  id SERIAL PRIMARY KEY,
+  trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL, -- 1 = first quote (numbered across all slices of a TWAP trade)
+  slice INTEGER, -- Child swap of a TWAP trade, NULL otherwise
+  status VARCHAR(20) NOT NULL, -- 'quoted', 'quote_rejected', 'quote_failed', 'drift_exceeded', 'expired', 'filled', 'failed'
+  quote_json JSONB, -- NULL when no quote was returned
+  quoted_out_amount NUMERIC(40, 0), -- Raw output amount of the quote
+  drift_bps DECIMAL(10, 2), -- Adverse price move from the first quote
+  signature VARCHAR(88), -- Set when the attempt filled
+  error_message TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(trade_id, attempt)
+);
+
+-- Trading halts: Kill switch, active until resumed (global, per wallet or per token)
+CREATE TABLE trading_halts (
+  id SERIAL PRIMARY KEY,
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('global', 'wallet', 'token')),
+  target VARCHAR(50), -- Wallet name or token symbol, NULL for global
+  reason TEXT NOT NULL,
+  halted_by VARCHAR(100) NOT NULL,
+  halted_at TIMESTAMP DEFAULT NOW(),
+  resumed_by VARCHAR(100),
+  resumed_at TIMESTAMP, -- NULL while active
+  resume_reason TEXT,
+  CHECK ((scope = 'global') = (target IS NULL))
+);
+
+-- Risk limits: Per-wallet (wallet_id set) or portfolio-wide (NULL) entry rules, NULL = not enforced
+CREATE TABLE risk_limits (
+  id SERIAL PRIMARY KEY,
+  wallet_id INTEGER REFERENCES wallets(id), -- NULL = all live wallets
+  max_daily_loss_usd DECIMAL(18, 2), -- Realized loss since midnight
+  max_trades_per_hour INTEGER,
+  loss_cooldown_count INTEGER, -- Consecutive losing exits that start a cooldown
+  loss_cooldown_minutes INTEGER,
+  max_open_exposure_usd DECIMAL(18, 2), -- USD value of open positions
+  auto_halt BOOLEAN NOT NULL DEFAULT FALSE, -- Halt the wallet (or all trading) on breach
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK ((loss_cooldown_count IS NULL) = (loss_cooldown_minutes IS NULL))
+);
+
+-- Exit rules: Per-wallet protective exits checked by the exit monitor (NULL = rule off)
+CREATE TABLE exit_rules (
+  wallet_id INTEGER PRIMARY KEY REFERENCES wallets(id),
+  stop_loss_pct DECIMAL(8, 4), -- Exit when price falls this % below avg entry
+  take_profit_pct DECIMAL(8, 4), -- Exit when price rises this % above avg entry
+  trailing_stop_pct DECIMAL(8, 4), -- Exit when price falls this % below its peak since entry
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Trade slices: Child swaps of a TWAP trade (the trade row holds the aggregated fill)
+CREATE TABLE trade_slices (
+  id SERIAL PRIMARY KEY,
+  trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+  slice INTEGER NOT NULL, -- 1 = first child swap
+  input_amount_raw NUMERIC(40, 0) NOT NULL, -- Planned input in smallest units
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'filled', 'failed', 'skipped')),
+  signature VARCHAR(88), -- Set when the slice filled, or was sent but not verified (failed)
+  input_amount DECIMAL(18, 9), -- Verified amounts of the filled slice
+  output_amount DECIMAL(18, 9),
+  actual_slippage_pct DECIMAL(8, 4),
+  error_message TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(trade_id, slice)
+);
+
+-- Notification channels: Where trade, failure, flag and balance alerts are sent (see v3/notify)
+CREATE TABLE notification_channels (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL UNIQUE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('webhook', 'telegram', 'discord', 'slack', 'email')),
+  config JSONB NOT NULL, -- Sink settings: URLs, bot token / chat id, SMTP server and recipients
+  min_severity VARCHAR(20) NOT NULL DEFAULT 'warning' CHECK (min_severity IN ('info', 'warning', 'critical')),
+  events TEXT[], -- Event types to send (trade_executed, trade_failed, position_flag, balance_mismatch); NULL = all
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Notification deliveries: One row per notification per channel, retried until sent or out of attempts
+CREATE TABLE notification_deliveries (
+  id SERIAL PRIMARY KEY,
+  channel_id INTEGER NOT NULL REFERENCES notification_channels(id),
+  event_type VARCHAR(30) NOT NULL,
+  severity VARCHAR(20) NOT NULL,
+  title TEXT NOT NULL,
+  message JSONB NOT NULL, -- Rendered notification, resent as-is on retries
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(), -- Retry due time (also leases an attempt in progress)
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP
+);
+
 -- Indexes for performance
 CREATE INDEX idx_trades_wallet_id ON trades(wallet_id);
 CREATE INDEX idx_trades_signature ON trades(signature);
 CREATE INDEX idx_trades_status ON trades(status);
 CREATE INDEX idx_trades_webhook_timestamp ON trades(webhook_timestamp DESC);
 CREATE INDEX idx_trades_execution_timestamp ON trades(execution_timestamp DESC);
+CREATE INDEX idx_trades_is_paper ON trades(is_paper);
+CREATE INDEX idx_trades_created_at ON trades(created_at DESC);
+CREATE INDEX idx_trades_signal_id ON trades(signal_id);
+CREATE INDEX idx_trades_job_id ON trades(job_id);
 
 CREATE INDEX idx_positions_wallet_id ON positions(wallet_id);
 CREATE INDEX idx_positions_status ON positions(status);
 CREATE INDEX idx_positions_token ON positions(token);
+CREATE INDEX idx_positions_is_paper ON positions(is_paper);
 
 CREATE INDEX idx_position_flags_resolved ON position_flags(resolved);
 CREATE INDEX idx_position_flags_severity ON position_flags(severity);
@@ -164,6 +481,42 @@ CREATE INDEX idx_balance_checks_wallet_id ON balance_checks(wallet_id);
 CREATE INDEX idx_balance_checks_timestamp ON balance_checks(check_timestamp DESC);
 CREATE INDEX idx_balance_checks_mismatch ON balance_checks(is_mismatch);
 
+CREATE INDEX idx_webhook_idempotency_created_at ON webhook_idempotency(created_at DESC);
+
+CREATE INDEX idx_webhook_keys_name ON webhook_keys(name);
+
+CREATE INDEX idx_signals_received_at ON signals(received_at DESC);
+CREATE INDEX idx_signals_status ON signals(status, received_at DESC);
+CREATE INDEX idx_signals_symbol ON signals(symbol, received_at DESC);
+CREATE INDEX idx_webhook_requests_created_at ON webhook_requests(created_at DESC);
+CREATE INDEX idx_webhook_requests_ip ON webhook_requests(ip, created_at DESC);
+
+CREATE INDEX idx_trade_jobs_runnable ON trade_jobs(run_after, id) WHERE status = 'queued';
+CREATE INDEX idx_trade_jobs_trade_id ON trade_jobs(trade_id);
+CREATE INDEX idx_trade_jobs_exit_position ON trade_jobs(((options_json->'exit'->>'positionId')))
+  WHERE options_json ? 'exit';
+
+CREATE INDEX idx_trade_events_trade_id ON trade_events(trade_id, id);
+CREATE INDEX idx_trade_events_created_at ON trade_events(created_at DESC);
+
+CREATE INDEX idx_trade_attempts_status ON trade_attempts(status);
+
+CREATE INDEX idx_trade_slices_status ON trade_slices(status);
+
+CREATE INDEX idx_notification_deliveries_due ON notification_deliveries(next_attempt_at, id) WHERE status = 'pending';
+CREATE INDEX idx_notification_deliveries_channel ON notification_deliveries(channel_id, id DESC);
+
+-- At most one active halt per scope/target
+CREATE UNIQUE INDEX idx_trading_halts_active ON trading_halts(scope, COALESCE(target, ''))
+  WHERE resumed_at IS NULL;
+
+-- One risk limits row per wallet, plus one portfolio row
+CREATE UNIQUE INDEX idx_risk_limits_wallet ON risk_limits(COALESCE(wallet_id, 0));
+
+-- One enabled route per symbol/timeframe/strategy (NULL = wildcard)
+CREATE UNIQUE INDEX idx_routes_enabled_match ON routes(symbol, COALESCE(timeframe, ''), COALESCE(strategy, ''))
+  WHERE enabled;
+
 -- Triggers for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -182,6 +535,27 @@ CREATE TRIGGER update_trades_updated_at BEFORE UPDATE ON trades
 CREATE TRIGGER update_positions_updated_at BEFORE UPDATE ON positions
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_trade_jobs_updated_at BEFORE UPDATE ON trade_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sizing_policies_updated_at BEFORE UPDATE ON sizing_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_routes_updated_at BEFORE UPDATE ON routes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_trade_attempts_updated_at BEFORE UPDATE ON trade_attempts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_risk_limits_updated_at BEFORE UPDATE ON risk_limits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_exit_rules_updated_at BEFORE UPDATE ON exit_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_trade_slices_updated_at BEFORE UPDATE ON trade_slices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Insert initial wallets (addresses will be updated by seed script)
 INSERT INTO wallets (name, address, wallet_type, timeframe, trading_pair, base_token, quote_token) VALUES
   ('SOL_30M', 'PLACEHOLDER_ADDRESS_1', 'sol_timeframe', '30', 'USDC/SOL', 'USDC', 'SOL'),
@@ -190,3 +564,24 @@ INSERT INTO wallets (name, address, wallet_type, timeframe, trading_pair, base_t
   ('FARTCOIN', 'PLACEHOLDER_ADDRESS_4', 'meme', NULL, 'SOL/FARTCOIN', 'SOL', 'FARTCOIN'),
   ('FARTBOY', 'PLACEHOLDER_ADDRESS_5', 'meme', NULL, 'SOL/FARTBOY', 'SOL', 'FARTBOY'),
   ('USELESS', 'PLACEHOLDER_ADDRESS_6', 'meme', NULL, 'SOL/USELESS', 'SOL', 'USELESS');
+
+-- Insert initial tokens (mirrors lib/config/tokens.ts)
+INSERT INTO tokens (symbol, mint, decimals, name) VALUES
+  ('SOL', 'So11111111111111111111111111111111111111112', 9, 'Solana'),
+  ('USDC', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 6, 'USD Coin'),
+  ('FARTCOIN', '9BB6NFEcjBCtnNLFko2FqVQBq8HHM13kCyYcdQbgpump', 6, 'Fartcoin'),
+  ('FARTBOY', 'y1AZt42vceCmStjW4zetK3VoNarC1VxJ5iDjpiupump', 6, 'Fartboy'),
+  ('USELESS', 'Dz9mQ9NzkBcCsuGPFJ3r1bS4wgqKMHBPiVuniW8Mbonk', 6, 'Useless');
+
+-- Insert initial routes: SOL routes by timeframe, meme coins by symbol (any timeframe)
+INSERT INTO routes (symbol, timeframe, wallet_id, asset_token, funding_token)
+SELECT r.symbol, r.timeframe, w.id, r.asset_token, r.funding_token
+FROM (VALUES
+  ('SOLUSD', '30', 'SOL_30M', 'SOL', 'USDC'),
+  ('SOLUSD', '60', 'SOL_60M', 'SOL', 'USDC'),
+  ('SOLUSD', '240', 'SOL_240M', 'SOL', 'USDC'),
+  ('FARTCOIN', NULL, 'FARTCOIN', 'FARTCOIN', 'SOL'),
+  ('FARTBOY', NULL, 'FARTBOY', 'FARTBOY', 'SOL'),
+  ('USELESS', NULL, 'USELESS', 'USELESS', 'SOL')
+) AS r(symbol, timeframe, wallet_name, asset_token, funding_token)
+JOIN wallets w ON w.name = r.wallet_name;
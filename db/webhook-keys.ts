@@ -0,0 +1,112 @@
+import { webhookKeyStore } from '../v3/core/webhook-keys';
+import { parserRegistry } from '../v3/api/webhook-parsers';
+
+/**
+ * Manage webhook signing keys
+ *
+ * Usage:
+ *   npm run webhook:keys -- list
+ *   npm run webhook:keys -- create <name> [--wallets=SOL_30M,SOL_60M] [--symbols=SOLUSD] [--parser=json]
+ *   npm run webhook:keys -- rotate <name> [--grace=3600]
+ *   npm run webhook:keys -- revoke <key_id>
+ *   npm run webhook:keys -- set-parser <name> <parser>
+ *
+ * The running webhook picks up changes within WEBHOOK_KEY_CACHE_SECONDS.
+ */
+async function main() {
+  const [command, arg, ...rest] = process.argv.slice(2);
+  const options = parseOptions(rest);
+
+  switch (command) {
+    case 'list': {
+      const keys = await webhookKeyStore.listKeys();
+      console.log('Webhook Keys:');
+      console.log('='.repeat(80));
+      keys.forEach((key) => {
+        const state = key.revokedAt
+          ? 'revoked'
+          : key.expiresAt
+            ? `expires ${new Date(key.expiresAt).toISOString()}`
+            : 'active';
+        console.log(`${key.name.padEnd(16)} ${key.keyId.padEnd(32)} [${state}]`);
+        console.log(
+          `${''.padEnd(16)} wallets: ${key.allowedWallets?.join(',') || '*'}  symbols: ${key.allowedSymbols?.join(',') || '*'}  parser: ${key.parser}`
+        );
+      });
+      break;
+    }
+
+    case 'create': {
+      if (!arg) throw new Error('Usage: create <name> [--wallets=...] [--symbols=...] [--parser=...]');
+      if (options.parser) assertParser(options.parser);
+      const key = await webhookKeyStore.createKey({
+        name: arg,
+        allowedWallets: options.wallets ? options.wallets.split(',') : null,
+        allowedSymbols: options.symbols ? options.symbols.split(',') : null,
+        parser: options.parser,
+      });
+      printSecret(key.keyId, key.secret);
+      break;
+    }
+
+    case 'rotate': {
+      if (!arg) throw new Error('Usage: rotate <name> [--grace=seconds]');
+      const graceSeconds = parseInt(options.grace || '3600', 10);
+      const key = await webhookKeyStore.rotateKey(arg, graceSeconds);
+      printSecret(key.keyId, key.secret);
+      console.log(`Previous generation of ${arg} expires in ${graceSeconds}s`);
+      break;
+    }
+
+    case 'revoke': {
+      if (!arg) throw new Error('Usage: revoke <key_id>');
+      await webhookKeyStore.revokeKey(arg);
+      console.log(`✅ Revoked ${arg}`);
+      break;
+    }
+
+    case 'set-parser': {
+      const parser = rest.find((value) => !value.startsWith('--'));
+      if (!arg || !parser) throw new Error('Usage: set-parser <name> <parser>');
+      assertParser(parser);
+      await webhookKeyStore.setParser(arg, parser);
+      console.log(`✅ ${arg} now uses the ${parser} parser`);
+      break;
+    }
+
+    default:
+      throw new Error(
+        `Unknown command: ${command || '(none)'} (expected list, create, rotate, revoke or set-parser)`
+      );
+  }
+
+  process.exit(0);
+}
+
+function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const arg of args) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) {
+      options[match[1]] = match[2];
+    }
+  }
+  return options;
+}
+
+function assertParser(name: string) {
+  if (!parserRegistry.get(name)) {
+    throw new Error(`Unknown parser: ${name} (expected ${parserRegistry.list().join(', ')})`);
+  }
+}
+
+function printSecret(keyId: string, secret: string) {
+  console.log('\n✅ Webhook key created - store the secret now, it is only shown once\n');
+  console.log(`Key ID: ${keyId}`);
+  console.log(`Secret: ${secret}`);
+}
+
+main().catch((error) => {
+  console.error('Webhook key command failed:', error.message || error);
+  process.exit(1);
+});
@@ -37,6 +37,125 @@ export const MAX_ROUTE_HOPS = 2;
 export const MIN_OUTPUT_AMOUNT = 0.0001; // Minimum output in tokens
 export const MAX_QUOTE_AGE_MS = 30000; // 30 seconds
 
+// Re-quote policy when a quote expires or exceeds the slippage limit (same pair keys as SLIPPAGE_LIMITS)
+export interface RequotePolicy {
+  maxAttempts: number; // Total quote attempts, including the first
+  backoffMs: number; // Delay before attempt n+1 is backoffMs * 2^(n-1)
+  maxDriftBps: number; // Max adverse move of the quoted price from the first quote
+}
+
+export const REQUOTE_POLICIES: Record<string, RequotePolicy> = {
+  // SOL pairs: quick retries, tight drift
+  'USDC/SOL': { maxAttempts: 3, backoffMs: 500, maxDriftBps: 50 },
+  'SOL/USDC': { maxAttempts: 3, backoffMs: 500, maxDriftBps: 50 },
+
+  // Meme coin pairs: slower books, allow more drift
+  'SOL/USELESS': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 150 },
+  'USELESS/SOL': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 150 },
+
+  'SOL/FARTCOIN': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 200 },
+  'FARTCOIN/SOL': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 200 },
+
+  'SOL/FARTBOY': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 200 },
+  'FARTBOY/SOL': { maxAttempts: 3, backoffMs: 1000, maxDriftBps: 200 },
+};
+
+// Default re-quote policy if pair not found (a single retry)
+export const DEFAULT_REQUOTE_POLICY: RequotePolicy = { maxAttempts: 2, backoffMs: 1000, maxDriftBps: 100 };
+
+// Alert price sanity check: max divergence of the alert price from the oracle price (same pair keys as SLIPPAGE_LIMITS)
+export const PRICE_DEVIATION_LIMITS: Record<string, number> = {
+  // SOL: every feed tracks the same deep books
+  'USDC/SOL': 100, // 1%
+  'SOL/USDC': 100,
+
+  // Meme coins: chart feeds (CEX pairs) can drift from on-chain prices
+  'SOL/USELESS': 500, // 5%
+  'USELESS/SOL': 500,
+
+  'SOL/FARTCOIN': 500,
+  'FARTCOIN/SOL': 500,
+
+  'SOL/FARTBOY': 500,
+  'FARTBOY/SOL': 500,
+};
+
+// Default price divergence limit if pair not found
+export const DEFAULT_MAX_PRICE_DEVIATION_BPS = 300; // 3%
+
+// Stale signal rejection: max age of an alert (from its alert / bar close time) when it executes, per timeframe
+export const MAX_SIGNAL_AGE_SECONDS: Record<string, number> = {
+  '30': 120, // 2 minutes
+  '60': 300, // 5 minutes
+  '240': 900, // 15 minutes
+};
+
+// Default max signal age if timeframe not found
+export const DEFAULT_MAX_SIGNAL_AGE_SECONDS = 300;
+
+// Sliced (TWAP) execution bounds for route twap options
+export const TWAP_MAX_SLICES = 20;
+// A sliced order runs inside one job: the window stays well under SHUTDOWN_TIMEOUT_MS (30s) and RECOVERY_STALE_SECONDS.
+// Routes with a longer window are rejected, not shortened
+export const TWAP_MAX_WINDOW_SECONDS = 15;
+
+// Webhook request signing
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = parseInt(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS || '300', 10);
+export const WEBHOOK_KEY_CACHE_SECONDS = parseInt(process.env.WEBHOOK_KEY_CACHE_SECONDS || '30', 10);
+export const WEBHOOK_LEGACY_API_KEY_ENABLED = process.env.WEBHOOK_LEGACY_API_KEY_ENABLED === 'true';
+
+// Webhook ingress protection (checked before authentication)
+// Allowlist: comma-separated IPs / CIDRs, '*' allows any client; defaults to TradingView's alert servers
+export const WEBHOOK_IP_ALLOWLIST =
+  process.env.WEBHOOK_IP_ALLOWLIST || '52.89.214.238,34.212.75.30,54.218.53.128,52.32.178.7';
+export const WEBHOOK_RATE_LIMIT_PER_IP = parseInt(process.env.WEBHOOK_RATE_LIMIT_PER_IP || '60', 10); // Per minute, 0 = off
+export const WEBHOOK_RATE_LIMIT_PER_KEY = parseInt(process.env.WEBHOOK_RATE_LIMIT_PER_KEY || '30', 10); // Per minute, 0 = off
+export const WEBHOOK_MAX_BODY_BYTES = parseInt(process.env.WEBHOOK_MAX_BODY_BYTES || '16384', 10);
+// Express 'trust proxy': '' = off (client IP is the socket address), 'true', a hop count, or proxy IPs / CIDRs
+export const WEBHOOK_TRUST_PROXY = process.env.WEBHOOK_TRUST_PROXY || '';
+
+// Paper trading slippage model: fill = quote outAmount * (1 - bps / 10000)
+// bps = base + price impact (in bps) * multiplier, never worse than the quote's slippage limit
+export const PAPER_BASE_SLIPPAGE_BPS = parseFloat(process.env.PAPER_BASE_SLIPPAGE_BPS || '5');
+export const PAPER_IMPACT_MULTIPLIER = parseFloat(process.env.PAPER_IMPACT_MULTIPLIER || '1');
+
+// Trade job queue
+export const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+export const JOB_RETRY_BASE_DELAY_MS = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '5000', 10);
+export const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+// Running jobs locked longer than this belong to a dead worker and are reclaimed; must exceed the longest job
+export const JOB_LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '600', 10);
+
+// Stuck trade recovery: non-terminal trades older than this are reconciled on-chain
+export const RECOVERY_STALE_SECONDS = parseInt(process.env.RECOVERY_STALE_SECONDS || '300', 10);
+export const RECOVERY_INTERVAL_MS = parseInt(process.env.RECOVERY_INTERVAL_MS || '60000', 10);
+
+// Exit monitor: how often positions are checked against stop-loss / take-profit / trailing stop rules
+export const EXIT_MONITOR_INTERVAL_MS = parseInt(process.env.EXIT_MONITOR_INTERVAL_MS || '15000', 10);
+
+// Graceful shutdown: how long SIGTERM waits for the trade in flight before recording it as interrupted
+export const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '30000', 10);
+
+// Routing table cache (routes and tokens tables)
+export const ROUTE_CACHE_SECONDS = parseInt(process.env.ROUTE_CACHE_SECONDS || '30', 10);
+
+// Admin API (routes management) - empty disables the /admin endpoints
+export const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+
+// Webhook de-duplication: identical alerts inside this window replay the original response
+export const IDEMPOTENCY_WINDOW_SECONDS = parseInt(process.env.IDEMPOTENCY_WINDOW_SECONDS || '300', 10);
+
+// Notifications: send attempts per delivery, backoff base and retry worker interval
+export const NOTIFY_MAX_ATTEMPTS = parseInt(process.env.NOTIFY_MAX_ATTEMPTS || '5', 10);
+export const NOTIFY_RETRY_BASE_DELAY_MS = parseInt(process.env.NOTIFY_RETRY_BASE_DELAY_MS || '30000', 10);
+export const NOTIFY_INTERVAL_MS = parseInt(process.env.NOTIFY_INTERVAL_MS || '15000', 10);
+
+// Prometheus /metrics: bearer token scrapers must send - empty leaves the endpoint open
+export const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+// Structured logging: 'debug', 'info', 'warn' or 'error' (changeable at runtime via PUT /admin/log-level)
+export const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+
 // System constants
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
 export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
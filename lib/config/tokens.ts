@@ -38,6 +38,13 @@ export const TOKENS: Record<string, TokenConfig> = {
   }
 };
 
+/**
+ * Adds or updates a token at runtime (tokens loaded from the database).
+ */
+export function registerToken(config: TokenConfig): void {
+  TOKENS[config.symbol.toUpperCase()] = { ...config, symbol: config.symbol.toUpperCase() };
+}
+
 export function getMintAddress(symbol: string): string {
   const token = TOKENS[symbol.toUpperCase()];
   if (!token) {
@@ -1,8 +1,11 @@
 import { Pool } from 'pg';
 import dotenv from 'dotenv';
+import { Logger } from '../log/logger';
 
 dotenv.config();
 
+const logger = new Logger('db');
+
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : undefined,
@@ -17,13 +20,11 @@ export async function query(text: string, params?: any[]) {
     const res = await pool.query(text, params);
     const duration = Date.now() - start;
     if (duration > 1000) {
-      console.warn(`Slow query (${duration}ms):`, text.substring(0, 100));
+      logger.warn(`Slow query (${duration}ms)`, { query: text.substring(0, 100) });
     }
     return res;
   } catch (error) {
-    console.error('Database query error:', error);
-    console.error('Query:', text);
-    console.error('Params:', params);
+    logger.error('Database query error', { error, query: text, params });
     throw error;
   }
 }
@@ -43,6 +44,68 @@ export async function transaction<T>(callback: (client: any) => Promise<T>): Pro
   }
 }
 
+// Advisory lock namespaces (first key of pg_advisory_lock(int, int))
+export const LOCK_NAMESPACES = {
+  WALLET_EXECUTION: 1001, // Held by the trade pipeline from pre-validation to position update
+  POSITION_UPDATE: 1002, // Held inside PositionTracker transactions
+} as const;
+
+export interface AdvisoryLock {
+  /**
+   * Runs callback with the lock released and takes it again before returning,
+   * e.g. to wait between TWAP slices without blocking other holders.
+   */
+  pause<T>(callback: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Runs callback while holding a session-level advisory lock on (namespace, key).
+ * Callers for the same key are serialized across processes; the lock is released
+ * even if the callback throws.
+ */
+export async function withAdvisoryLock<T>(
+  namespace: number,
+  key: number,
+  callback: (lock: AdvisoryLock) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+  const lock: AdvisoryLock = {
+    async pause<R>(paused: () => Promise<R>): Promise<R> {
+      await client.query('SELECT pg_advisory_unlock($1, $2)', [namespace, key]);
+      try {
+        return await paused();
+      } finally {
+        await client.query('SELECT pg_advisory_lock($1, $2)', [namespace, key]);
+      }
+    },
+  };
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1, $2)', [namespace, key]);
+    try {
+      return await callback(lock);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1, $2)', [namespace, key]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Parses a nullable NUMERIC / DECIMAL column (pg returns them as strings)
+ */
+export function toNumber(value: string | number | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(String(value));
+}
+
+/**
+ * Whether a query failed on a unique constraint (SQLSTATE 23505)
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === '23505';
+}
+
 export async function healthCheck(): Promise<boolean> {
   try {
     await query('SELECT 1');
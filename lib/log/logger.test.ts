@@ -0,0 +1,72 @@
+/**
+ * Logger Test Suite
+ *
+ * Tests the pure logging helpers:
+ * 1. Lines are single JSON objects with context and fields; Errors and bigints serialize
+ * 2. Log context follows async calls, nests, and is gone after withLogContext returns
+ * 3. Only known levels are accepted
+ */
+
+import { formatLogLine, withLogContext, addLogContext, getLogContext, isLogLevel } from './logger';
+
+describe('formatLogLine', () => {
+  const time = new Date('2026-01-01T00:00:00.000Z');
+
+  it('should write context before the call fields', () => {
+    const line = formatLogLine('info', 'pipeline', 'Created trade record: 42', { signalId: 7, tradeId: 42 }, { ms: 5 }, time);
+
+    expect(JSON.parse(line)).toEqual({
+      time: '2026-01-01T00:00:00.000Z',
+      level: 'info',
+      component: 'pipeline',
+      msg: 'Created trade record: 42',
+      signalId: 7,
+      tradeId: 42,
+      ms: 5,
+    });
+  });
+
+  it('should serialize errors and bigints', () => {
+    const line = JSON.parse(formatLogLine('error', 'db', 'Query failed', {}, { error: new Error('boom'), lamports: 5n }, time));
+
+    expect(line.error.name).toBe('Error');
+    expect(line.error.message).toBe('boom');
+    expect(line.lamports).toBe('5');
+  });
+});
+
+describe('withLogContext / addLogContext', () => {
+  it('should carry context through async calls', async () => {
+    const seen = await withLogContext({ jobId: 1 }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      addLogContext({ tradeId: 2 });
+      return getLogContext();
+    });
+
+    expect(seen).toEqual({ jobId: 1, tradeId: 2 });
+    expect(getLogContext()).toEqual({});
+  });
+
+  it('should extend the parent context without changing it', () => {
+    withLogContext({ signalId: 1 }, () => {
+      withLogContext({ jobId: 2 }, () => {
+        expect(getLogContext()).toEqual({ signalId: 1, jobId: 2 });
+      });
+      expect(getLogContext()).toEqual({ signalId: 1 });
+    });
+  });
+
+  it('should ignore addLogContext outside a context', () => {
+    addLogContext({ tradeId: 3 });
+    expect(getLogContext()).toEqual({});
+  });
+});
+
+describe('isLogLevel', () => {
+  it('should accept only known levels', () => {
+    expect(isLogLevel('debug')).toBe(true);
+    expect(isLogLevel('warn')).toBe(true);
+    expect(isLogLevel('verbose')).toBe(false);
+    expect(isLogLevel(undefined)).toBe(false);
+  });
+});
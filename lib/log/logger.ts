@@ -0,0 +1,143 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LOG_LEVEL } from '../config/constants';
+
+/**
+ * Structured Logger
+ *
+ * Every line is one JSON object: time, level, component, msg, the current log
+ * context and the call's own fields, e.g.
+ *
+ *   {"time":"...","level":"info","component":"pipeline","msg":"Created trade record: 42",
+ *    "signalId":118,"jobId":87,"wallet":"SOL_30M","tradeId":42}
+ *
+ * The context is carried through async calls with AsyncLocalStorage. Code that
+ * starts a unit of work (a webhook request, a trade job, the recovery of one
+ * trade) runs it inside withLogContext(); code that learns more on the way
+ * (the routed wallet, the trade id) adds it with addLogContext(). Everything
+ * logged underneath - pipeline, Jupiter, verifier, position tracker - carries
+ * those fields without passing them around.
+ *
+ * The level starts at LOG_LEVEL and can be changed at runtime with
+ * setLogLevel() (PUT /admin/log-level).
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Correlation fields added to every line logged inside a context
+ */
+export interface LogContext {
+  signalId?: number;
+  jobId?: number;
+  tradeId?: number;
+  positionId?: number;
+  wallet?: string;
+  keyId?: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+// ============================================================================
+// Module State
+// ============================================================================
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+let currentLevel: LogLevel = isLogLevel(LOG_LEVEL) ? LOG_LEVEL : 'info';
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && LOG_LEVELS.includes(value as LogLevel);
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * Runs fn with the current context extended by `context`. The extension is
+ * visible to everything fn calls (sync or async) and gone when it returns.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * Adds fields to the current context, for the rest of the unit of work.
+ * Outside withLogContext() this is a no-op.
+ */
+export function addLogContext(context: LogContext): void {
+  const store = storage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+export function getLogContext(): LogContext {
+  return { ...storage.getStore() };
+}
+
+/**
+ * Serializes a log line. Errors become { name, message, stack }; bigints become strings.
+ */
+export function formatLogLine(
+  level: LogLevel,
+  component: string,
+  msg: string,
+  context: LogContext,
+  fields: LogFields = {},
+  time: Date = new Date()
+): string {
+  return JSON.stringify({ time: time.toISOString(), level, component, msg, ...context, ...fields }, (key, value) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+  });
+}
+
+// ============================================================================
+// Logger Class
+// ============================================================================
+
+export class Logger {
+  constructor(private component: string) {}
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(currentLevel)) {
+      return;
+    }
+
+    const line = formatLogLine(level, this.component, msg, getLogContext(), fields);
+    (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(line + '\n');
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Metrics Test Suite
+ *
+ * Tests the Prometheus text rendering:
+ * 1. Counters and gauges render one line per label set, with escaped values
+ * 2. Histograms render cumulative buckets, +Inf, sum and count
+ * 3. Collectors run before rendering; duplicate names and missing labels throw
+ */
+
+import { MetricsRegistry, formatLabels, formatMetricValue } from './metrics';
+
+describe('formatLabels / formatMetricValue', () => {
+  it('should escape label values', () => {
+    expect(formatLabels({})).toBe('');
+    expect(formatLabels({ reason: 'a "b"\\c\nd' })).toBe('{reason="a \\"b\\"\\\\c\\nd"}');
+  });
+
+  it('should render infinities', () => {
+    expect(formatMetricValue(Infinity)).toBe('+Inf');
+    expect(formatMetricValue(0.25)).toBe('0.25');
+  });
+});
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges per label set', async () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests', ['outcome']);
+    const balance = registry.gauge('balance', 'Balance', ['wallet']);
+
+    requests.inc({ outcome: 'queued' });
+    requests.inc({ outcome: 'queued' });
+    requests.inc({ outcome: 'rejected' }, 3);
+    balance.set({ wallet: 'SOL_30M' }, 0.5);
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{outcome="queued"} 2',
+        'requests_total{outcome="rejected"} 3',
+        '# HELP balance Balance',
+        '# TYPE balance gauge',
+        'balance{wallet="SOL_30M"} 0.5',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', ['stage'], [1, 5]);
+
+    latency.observe({ stage: 'quote' }, 0.5);
+    latency.observe({ stage: 'quote' }, 2);
+    latency.observe({ stage: 'quote' }, 10);
+
+    const lines = (await registry.render()).split('\n');
+    expect(lines).toContain('latency_seconds_bucket{stage="quote",le="1"} 1');
+    expect(lines).toContain('latency_seconds_bucket{stage="quote",le="5"} 2');
+    expect(lines).toContain('latency_seconds_bucket{stage="quote",le="+Inf"} 3');
+    expect(lines).toContain('latency_seconds_sum{stage="quote"} 12.5');
+    expect(lines).toContain('latency_seconds_count{stage="quote"} 3');
+  });
+
+  it('should run collectors before rendering', async () => {
+    const registry = new MetricsRegistry();
+    const positions = registry.gauge('positions', 'Open positions', ['token']);
+    positions.set({ token: 'CLOSED' }, 1);
+
+    registry.addCollector(async () => {
+      positions.reset();
+      positions.set({ token: 'SOL' }, 2);
+    });
+
+    const text = await registry.render();
+    expect(text).toContain('positions{token="SOL"} 2');
+    expect(text).not.toContain('CLOSED');
+  });
+
+  it('should reject duplicate names and missing labels', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests', ['outcome']);
+
+    expect(() => registry.counter('requests_total', 'Again')).toThrow('already registered');
+    expect(() => requests.inc({})).toThrow('missing label outcome');
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Prometheus Metrics
+ *
+ * In-process counters, gauges and histograms rendered in the Prometheus text
+ * format by GET /metrics. Values are per process and reset on restart.
+ *
+ * The trading metrics are defined at the bottom of this file so every module
+ * (webhook, pipeline, Jupiter, Helius) records into the same series. Gauges
+ * that are read from the database or the chain (open positions, wallet SOL)
+ * are refreshed on each scrape by collectors (see v3/core/metrics-collector.ts).
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type Labels = Record<string, string | number>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Refreshes gauges right before a scrape is rendered
+ */
+export type MetricsCollectorFn = () => Promise<void>;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+export function formatMetricValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Renders a label set as {a="1",b="2"} ('' when empty)
+ */
+export function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// ============================================================================
+// Metric Classes
+// ============================================================================
+
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    readonly labelNames: string[] = []
+  ) {}
+
+  /**
+   * Drops every series, e.g. before a collector sets the current ones
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    const lines = [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const ordered: Labels = {};
+    for (const name of this.labelNames) {
+      if (labels[name] === undefined) {
+        throw new Error(`Metric ${this.name}: missing label ${name}`);
+      }
+      ordered[name] = String(labels[name]);
+    }
+
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatMetricValue(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'gauge', labelNames);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatMetricValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  counts: number[]; // Per bucket (not cumulative)
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  constructor(name: string, help: string, labelNames: string[], readonly buckets: number[]) {
+    super(name, help, 'histogram', labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      entry.value.counts[bucket]++;
+    }
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /**
+   * Starts timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: Labels): () => void {
+    const startedAt = Date.now();
+    return () => this.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+
+    this.buckets.forEach((bound, i) => {
+      cumulative += value.counts[i];
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatMetricValue(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatMetricValue(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+
+    return lines;
+  }
+}
+
+// ============================================================================
+// Metrics Registry Class
+// ============================================================================
+
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+  private collectors: MetricsCollectorFn[] = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  addCollector(collector: MetricsCollectorFn): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Runs the collectors, then renders every metric in the text exposition format
+   */
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collect) => collect()));
+    return this.metrics.map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Export singleton instance for convenience
+export const metrics = new MetricsRegistry();
+
+// ============================================================================
+// Trading Metrics
+// ============================================================================
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+const SLIPPAGE_BUCKETS = [0, 0.05, 0.1, 0.25, 0.5, 1, 2, 3, 5, 10];
+
+export const webhookRequestsTotal = metrics.counter(
+  'iagood_webhook_requests_total',
+  'Webhook requests by outcome (queued, rejected, duplicate, error, blocked) and rejection reason',
+  ['outcome', 'reason']
+);
+
+export const tradeJobsTotal = metrics.counter(
+  'iagood_trade_jobs_total',
+  'Trade job executions by outcome (success, retry, failed) and failure reason',
+  ['outcome', 'reason']
+);
+
+export const tradeStageSeconds = metrics.histogram(
+  'iagood_trade_stage_seconds',
+  'Latency of live trade stages: quote, send, confirm, verify',
+  ['stage'],
+  LATENCY_BUCKETS
+);
+
+export const tradeSlippagePct = metrics.histogram(
+  'iagood_trade_slippage_percent',
+  'Realized slippage of filled trades against the quote, per pair',
+  ['pair', 'mode'],
+  SLIPPAGE_BUCKETS
+);
+
+export const heliusRequestsTotal = metrics.counter(
+  'iagood_helius_requests_total',
+  'Helius API requests by outcome (success, error), counting each attempt',
+  ['outcome']
+);
+
+export const heliusRetriesTotal = metrics.counter('iagood_helius_retries_total', 'Helius API requests retried');
+
+export const heliusCacheLookupsTotal = metrics.counter(
+  'iagood_helius_cache_lookups_total',
+  'Helius client cache lookups by result (hit, miss)',
+  ['result']
+);
+
+export const openPositionValueUsd = metrics.gauge(
+  'iagood_open_position_value_usd',
+  'USD value of open positions at the oracle price, per wallet and token',
+  ['wallet', 'token']
+);
+
+export const walletSolBalance = metrics.gauge('iagood_wallet_sol_balance', 'SOL balance of live wallets (gas)', ['wallet']);
+
+export const walletMinGasReserveSol = metrics.gauge(
+  'iagood_wallet_min_gas_reserve_sol',
+  'Minimum SOL the wallet keeps for gas',
+  ['wallet']
+);
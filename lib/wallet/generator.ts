@@ -29,21 +29,9 @@ export function generateKeypairFromSeed(suffix: string): Keypair {
   return Keypair.fromSeed(derivedSeed);
 }
 
-export type WalletType = 'sol_30m' | 'sol_60m' | 'sol_240m' | 'fartcoin' | 'fartboy' | 'useless';
-
-export function getWalletForType(type: WalletType): Keypair {
-  return generateKeypairFromSeed(type);
-}
-
-export function getAllWallets(): Record<WalletType, Keypair> {
-  return {
-    sol_30m: getWalletForType('sol_30m'),
-    sol_60m: getWalletForType('sol_60m'),
-    sol_240m: getWalletForType('sol_240m'),
-    fartcoin: getWalletForType('fartcoin'),
-    fartboy: getWalletForType('fartboy'),
-    useless: getWalletForType('useless')
-  };
+// Wallets are derived from their lowercased name, e.g. SOL_30M -> 'sol_30m'
+export function getWalletForName(name: string): Keypair {
+  return generateKeypairFromSeed(name.toLowerCase());
 }
 
 export function verifyWalletAddress(type: string, expectedAddress: string): boolean {
@@ -0,0 +1,592 @@
+/**
+ * Admin API
+ *
+ * Endpoints (require x-admin-key: ADMIN_API_KEY):
+ *   GET  /admin/routes              - List all routes
+ *   POST /admin/routes              - Add a route
+ *   POST /admin/routes/:id/disable  - Disable a route
+ *   GET  /admin/trades/:id/events   - Status history, quote attempts and TWAP slices of a trade
+ *   GET  /admin/signals             - Inbound webhook signals (?status, reason, symbol, key_id, before, limit)
+ *   GET  /admin/signals/:id         - One signal with its raw payload, jobs and trades
+ *   GET  /admin/halts               - List active halts (?all=true includes resumed)
+ *   POST /admin/halts               - Halt trading (global, wallet or token)
+ *   POST /admin/halts/resume        - Lift a halt
+ *   GET  /admin/notifications/channels              - List notification channels (secrets masked)
+ *   POST /admin/notifications/channels              - Add a channel
+ *   POST /admin/notifications/channels/:id/disable  - Disable a channel
+ *   POST /admin/notifications/channels/:id/enable   - Re-enable a channel
+ *   POST /admin/notifications/channels/:id/test     - Send a test notification now
+ *   GET  /admin/notifications/deliveries            - Delivery log (?status, channel_id, before, limit)
+ *   PUT  /admin/wallets/:name/paper-balances/:token - Fund a paper wallet
+ *   GET  /admin/log-level           - Current log level
+ *   PUT  /admin/log-level           - Change the log level of this process
+ *
+ * Route changes take effect immediately in this process and within
+ * ROUTE_CACHE_SECONDS in other processes.
+ */
+
+import * as crypto from 'crypto';
+import express, { Request, Response, NextFunction } from 'express';
+import { routeRegistry, RouteConfigError } from '../core/route-registry';
+import { tradeLifecycle } from '../core/trade-lifecycle';
+import { tradeAttempts } from '../core/trade-attempts';
+import { tradeSlices } from '../core/trade-slices';
+import { tradingHalts, HaltConfigError } from '../core/trading-halts';
+import { paperLedger, PaperConfigError } from '../core/paper-trading';
+import { signalLog, SignalStatus, SIGNAL_STATUSES } from '../core/signal-log';
+import { notifier, DeliveryStatus, DELIVERY_STATUSES } from '../notify/notifier';
+import { NotificationConfigError } from '../notify/sinks';
+import { ADMIN_API_KEY, MAX_PRICE_IMPACT_PCT, TWAP_MAX_SLICES, TWAP_MAX_WINDOW_SECONDS } from '../../lib/config/constants';
+import { Logger, LOG_LEVELS, getLogLevel, setLogLevel, isLogLevel } from '../../lib/log/logger';
+
+const logger = new Logger('admin');
+
+// ============================================================================
+// Express Router
+// ============================================================================
+
+const router = express.Router();
+
+/**
+ * Admin authentication: constant-time compare against ADMIN_API_KEY
+ */
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (!ADMIN_API_KEY) {
+    return res.status(503).json({ error: 'Admin API disabled: ADMIN_API_KEY is not set' });
+  }
+
+  const provided = Buffer.from(req.header('x-admin-key') || '');
+  const expected = Buffer.from(ADMIN_API_KEY);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: 'Unauthorized: Missing or invalid admin key' });
+  }
+
+  next();
+});
+
+/**
+ * List routes
+ * GET /admin/routes
+ */
+router.get('/routes', async (req: Request, res: Response) => {
+  try {
+    const routes = await routeRegistry.listRoutes();
+    res.json({ routes });
+  } catch (error) {
+    logger.error('Error listing routes', { error });
+    res.status(500).json({
+      error: 'Failed to list routes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Add a route
+ * POST /admin/routes
+ *
+ * Body: { symbol, timeframe?, strategy?, wallet, asset_token, funding_token, max_slippage_bps?,
+ *         twap_slices?, twap_window_seconds?, twap_target_impact_pct? }
+ */
+router.post('/routes', async (req: Request, res: Response) => {
+  const {
+    symbol,
+    timeframe,
+    strategy,
+    wallet,
+    asset_token,
+    funding_token,
+    max_slippage_bps,
+    twap_slices,
+    twap_window_seconds,
+    twap_target_impact_pct,
+  } = req.body || {};
+
+  const missing = ['symbol', 'wallet', 'asset_token', 'funding_token'].filter(
+    (field) => typeof req.body?.[field] !== 'string' || req.body[field] === ''
+  );
+  if (missing.length > 0) {
+    return res.status(400).json({ error: `Missing or invalid fields: ${missing.join(', ')}` });
+  }
+
+  if (max_slippage_bps !== undefined && !(Number(max_slippage_bps) > 0)) {
+    return res.status(400).json({ error: `Invalid max_slippage_bps: ${max_slippage_bps}` });
+  }
+
+  const twapError = validateTwapOptions(twap_slices, twap_window_seconds, twap_target_impact_pct);
+  if (twapError) {
+    return res.status(400).json({ error: twapError });
+  }
+
+  try {
+    const route = await routeRegistry.createRoute({
+      symbol,
+      timeframe: timeframe !== undefined && timeframe !== null ? String(timeframe) : null,
+      strategy: strategy || null,
+      walletName: wallet,
+      assetToken: asset_token,
+      fundingToken: funding_token,
+      options: {
+        maxSlippageBps: max_slippage_bps !== undefined ? Number(max_slippage_bps) : undefined,
+        twap:
+          twap_slices !== undefined
+            ? {
+                slices: Number(twap_slices),
+                windowSeconds: Number(twap_window_seconds),
+                targetImpactPct: twap_target_impact_pct !== undefined ? Number(twap_target_impact_pct) : undefined,
+              }
+            : undefined,
+      },
+    });
+
+    logger.info(`Route ${route.id} added: ${route.symbol} [${route.timeframe || '*'}] → ${route.walletName}`);
+    res.status(201).json({ route });
+  } catch (error) {
+    if (error instanceof RouteConfigError) {
+      return res.status(400).json({ error: 'Invalid route', message: error.message });
+    }
+
+    logger.error('Error adding route', { error });
+    res.status(500).json({
+      error: 'Failed to add route',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Disable a route
+ * POST /admin/routes/:id/disable
+ */
+router.post('/routes/:id/disable', async (req: Request, res: Response) => {
+  const routeId = parseInt(String(req.params.id), 10);
+  if (isNaN(routeId)) {
+    return res.status(400).json({ error: `Invalid route id: ${req.params.id}` });
+  }
+
+  try {
+    const route = await routeRegistry.disableRoute(routeId);
+    if (!route) {
+      return res.status(404).json({ error: `Route not found: ${routeId}` });
+    }
+
+    logger.info(`Route ${route.id} disabled: ${route.symbol} [${route.timeframe || '*'}]`);
+    res.json({ route });
+  } catch (error) {
+    logger.error('Error disabling route', { error });
+    res.status(500).json({
+      error: 'Failed to disable route',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Trade status history, quote attempts and TWAP slices
+ * GET /admin/trades/:id/events
+ */
+router.get('/trades/:id/events', async (req: Request, res: Response) => {
+  const tradeId = parseInt(String(req.params.id), 10);
+  if (isNaN(tradeId)) {
+    return res.status(400).json({ error: `Invalid trade id: ${req.params.id}` });
+  }
+
+  try {
+    const events = await tradeLifecycle.getHistory(tradeId);
+    if (events.length === 0) {
+      return res.status(404).json({ error: `No events for trade: ${tradeId}` });
+    }
+
+    const attempts = await tradeAttempts.list(tradeId);
+    const slices = await tradeSlices.list(tradeId);
+    res.json({ tradeId, status: events[events.length - 1].toStatus, events, attempts, slices });
+  } catch (error) {
+    logger.error('Error loading trade events', { error });
+    res.status(500).json({
+      error: 'Failed to load trade events',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * List inbound signals, newest first
+ * GET /admin/signals?status=rejected&reason=parse_failed&symbol=SOLUSD&key_id=relay-1a2b3c4d&before=120&limit=50
+ */
+router.get('/signals', async (req: Request, res: Response) => {
+  const { status, reason, symbol, key_id, before, limit } = req.query;
+
+  if (status !== undefined && !SIGNAL_STATUSES.includes(status as SignalStatus)) {
+    return res.status(400).json({ error: `Invalid status: ${status} (expected ${SIGNAL_STATUSES.join(', ')})` });
+  }
+
+  try {
+    const signals = await signalLog.list({
+      status: status as SignalStatus | undefined,
+      reason: typeof reason === 'string' ? reason : undefined,
+      symbol: typeof symbol === 'string' ? symbol : undefined,
+      keyId: typeof key_id === 'string' ? key_id : undefined,
+      beforeId: parseInt(String(before), 10) || undefined,
+      limit: parseInt(String(limit), 10) || undefined,
+    });
+    res.json({ signals });
+  } catch (error) {
+    logger.error('Error listing signals', { error });
+    res.status(500).json({
+      error: 'Failed to list signals',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * One signal with the jobs it queued and the trades they created
+ * GET /admin/signals/:id
+ */
+router.get('/signals/:id', async (req: Request, res: Response) => {
+  const signalId = parseInt(String(req.params.id), 10);
+  if (isNaN(signalId)) {
+    return res.status(400).json({ error: `Invalid signal id: ${req.params.id}` });
+  }
+
+  try {
+    const signal = await signalLog.get(signalId);
+    if (!signal) {
+      return res.status(404).json({ error: `Signal not found: ${signalId}` });
+    }
+
+    const execution = await signalLog.getExecution(signal);
+    res.json({ signal, ...execution });
+  } catch (error) {
+    logger.error('Error loading signal', { error });
+    res.status(500).json({
+      error: 'Failed to load signal',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * List halts
+ * GET /admin/halts
+ */
+router.get('/halts', async (req: Request, res: Response) => {
+  try {
+    const halts = await tradingHalts.list(req.query.all === 'true');
+    res.json({ halts });
+  } catch (error) {
+    logger.error('Error listing halts', { error });
+    res.status(500).json({
+      error: 'Failed to list halts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Halt trading
+ * POST /admin/halts
+ *
+ * Body: { scope: 'global' | 'wallet' | 'token', target?, reason, actor }
+ */
+router.post('/halts', async (req: Request, res: Response) => {
+  const { scope, target, reason, actor } = req.body || {};
+
+  const missing = ['scope', 'reason', 'actor'].filter(
+    (field) => typeof req.body?.[field] !== 'string' || req.body[field] === ''
+  );
+  if (missing.length > 0) {
+    return res.status(400).json({ error: `Missing or invalid fields: ${missing.join(', ')}` });
+  }
+
+  try {
+    const { halt, created } = await tradingHalts.halt({ scope, target, reason, actor });
+
+    if (created) {
+      logger.warn(`HALT ${halt.scope}${halt.target ? ` ${halt.target}` : ''} by ${actor}: ${reason}`);
+    }
+    res.status(created ? 201 : 200).json({ halt, created });
+  } catch (error) {
+    if (error instanceof HaltConfigError) {
+      return res.status(400).json({ error: 'Invalid halt', message: error.message });
+    }
+
+    logger.error('Error halting trading', { error });
+    res.status(500).json({
+      error: 'Failed to halt trading',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Lift a halt
+ * POST /admin/halts/resume
+ *
+ * Body: { scope, target?, reason?, actor }
+ */
+router.post('/halts/resume', async (req: Request, res: Response) => {
+  const { scope, target, reason, actor } = req.body || {};
+
+  const missing = ['scope', 'actor'].filter(
+    (field) => typeof req.body?.[field] !== 'string' || req.body[field] === ''
+  );
+  if (missing.length > 0) {
+    return res.status(400).json({ error: `Missing or invalid fields: ${missing.join(', ')}` });
+  }
+
+  try {
+    const halt = await tradingHalts.resume({ scope, target, reason, actor });
+    if (!halt) {
+      return res.status(404).json({ error: `No active ${scope} halt${target ? ` for ${target}` : ''}` });
+    }
+
+    logger.warn(`RESUME ${halt.scope}${halt.target ? ` ${halt.target}` : ''} by ${actor}`);
+    res.json({ halt });
+  } catch (error) {
+    if (error instanceof HaltConfigError) {
+      return res.status(400).json({ error: 'Invalid halt', message: error.message });
+    }
+
+    logger.error('Error resuming trading', { error });
+    res.status(500).json({
+      error: 'Failed to resume trading',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * List notification channels
+ * GET /admin/notifications/channels
+ */
+router.get('/notifications/channels', async (req: Request, res: Response) => {
+  try {
+    const channels = await notifier.listChannels();
+    res.json({ channels: channels.map((channel) => notifier.maskChannel(channel)) });
+  } catch (error) {
+    logger.error('Error listing notification channels', { error });
+    res.status(500).json({
+      error: 'Failed to list notification channels',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Add a notification channel
+ * POST /admin/notifications/channels
+ *
+ * Body: { name, type: 'webhook' | 'telegram' | 'discord' | 'slack' | 'email', config,
+ *         min_severity?: 'info' | 'warning' | 'critical', events?: string[] }
+ */
+router.post('/notifications/channels', async (req: Request, res: Response) => {
+  const { name, type, config, min_severity, events } = req.body || {};
+
+  const missing = ['name', 'type'].filter((field) => typeof req.body?.[field] !== 'string' || req.body[field] === '');
+  if (missing.length > 0) {
+    return res.status(400).json({ error: `Missing or invalid fields: ${missing.join(', ')}` });
+  }
+
+  if (events !== undefined && events !== null && !(Array.isArray(events) && events.every((e) => typeof e === 'string'))) {
+    return res.status(400).json({ error: 'events must be a list of event types' });
+  }
+
+  try {
+    const channel = await notifier.createChannel({ name, type, config, minSeverity: min_severity, events });
+
+    logger.info(`Notification channel ${channel.id} added: ${channel.name} (${channel.type}, ${channel.minSeverity}+)`);
+    res.status(201).json({ channel: notifier.maskChannel(channel) });
+  } catch (error) {
+    if (error instanceof NotificationConfigError) {
+      return res.status(400).json({ error: 'Invalid notification channel', message: error.message });
+    }
+
+    logger.error('Error adding notification channel', { error });
+    res.status(500).json({
+      error: 'Failed to add notification channel',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Disable / re-enable a notification channel
+ * POST /admin/notifications/channels/:id/disable
+ * POST /admin/notifications/channels/:id/enable
+ */
+async function setChannelEnabled(req: Request, res: Response, enabled: boolean) {
+  const channelId = parseInt(String(req.params.id), 10);
+  if (isNaN(channelId)) {
+    return res.status(400).json({ error: `Invalid channel id: ${req.params.id}` });
+  }
+
+  try {
+    const channel = await notifier.setChannelEnabled(channelId, enabled);
+    if (!channel) {
+      return res.status(404).json({ error: `Notification channel not found: ${channelId}` });
+    }
+
+    logger.info(`Notification channel ${channel.id} ${enabled ? 'enabled' : 'disabled'}: ${channel.name}`);
+    res.json({ channel: notifier.maskChannel(channel) });
+  } catch (error) {
+    logger.error('Error updating notification channel', { error });
+    res.status(500).json({
+      error: 'Failed to update notification channel',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+router.post('/notifications/channels/:id/disable', (req: Request, res: Response) => setChannelEnabled(req, res, false));
+router.post('/notifications/channels/:id/enable', (req: Request, res: Response) => setChannelEnabled(req, res, true));
+
+/**
+ * Send a test notification (ignores the channel's filters, not retried)
+ * POST /admin/notifications/channels/:id/test
+ */
+router.post('/notifications/channels/:id/test', async (req: Request, res: Response) => {
+  const channelId = parseInt(String(req.params.id), 10);
+  if (isNaN(channelId)) {
+    return res.status(400).json({ error: `Invalid channel id: ${req.params.id}` });
+  }
+
+  try {
+    const delivery = await notifier.sendTest(channelId);
+    if (!delivery) {
+      return res.status(404).json({ error: `Notification channel not found: ${channelId}` });
+    }
+
+    res.status(delivery.status === 'sent' ? 200 : 502).json({ delivery });
+  } catch (error) {
+    logger.error('Error sending test notification', { error });
+    res.status(500).json({
+      error: 'Failed to send test notification',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Notification delivery log, newest first
+ * GET /admin/notifications/deliveries?status=failed&channel_id=2&before=120&limit=50
+ */
+router.get('/notifications/deliveries', async (req: Request, res: Response) => {
+  const { status, channel_id, before, limit } = req.query;
+
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    return res.status(400).json({ error: `Invalid status: ${status} (expected ${DELIVERY_STATUSES.join(', ')})` });
+  }
+
+  try {
+    const deliveries = await notifier.listDeliveries({
+      status: status as DeliveryStatus | undefined,
+      channelId: parseInt(String(channel_id), 10) || undefined,
+      beforeId: parseInt(String(before), 10) || undefined,
+      limit: parseInt(String(limit), 10) || undefined,
+    });
+    res.json({ deliveries });
+  } catch (error) {
+    logger.error('Error listing notification deliveries', { error });
+    res.status(500).json({
+      error: 'Failed to list notification deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Set a paper wallet's balance of a token
+ * PUT /admin/wallets/:name/paper-balances/:token
+ *
+ * Body: { amount: number }
+ */
+router.put('/wallets/:name/paper-balances/:token', async (req: Request, res: Response) => {
+  const amount = req.body?.amount;
+  if (typeof amount !== 'number') {
+    return res.status(400).json({ error: 'amount must be a number' });
+  }
+
+  try {
+    const balance = await paperLedger.setBalance(String(req.params.name), String(req.params.token), amount);
+
+    logger.warn(`Paper balance of ${balance.walletName} set to ${balance.amount} ${balance.token} (was ${balance.previous})`);
+    res.json({ balance });
+  } catch (error) {
+    if (error instanceof PaperConfigError) {
+      return res.status(400).json({ error: 'Invalid paper balance', message: error.message });
+    }
+
+    logger.error('Error setting paper balance', { error });
+    res.status(500).json({
+      error: 'Failed to set paper balance',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * Current log level
+ * GET /admin/log-level
+ */
+router.get('/log-level', (req: Request, res: Response) => {
+  res.json({ level: getLogLevel() });
+});
+
+/**
+ * Change the log level until restart (LOG_LEVEL applies again on startup)
+ * PUT /admin/log-level
+ *
+ * Body: { level: 'debug' | 'info' | 'warn' | 'error' }
+ */
+router.put('/log-level', (req: Request, res: Response) => {
+  const level = req.body?.level;
+  if (!isLogLevel(level)) {
+    return res.status(400).json({ error: `level must be one of: ${LOG_LEVELS.join(', ')}` });
+  }
+
+  const previous = getLogLevel();
+  setLogLevel(level);
+  logger.warn(`Log level changed from ${previous} to ${level}`);
+  res.json({ level, previous });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Validates the TWAP route options (all absent = not sliced)
+ *
+ * @returns Error message, or null if valid
+ */
+function validateTwapOptions(slices: unknown, windowSeconds: unknown, targetImpactPct: unknown): string | null {
+  if (slices === undefined) {
+    return windowSeconds !== undefined || targetImpactPct !== undefined
+      ? 'twap_window_seconds and twap_target_impact_pct require twap_slices'
+      : null;
+  }
+
+  const sliceCount = Number(slices);
+  if (!Number.isInteger(sliceCount) || sliceCount < 2 || sliceCount > TWAP_MAX_SLICES) {
+    return `Invalid twap_slices: ${slices} (integer 2-${TWAP_MAX_SLICES})`;
+  }
+
+  const window = Number(windowSeconds);
+  if (windowSeconds === undefined || !(window >= 0 && window <= TWAP_MAX_WINDOW_SECONDS)) {
+    return `Invalid twap_window_seconds: ${windowSeconds} (0-${TWAP_MAX_WINDOW_SECONDS})`;
+  }
+
+  const target = Number(targetImpactPct);
+  if (targetImpactPct !== undefined && !(target > 0 && target < MAX_PRICE_IMPACT_PCT)) {
+    return `Invalid twap_target_impact_pct: ${targetImpactPct} (must be > 0 and < ${MAX_PRICE_IMPACT_PCT})`;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default router;
@@ -5,6 +5,8 @@
  *
  * Endpoint: GET /analytics
  * Health Check: GET /analytics/health
+ * Fees: GET /analytics/fees
+ * Signal shortfall: GET /analytics/shortfall
  *
  * Returns:
  * - Summary statistics (P&L, trade counts, success rate, slippage)
@@ -13,11 +15,17 @@
  * - Slippage distribution analysis
  * - Unresolved flags and issues
  * - Wallet performance breakdown
+ *
+ * Paper trades/positions (is_paper) are excluded from the live figures and
+ * reported side by side in paper_summary and paper_wallet_performance.
  */
 
 import express, { Request, Response } from 'express';
 import { query } from '../../lib/db/client';
 import { priceOracle } from '../helius/price-oracle';
+import { Logger } from '../../lib/log/logger';
+
+const logger = new Logger('analytics');
 
 // ============================================================================
 // Type Definitions
@@ -35,6 +43,7 @@ interface Position {
   market_value?: number; // current_amount * current_price (market value)
   unrealized_pnl?: number; // (current_price - avg_entry_price) * current_amount
   entry_timestamp: string;
+  is_paper: boolean;
 }
 
 interface Trade {
@@ -49,6 +58,7 @@ interface Trade {
   signature: string;
   execution_timestamp: string;
   status: string;
+  is_paper: boolean;
 }
 
 interface Flag {
@@ -112,6 +122,8 @@ interface AnalyticsResponse {
   slippage_distribution: SlippageDistribution;
   flags: FlagsSummary;
   wallet_performance: WalletStats[];
+  paper_summary: SummaryStats;
+  paper_wallet_performance: WalletStats[];
   response_time_ms: number;
 }
 
@@ -167,7 +179,7 @@ router.get('/fees', async (req: Request, res: Response) => {
           END
         ) FILTER (WHERE t.status = 'verified'), 0) as total_slippage_cost
       FROM wallets w
-      LEFT JOIN trades t ON w.id = t.wallet_id
+      LEFT JOIN trades t ON w.id = t.wallet_id AND t.is_paper = FALSE
       GROUP BY w.id, w.name
       ORDER BY w.name
     `);
@@ -191,7 +203,7 @@ router.get('/fees', async (req: Request, res: Response) => {
       by_wallet: walletFees,
     });
   } catch (error) {
-    console.error('[ANALYTICS] Error fetching fees:', error);
+    logger.error('Error fetching fees', { error });
     res.status(500).json({
       error: 'Failed to fetch fees data',
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -199,6 +211,64 @@ router.get('/fees', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Signal shortfall endpoint
+ * GET /analytics/shortfall?paper=true
+ *
+ * Fill price vs alert price per wallet and symbol, in bps (positive = filled
+ * worse than the alert). Only filled trades whose alert carried a price count.
+ */
+router.get('/shortfall', async (req: Request, res: Response) => {
+  const isPaper = req.query.paper === 'true';
+
+  try {
+    const result = await query(`
+      SELECT
+        w.name as wallet_name,
+        t.tv_symbol as symbol,
+        COUNT(*) as trades,
+        AVG(t.signal_shortfall_bps) as avg_shortfall_bps,
+        MAX(t.signal_shortfall_bps) as max_shortfall_bps,
+        MIN(t.signal_shortfall_bps) as min_shortfall_bps
+      FROM trades t
+      JOIN wallets w ON t.wallet_id = w.id
+      WHERE t.signal_shortfall_bps IS NOT NULL AND t.is_paper = $1
+      GROUP BY w.name, t.tv_symbol
+      ORDER BY w.name, t.tv_symbol
+    `, [isPaper]);
+
+    const bySymbol = result.rows.map((row) => ({
+      wallet_name: row.wallet_name,
+      symbol: row.symbol,
+      trades: parseInt(row.trades) || 0,
+      avg_shortfall_bps: parseFloat(row.avg_shortfall_bps),
+      max_shortfall_bps: parseFloat(row.max_shortfall_bps),
+      min_shortfall_bps: parseFloat(row.min_shortfall_bps),
+    }));
+
+    const totalTrades = bySymbol.reduce((sum, row) => sum + row.trades, 0);
+    const totals = {
+      trades: totalTrades,
+      avg_shortfall_bps:
+        totalTrades > 0
+          ? bySymbol.reduce((sum, row) => sum + row.avg_shortfall_bps * row.trades, 0) / totalTrades
+          : null,
+    };
+
+    res.json({
+      is_paper: isPaper,
+      totals,
+      by_symbol: bySymbol,
+    });
+  } catch (error) {
+    logger.error('Error fetching signal shortfall', { error });
+    res.status(500).json({
+      error: 'Failed to fetch signal shortfall data',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * Main analytics endpoint
  * GET /analytics
@@ -210,7 +280,7 @@ router.get('/', async (req: Request, res: Response) => {
   const startTime = Date.now();
 
   try {
-    console.log('[ANALYTICS] Fetching dashboard data...');
+    logger.info('Fetching dashboard data...');
 
     // Execute all queries in parallel for best performance
     const [
@@ -220,22 +290,29 @@ router.get('/', async (req: Request, res: Response) => {
       slippageDataResult,
       flagsResult,
       walletStatsResult,
+      paperSummaryResult,
+      paperWalletStatsResult,
     ] = await Promise.all([
-      fetchSummaryStats(),
+      fetchSummaryStats(false),
       fetchActivePositions(),
       fetchRecentTrades(),
       fetchSlippageData(),
       fetchUnresolvedFlags(),
-      fetchWalletPerformance(),
+      fetchWalletPerformance(false),
+      fetchSummaryStats(true),
+      fetchWalletPerformance(true),
     ]);
 
     // Enrich positions with current prices and unrealized P&L
     const enrichedPositions = await enrichPositionsWithPrices(positionsResult);
 
-    // Calculate total unrealized P&L
-    const totalUnrealizedPnl = enrichedPositions.reduce((sum, pos) =>
-      sum + (pos.unrealized_pnl || 0), 0
-    );
+    // Calculate total unrealized P&L (live and paper separately)
+    const totalUnrealizedPnl = enrichedPositions
+      .filter((pos) => !pos.is_paper)
+      .reduce((sum, pos) => sum + (pos.unrealized_pnl || 0), 0);
+    const paperUnrealizedPnl = enrichedPositions
+      .filter((pos) => pos.is_paper)
+      .reduce((sum, pos) => sum + (pos.unrealized_pnl || 0), 0);
 
     // Add unrealized P&L to summary
     const enrichedSummary = {
@@ -256,19 +333,21 @@ router.get('/', async (req: Request, res: Response) => {
       slippage_distribution: slippageDistribution,
       flags: flagsResult,
       wallet_performance: walletStatsResult,
+      paper_summary: { ...paperSummaryResult, total_unrealized_pnl: paperUnrealizedPnl },
+      paper_wallet_performance: paperWalletStatsResult,
       response_time_ms: responseTime,
     };
 
     if (responseTime > 1000) {
-      console.warn(`[ANALYTICS] Slow response: ${responseTime}ms`);
+      logger.warn(`Slow response: ${responseTime}ms`);
     } else {
-      console.log(`[ANALYTICS] Response sent in ${responseTime}ms`);
+      logger.info(`Response sent in ${responseTime}ms`);
     }
 
     res.json(response);
   } catch (error) {
     const responseTime = Date.now() - startTime;
-    console.error(`[ANALYTICS] Error after ${responseTime}ms:`, error);
+    logger.error(`Error after ${responseTime}ms`, { error });
 
     res.status(500).json({
       error: 'Failed to fetch analytics data',
@@ -283,9 +362,9 @@ router.get('/', async (req: Request, res: Response) => {
 // ============================================================================
 
 /**
- * Fetch summary statistics across all wallets
+ * Fetch summary statistics across all wallets (live or paper)
  */
-async function fetchSummaryStats(): Promise<SummaryStats> {
+async function fetchSummaryStats(isPaper: boolean): Promise<SummaryStats> {
   const result = await query(`
     WITH trade_stats AS (
       SELECT
@@ -295,6 +374,7 @@ async function fetchSummaryStats(): Promise<SummaryStats> {
         MAX(actual_slippage_pct) FILTER (WHERE actual_slippage_pct IS NOT NULL) as max_slippage,
         COUNT(*) FILTER (WHERE actual_slippage_pct > 5.0) as high_slippage_count
       FROM trades
+      WHERE is_paper = $1
     ),
     position_stats AS (
       SELECT
@@ -302,6 +382,7 @@ async function fetchSummaryStats(): Promise<SummaryStats> {
         COUNT(*) FILTER (WHERE status IN ('OPEN', 'PARTIAL')) as open_positions,
         COALESCE(SUM(current_amount * avg_entry_price) FILTER (WHERE status IN ('OPEN', 'PARTIAL')), 0) as total_open_value
       FROM positions
+      WHERE is_paper = $1
     )
     SELECT
       t.total_trades,
@@ -318,7 +399,7 @@ async function fetchSummaryStats(): Promise<SummaryStats> {
       p.open_positions,
       p.total_open_value
     FROM trade_stats t, position_stats p
-  `);
+  `, [isPaper]);
 
   const row = result.rows[0];
 
@@ -348,7 +429,8 @@ async function fetchActivePositions(): Promise<Position[]> {
       p.current_amount,
       p.avg_entry_price,
       (p.current_amount * p.avg_entry_price) as current_value,
-      p.entry_timestamp
+      p.entry_timestamp,
+      p.is_paper
     FROM positions p
     JOIN wallets w ON p.wallet_id = w.id
     WHERE p.status IN ('OPEN', 'PARTIAL')
@@ -364,6 +446,7 @@ async function fetchActivePositions(): Promise<Position[]> {
     avg_entry_price: parseFloat(row.avg_entry_price),
     current_value: parseFloat(row.current_value),
     entry_timestamp: row.entry_timestamp,
+    is_paper: row.is_paper,
   }));
 }
 
@@ -383,7 +466,8 @@ async function fetchRecentTrades(): Promise<Trade[]> {
       t.actual_slippage_pct,
       t.signature,
       t.execution_timestamp,
-      t.status
+      t.status,
+      t.is_paper
     FROM trades t
     JOIN wallets w ON t.wallet_id = w.id
     WHERE t.execution_timestamp IS NOT NULL
@@ -403,17 +487,19 @@ async function fetchRecentTrades(): Promise<Trade[]> {
     signature: row.signature || '',
     execution_timestamp: row.execution_timestamp,
     status: row.status,
+    is_paper: row.is_paper,
   }));
 }
 
 /**
- * Fetch slippage data from last 100 verified trades for distribution analysis
+ * Fetch slippage data from last 100 verified live trades for distribution analysis
  */
 async function fetchSlippageData(): Promise<Array<{ slippage: number }>> {
   const result = await query(`
     SELECT actual_slippage_pct as slippage
     FROM trades
     WHERE status = 'verified'
+      AND is_paper = FALSE
       AND actual_slippage_pct IS NOT NULL
     ORDER BY execution_timestamp DESC
     LIMIT 100
@@ -507,9 +593,9 @@ async function fetchUnresolvedFlags(): Promise<FlagsSummary> {
 }
 
 /**
- * Fetch performance metrics grouped by wallet
+ * Fetch performance metrics grouped by wallet (live or paper)
  */
-async function fetchWalletPerformance(): Promise<WalletStats[]> {
+async function fetchWalletPerformance(isPaper: boolean): Promise<WalletStats[]> {
   const result = await query(`
     WITH wallet_trades AS (
       SELECT
@@ -522,7 +608,7 @@ async function fetchWalletPerformance(): Promise<WalletStats[]> {
         AVG(t.actual_slippage_pct) FILTER (WHERE t.actual_slippage_pct IS NOT NULL) as avg_slippage,
         MAX(t.actual_slippage_pct) FILTER (WHERE t.actual_slippage_pct IS NOT NULL) as max_slippage
       FROM wallets w
-      LEFT JOIN trades t ON w.id = t.wallet_id
+      LEFT JOIN trades t ON w.id = t.wallet_id AND t.is_paper = $1
       GROUP BY w.id, w.name, w.address, w.timeframe
     ),
     wallet_positions AS (
@@ -531,7 +617,7 @@ async function fetchWalletPerformance(): Promise<WalletStats[]> {
         COALESCE(SUM(p.realized_pnl), 0) as total_pnl,
         COUNT(*) FILTER (WHERE p.status IN ('OPEN', 'PARTIAL')) as open_positions
       FROM wallets w
-      LEFT JOIN positions p ON w.id = p.wallet_id
+      LEFT JOIN positions p ON w.id = p.wallet_id AND p.is_paper = $1
       GROUP BY w.id
     )
     SELECT
@@ -552,7 +638,7 @@ async function fetchWalletPerformance(): Promise<WalletStats[]> {
     FROM wallet_trades wt
     JOIN wallet_positions wp ON wt.id = wp.id
     ORDER BY wt.name
-  `);
+  `, [isPaper]);
 
   return result.rows.map((row) => ({
     wallet_name: row.wallet_name,
@@ -603,7 +689,7 @@ async function enrichPositionsWithPrices(positions: Position[]): Promise<Positio
       return position;
     });
   } catch (error) {
-    console.error('[ANALYTICS] Error enriching positions with prices:', error);
+    logger.error('Error enriching positions with prices', { error });
     // Return positions without enrichment if pricing fails
     return positions;
   }
@@ -0,0 +1,441 @@
+/**
+ * Webhook App Test Suite
+ *
+ * Runs createApp against the in-memory fakes (no network, no database):
+ * 1. BUY → SELL through the webhook, job worker, fake swaps and verification
+ * 2. Signals rejected before queueing (authentication, routing, halts, duplicates)
+ *    and retries after a server error
+ * 3. Failures inside the pipeline (no position, stale signal, quote, swap and
+ *    on-chain failures) and the re-quote / retry paths
+ * 4. Paper wallets
+ * 5. TWAP routes (wallet lock released between slices, oversized windows refused,
+ *    unverified slices flagged)
+ * 6. Jobs left running by a lost worker
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createApp, AppConfig, DEFAULT_APP_CONFIG, TradingApp } from './app';
+import { FakeClock, FakeSigner, FakePrices, FakeChain, FakeSwapProvider, RecordingNotifier } from '../testing/fakes';
+import { MemoryStorage } from '../testing/memory-storage';
+
+const API_KEY = 'test-api-key';
+
+const CONFIG: AppConfig = {
+  ...DEFAULT_APP_CONFIG,
+  ingress: { allowlist: '*', ipLimitPerMinute: 0, keyLimitPerMinute: 0, maxBodyBytes: 16384 },
+  auth: { toleranceSeconds: 300, cacheTTLSeconds: 60, legacyApiKey: API_KEY },
+  trustProxy: '',
+  worker: { pollIntervalMs: 1000, retryBaseDelayMs: 5000, leaseSeconds: 600, workerId: 'test-worker' },
+};
+
+describe('createApp', () => {
+  let clock: FakeClock;
+  let storage: MemoryStorage;
+  let signer: FakeSigner;
+  let chain: FakeChain;
+  let swaps: FakeSwapProvider;
+  let notifier: RecordingNotifier;
+  let trading: TradingApp;
+  let server: http.Server;
+  let baseUrl: string;
+  let alerts = 0;
+
+  const walletAddress = () => signer.address('sol_60m');
+
+  async function post(fields: Record<string, string>, alertId = `alert-${++alerts}`) {
+    const res = await fetch(`${baseUrl}/webhook`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-api-key': API_KEY },
+      body: JSON.stringify({ timeframe: '60', price: '0', alert_id: alertId, ...fields }),
+    });
+    return { status: res.status, headers: res.headers, body: (await res.json()) as any };
+  }
+
+  /**
+   * Posts a signal and runs its job
+   */
+  async function trade(fields: Record<string, string>) {
+    const accepted = await post(fields);
+    expect(accepted.status).toBe(202);
+    expect(await trading.jobWorker.processNext()).toBe(true);
+    return (await storage.jobs.getJob(accepted.body.jobId))!;
+  }
+
+  beforeEach(async () => {
+    clock = new FakeClock();
+    storage = new MemoryStorage(clock);
+    signer = new FakeSigner();
+    chain = new FakeChain();
+    const prices = new FakePrices();
+    swaps = new FakeSwapProvider(chain, prices);
+    notifier = new RecordingNotifier();
+
+    trading = createApp(
+      { swapProvider: swaps, chainReader: chain, walletSigner: signer, clock, priceSource: prices, notifier, storage },
+      CONFIG
+    );
+
+    storage.addWallet('sol_60m');
+    storage.addRoute({ symbol: 'SOLUSD', timeframe: '60', walletName: 'sol_60m', assetToken: 'SOL', fundingToken: 'USDC' });
+    chain.setBalance(walletAddress(), 'USDC', 1000);
+    chain.setBalance(walletAddress(), 'SOL', 0.05);
+
+    server = trading.app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('BUY → SELL', () => {
+    it('should open a position on BUY and close it on SELL', async () => {
+      const buy = await trade({ symbol: 'SOLUSD', action: 'BUY', price: '150' });
+      expect(buy.status).toBe('succeeded');
+      expect(buy.result).toMatchObject({ success: true, inputAmount: 1000, position: { status: 'OPEN' } });
+
+      expect(chain.balance(walletAddress(), 'USDC')).toBe(0);
+      expect(chain.balance(walletAddress(), 'SOL')).toBeCloseTo(0.05 + 1000 / 150, 6);
+      expect(storage.trade(buy.trade_id!)!.status).toBe('verified');
+
+      const sell = await trade({ symbol: 'SOLUSD', action: 'SELL' });
+      expect(sell.status).toBe('succeeded');
+      expect(sell.result).toMatchObject({ success: true, position: { status: 'CLOSED', currentAmount: 0 } });
+
+      expect(chain.balance(walletAddress(), 'USDC')).toBeCloseTo(1000, 2);
+      expect(storage.positionTable).toHaveLength(1);
+      expect(storage.balanceCheckTable.length).toBeGreaterThan(0);
+      expect(notifier.ofType('trade_executed')).toHaveLength(2);
+    });
+  });
+
+  describe('rejected before queueing', () => {
+    it('should reject alerts without a route', async () => {
+      const res = await post({ symbol: 'FARTCOIN', action: 'BUY' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.reason).toBe('routing_failed');
+      expect(storage.jobTable).toHaveLength(0);
+      expect(storage.signalTable[0].status).toBe('rejected');
+    });
+
+    it('should not accept the legacy key from the query string', async () => {
+      const res = await fetch(`${baseUrl}/webhook?apiKey=${API_KEY}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ symbol: 'SOLUSD', action: 'BUY', timeframe: '60', price: '0' }),
+      });
+
+      expect(res.status).toBe(401);
+      expect(storage.jobTable).toHaveLength(0);
+    });
+
+    it('should store a redacted, truncated payload for a request that fails authentication', async () => {
+      const res = await fetch(`${baseUrl}/webhook`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-api-key': 'wrong-key' },
+        body: JSON.stringify({ secret: 'hunter2', symbol: 'SOLUSD', note: 'x'.repeat(4000) }),
+      });
+
+      expect(res.status).toBe(401);
+      const stored = storage.signalTable[0].rawPayload!;
+      expect(stored).toContain('"secret":"[redacted]"');
+      expect(stored).not.toContain('hunter2');
+      expect(stored.length).toBeLessThan(2000);
+    });
+
+    it('should refuse a chunked body over the size limit', async () => {
+      const body = JSON.stringify({ symbol: 'SOLUSD', action: 'BUY', note: 'x'.repeat(CONFIG.ingress.maxBodyBytes) });
+      const res = await fetch(`${baseUrl}/webhook`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-api-key': API_KEY },
+        body: new Blob([body]).stream(), // No Content-Length: only the body parser sees the size
+        duplex: 'half',
+      } as RequestInit);
+
+      expect(res.status).toBe(413);
+      expect(((await res.json()) as any).reason).toBe('payload_too_large');
+      expect(storage.blockedRequests).toEqual([
+        expect.objectContaining({ reason: 'payload_too_large', method: 'POST', path: '/webhook', contentLength: null }),
+      ]);
+    });
+
+    it('should record halted signals as rejected trades', async () => {
+      await storage.halts.halt({ scope: 'wallet', target: 'sol_60m', reason: 'maintenance', actor: 'test' });
+
+      const res = await post({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(res.status).toBe(503);
+      expect(res.body.reason).toBe('halted');
+      expect(storage.jobTable).toHaveLength(0);
+      expect(storage.tradeTable[0]).toMatchObject({ status: 'failed', rejectionReason: 'halted' });
+    });
+
+    it('should replay the response for a duplicate alert', async () => {
+      const first = await post({ symbol: 'SOLUSD', action: 'BUY' }, 'same-alert');
+      const second = await post({ symbol: 'SOLUSD', action: 'BUY' }, 'same-alert');
+
+      expect(second.status).toBe(202);
+      expect(second.headers.get('idempotent-replayed')).toBe('true');
+      expect(second.body.jobId).toBe(first.body.jobId);
+      expect(storage.jobTable).toHaveLength(1);
+    });
+
+    it('should process a retry after a server error instead of replaying it', async () => {
+      const enqueue = storage.jobs.enqueue;
+      storage.jobs.enqueue = async () => {
+        throw new Error('database unavailable');
+      };
+      const first = await post({ symbol: 'SOLUSD', action: 'BUY' }, 'retried-alert');
+      storage.jobs.enqueue = enqueue;
+
+      const retry = await post({ symbol: 'SOLUSD', action: 'BUY' }, 'retried-alert');
+
+      expect(first.status).toBe(500);
+      expect(retry.status).toBe(202);
+      expect(retry.headers.get('idempotent-replayed')).toBeNull();
+      expect(storage.jobTable).toHaveLength(1);
+    });
+  });
+
+  describe('pipeline failures', () => {
+    it('should fail a SELL without an open position', async () => {
+      const job = await trade({ symbol: 'SOLUSD', action: 'SELL' });
+
+      expect(job.status).toBe('failed');
+      expect(job.result).toMatchObject({ success: false, reason: 'no_open_position' });
+      expect(notifier.ofType('trade_failed')[0]).toMatchObject({ severity: 'warning', reason: 'no_open_position' });
+    });
+
+    it('should reject a signal that went stale in the queue', async () => {
+      const accepted = await post({ symbol: 'SOLUSD', action: 'BUY', alert_time: clock.now().toISOString() });
+      clock.advance(24 * 60 * 60 * 1000);
+      await trading.jobWorker.processNext();
+
+      const job = (await storage.jobs.getJob(accepted.body.jobId))!;
+      expect(job.result).toMatchObject({ success: false, reason: 'stale_signal' });
+      expect(swaps.quotes).toHaveLength(0);
+    });
+
+    it('should fail the trade when no quote is available', async () => {
+      swaps.failNext({ stage: 'quote', error: 'No routes found' });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(job.result).toMatchObject({ success: false, reason: 'quote_failed' });
+      expect(storage.trade(job.trade_id!)!.status).toBe('failed');
+    });
+
+    it('should retry the job after a transient quote failure', async () => {
+      swaps.failNext({ stage: 'quote', error: 'Jupiter quote API error: 503' });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+      expect(job.status).toBe('queued');
+      expect(await trading.jobWorker.processNext()).toBe(false); // Backing off
+
+      clock.advance(CONFIG.worker.retryBaseDelayMs);
+      expect(await trading.jobWorker.processNext()).toBe(true);
+      expect((await storage.jobs.getJob(job.id))!.status).toBe('succeeded');
+    });
+
+    it('should re-quote after a slippage rejection', async () => {
+      swaps.failNext({ stage: 'quote', reason: 'slippage' });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(job.result).toMatchObject({ success: true, attempts: 2 });
+      expect(storage.attemptTable.map((attempt) => attempt.status)).toEqual(['quote_rejected', 'filled']);
+    });
+
+    it('should re-quote when the quote expires before sending', async () => {
+      swaps.failNext({ stage: 'swap', error: 'Quote expired', requoteable: true });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(job.result).toMatchObject({ success: true, attempts: 2 });
+      expect(storage.attemptTable.map((attempt) => attempt.status)).toEqual(['expired', 'filled']);
+    });
+
+    it('should fail the trade when the swap fails', async () => {
+      swaps.failNext({ stage: 'swap', error: 'Transaction simulation failed' });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(job.status).toBe('failed');
+      expect(job.result).toMatchObject({ success: false, reason: 'execution_failed' });
+      expect(chain.balance(walletAddress(), 'USDC')).toBe(1000);
+      expect(notifier.ofType('trade_failed')[0].severity).toBe('critical');
+    });
+
+    it('should fail verification when the swap fails on-chain', async () => {
+      swaps.failNext({ stage: 'chain' });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY' });
+
+      expect(job.result).toMatchObject({ success: false, reason: 'verification_failed' });
+      expect(storage.trade(job.trade_id!)!.signature).toBe(swaps.swaps[0].signature);
+      expect(storage.positionTable).toHaveLength(0);
+    });
+  });
+
+  describe('paper wallets', () => {
+    it('should fill against the paper ledger without swapping', async () => {
+      const wallet = storage.addWallet('paper_sol', { paperMode: true });
+      storage.addRoute({ symbol: 'SOLUSD', timeframe: '240', walletName: 'paper_sol', assetToken: 'SOL', fundingToken: 'USDC' });
+      storage.setPaperBalance(wallet.id, 'USDC', 500);
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY', timeframe: '240' });
+
+      expect(job.result).toMatchObject({ success: true, paper: true });
+      expect(swaps.swaps).toHaveLength(0);
+      expect(await storage.paperLedger.getBalance(wallet.id, 'USDC')).toBe(0);
+      expect(await storage.paperLedger.getBalance(wallet.id, 'SOL')).toBeGreaterThan(3);
+      expect(storage.positionTable[0]).toMatchObject({ wallet_id: wallet.id, is_paper: true, status: 'OPEN' });
+    });
+  });
+
+  describe('TWAP routes', () => {
+    it('should release the wallet lock between slices', async () => {
+      const wallet = storage.addWallet('twap_sol');
+      storage.addRoute({
+        symbol: 'SOLUSD',
+        timeframe: '240',
+        walletName: 'twap_sol',
+        assetToken: 'SOL',
+        fundingToken: 'USDC',
+        options: { twap: { slices: 3, windowSeconds: 15 } },
+      });
+      chain.setBalance(signer.address('twap_sol'), 'USDC', 900);
+
+      // Each wait only returns once another holder could take the wallet lock
+      const waits: number[] = [];
+      const sleep = clock.sleep.bind(clock);
+      clock.sleep = async (ms) => {
+        waits.push(await storage.withWalletLock(wallet.id, async () => ms));
+        return sleep(ms);
+      };
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY', timeframe: '240' });
+
+      expect(job.result).toMatchObject({ success: true, slices: { planned: 3, filled: 3 } });
+      expect(waits).toEqual([5000, 5000]);
+      expect(storage.sliceTable.every((slice) => slice.status === 'filled')).toBe(true);
+    });
+
+    it('should refuse a window longer than TWAP_MAX_WINDOW_SECONDS', async () => {
+      storage.addWallet('twap_sol');
+      storage.addRoute({
+        symbol: 'SOLUSD',
+        timeframe: '240',
+        walletName: 'twap_sol',
+        assetToken: 'SOL',
+        fundingToken: 'USDC',
+        options: { twap: { slices: 3, windowSeconds: 3600 } },
+      });
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY', timeframe: '240' });
+
+      expect(job.result).toMatchObject({
+        success: false,
+        reason: 'routing_failed',
+        error: expect.stringContaining('TWAP_MAX_WINDOW_SECONDS'),
+      });
+      expect(swaps.swaps).toHaveLength(0);
+    });
+
+    it('should flag a slice that was sent but not verified', async () => {
+      storage.addWallet('twap_sol');
+      storage.addRoute({
+        symbol: 'SOLUSD',
+        timeframe: '240',
+        walletName: 'twap_sol',
+        assetToken: 'SOL',
+        fundingToken: 'USDC',
+        options: { twap: { slices: 3, windowSeconds: 15 } },
+      });
+      chain.setBalance(signer.address('twap_sol'), 'USDC', 900);
+
+      // The second child's swap lands with an on-chain error
+      const sleep = clock.sleep.bind(clock);
+      clock.sleep = async (ms) => {
+        if (swaps.swaps.length === 1) swaps.failNext({ stage: 'chain' });
+        return sleep(ms);
+      };
+
+      const job = await trade({ symbol: 'SOLUSD', action: 'BUY', timeframe: '240' });
+
+      expect(job.result).toMatchObject({ success: true, slices: { planned: 3, filled: 1 } });
+      expect(storage.sliceTable.map((slice) => slice.status)).toEqual(['filled', 'failed', 'skipped']);
+      expect(storage.sliceTable[1].signature).toBe(swaps.swaps[1].signature);
+      expect(storage.flags).toHaveLength(1);
+      expect(storage.flags[0]).toMatchObject({ flagType: 'unverified_slice', severity: 'critical' });
+    });
+  });
+
+  describe('lost workers', () => {
+    /**
+     * Posts a signal and claims its job for a worker that then disappears
+     */
+    async function orphan(fields: Record<string, string>) {
+      const accepted = await post(fields);
+      await storage.jobs.claimNext('dead-worker');
+      return accepted.body.jobId as number;
+    }
+
+    it('should leave running jobs alone within the lease', async () => {
+      await orphan({ symbol: 'SOLUSD', action: 'BUY' });
+      clock.advance(CONFIG.worker.leaseSeconds * 1000 - 1000);
+
+      const reclaimed = await trading.jobWorker.reclaimExpired();
+
+      expect(reclaimed.requeued).toHaveLength(0);
+      expect(reclaimed.failed).toHaveLength(0);
+    });
+
+    it('should re-queue an expired job that never created a trade', async () => {
+      const jobId = await orphan({ symbol: 'SOLUSD', action: 'BUY' });
+      clock.advance(CONFIG.worker.leaseSeconds * 1000 + 1000);
+
+      const reclaimed = await trading.jobWorker.reclaimExpired();
+      expect(reclaimed.requeued.map((job) => job.id)).toEqual([jobId]);
+
+      expect(await trading.jobWorker.processNext()).toBe(true);
+      expect((await storage.jobs.getJob(jobId))!.status).toBe('succeeded');
+    });
+
+    it('should fail an expired job with a trade and leave the trade to recovery', async () => {
+      const jobId = await orphan({ symbol: 'SOLUSD', action: 'SELL' });
+      const tradeId = await storage.trades.recordPending(
+        {
+          walletId: storage.wallets[0].id,
+          symbol: 'SOLUSD',
+          action: 'SELL',
+          signalAction: 'SELL',
+          timeframe: '60',
+          inputToken: 'SOL',
+          outputToken: 'USDC',
+          inputAmount: 0.05,
+          isPaper: false,
+          sizing: { policy: 'position_exit', inputAmount: 0.05, notionalUsd: null, equityUsd: null, capped: false },
+          exitTrigger: null,
+          tvPrice: null,
+          oraclePrice: null,
+          signalTime: null,
+          signalId: null,
+          jobId,
+        },
+        'pipeline'
+      );
+      clock.advance(CONFIG.worker.leaseSeconds * 1000 + 1000);
+
+      const reclaimed = await trading.jobWorker.reclaimExpired();
+
+      expect(reclaimed.failed.map((job) => job.id)).toEqual([jobId]);
+      expect((await storage.jobs.getJob(jobId))!.status).toBe('failed');
+      expect(storage.trade(tradeId)!.interruptedAt).toEqual(clock.now());
+      expect(notifier.ofType('trade_failed')[0]).toMatchObject({ severity: 'critical', reason: 'worker_lost', tradeId });
+    });
+  });
+});
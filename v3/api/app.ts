@@ -0,0 +1,530 @@
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { TransactionVerifier } from '../helius';
+import { PositionSizer } from '../core/position-sizing';
+import { RiskEngine } from '../core/risk-limits';
+import { SignalPriceGuard } from '../core/signal-price';
+import { SlippageModel } from '../core/paper-trading';
+import { describeHalt } from '../core/trading-halts';
+import { getSignalTime } from '../core/signal-age';
+import { IdempotencyStore } from '../core/idempotency';
+import { SignalContext, SignalStatus } from '../core/signal-log';
+import { TradePipeline, ErrorResponse, closeSignal } from '../core/trade-pipeline';
+import { signalSide } from '../core/types';
+import { TradeJobWorker, WorkerConfig } from '../core/job-queue';
+import { SwapProvider, ChainReader, WalletSigner, Clock, PriceSource, NotificationPublisher } from '../core/ports';
+import { Storage } from '../core/storage';
+import {
+  WEBHOOK_API_KEY,
+  WEBHOOK_LEGACY_API_KEY_ENABLED,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  WEBHOOK_KEY_CACHE_SECONDS,
+  WEBHOOK_IP_ALLOWLIST,
+  WEBHOOK_RATE_LIMIT_PER_IP,
+  WEBHOOK_RATE_LIMIT_PER_KEY,
+  WEBHOOK_MAX_BODY_BYTES,
+  WEBHOOK_TRUST_PROXY,
+  JOB_LEASE_SECONDS,
+  JOB_POLL_INTERVAL_MS,
+  JOB_RETRY_BASE_DELAY_MS,
+  PAPER_BASE_SLIPPAGE_BPS,
+  PAPER_IMPACT_MULTIPLIER,
+} from '../../lib/config/constants';
+import analyticsRouter from './analytics';
+import { createJobsRouter } from './jobs';
+import adminRouter from './admin';
+import metricsRouter from './metrics';
+import { WebhookAuthenticator, WebhookAuthConfig, WebhookPrincipal, RawBodyRequest } from './webhook-auth';
+import { WebhookIngress, WebhookIngressConfig, parseTrustProxy } from './webhook-ingress';
+import { parserRegistry } from './webhook-parsers';
+import { Logger, withLogContext, addLogContext } from '../../lib/log/logger';
+import { webhookRequestsTotal } from '../../lib/metrics/metrics';
+
+/**
+ * Webhook App Factory
+ *
+ * createApp wires the webhook, the job status API and the trade pipeline onto
+ * the ports it is given instead of module-level clients, so the same app runs
+ * against Jupiter / Helius / Postgres in webhook.ts and against the in-memory
+ * fakes in v3/testing:
+ *
+ *   const { app, jobWorker } = createApp({ swapProvider, chainReader, walletSigner, clock, priceSource,
+ *     notifier, storage });
+ *
+ * Nothing is started: the caller listens and starts (or steps) the job worker.
+ * Analytics, admin and metrics endpoints are mounted as-is and still query
+ * Postgres directly.
+ */
+
+const logger = new Logger('webhook');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface AppDeps {
+  swapProvider: SwapProvider;
+  chainReader: ChainReader;
+  walletSigner: WalletSigner;
+  clock: Clock;
+  priceSource: PriceSource;
+  notifier: NotificationPublisher;
+  storage: Storage;
+}
+
+export interface AppConfig {
+  ingress: WebhookIngressConfig;
+  auth: Omit<WebhookAuthConfig, 'keyStore'>;
+  trustProxy: string; // WEBHOOK_TRUST_PROXY format
+  worker: WorkerConfig;
+  pipeline: { paperSlippage: SlippageModel };
+}
+
+export interface TradingApp {
+  app: Express;
+  pipeline: TradePipeline;
+  jobWorker: TradeJobWorker; // Not started
+}
+
+interface AcceptedResponse {
+  success: true;
+  jobId: number;
+  status: 'queued';
+  statusUrl: string;
+}
+
+interface FlattenAcceptedResponse {
+  success: true;
+  status: 'queued';
+  jobs: { jobId: number; wallet: string; token: string; statusUrl: string }[]; // One CLOSE per open position
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  ingress: {
+    allowlist: WEBHOOK_IP_ALLOWLIST,
+    ipLimitPerMinute: WEBHOOK_RATE_LIMIT_PER_IP,
+    keyLimitPerMinute: WEBHOOK_RATE_LIMIT_PER_KEY,
+    maxBodyBytes: WEBHOOK_MAX_BODY_BYTES,
+  },
+  auth: {
+    toleranceSeconds: WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+    cacheTTLSeconds: WEBHOOK_KEY_CACHE_SECONDS,
+    legacyApiKey: WEBHOOK_LEGACY_API_KEY_ENABLED ? WEBHOOK_API_KEY : undefined,
+  },
+  trustProxy: WEBHOOK_TRUST_PROXY,
+  worker: {
+    pollIntervalMs: JOB_POLL_INTERVAL_MS,
+    retryBaseDelayMs: JOB_RETRY_BASE_DELAY_MS,
+    leaseSeconds: JOB_LEASE_SECONDS,
+  },
+  pipeline: {
+    paperSlippage: {
+      baseSlippageBps: PAPER_BASE_SLIPPAGE_BPS,
+      impactMultiplier: PAPER_IMPACT_MULTIPLIER,
+    },
+  },
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Whether an error is body-parser's payload limit error
+ */
+function isEntityTooLarge(err: unknown): err is Error & { type: 'entity.too.large' } {
+  return err instanceof Error && 'type' in err && err.type === 'entity.too.large';
+}
+
+// ============================================================================
+// App Factory
+// ============================================================================
+
+/**
+ * Builds the webhook app and its trade pipeline and job worker.
+ */
+export function createApp(deps: AppDeps, config: AppConfig = DEFAULT_APP_CONFIG): TradingApp {
+  const { storage } = deps;
+
+  const transactionVerifier = new TransactionVerifier(deps.chainReader);
+  const pipeline = new TradePipeline(
+    {
+      chainReader: deps.chainReader,
+      swapProvider: deps.swapProvider,
+      walletSigner: deps.walletSigner,
+      clock: deps.clock,
+      notifier: deps.notifier,
+      storage,
+      transactionVerifier,
+      positionSizer: new PositionSizer(deps.priceSource, storage.sizingPolicies),
+      riskEngine: new RiskEngine(deps.priceSource, storage.risk, storage.positions, storage.halts),
+      signalPriceGuard: new SignalPriceGuard(deps.priceSource),
+    },
+    config.pipeline
+  );
+  const jobWorker = new TradeJobWorker(storage.jobs, pipeline, config.worker, deps.notifier);
+  const webhookAuth = new WebhookAuthenticator({ keyStore: storage.webhookKeys, ...config.auth });
+  const webhookIngress = new WebhookIngress(storage.webhookRequests, config.ingress);
+
+  // ==========================================================================
+  // Helper Functions
+  // ==========================================================================
+
+  /**
+   * Queues a CLOSE for every open position (on its wallet's current ledger) that
+   * the key may trade, each scoped to the position's wallet.
+   */
+  async function enqueueFlatten(principal: WebhookPrincipal, signalId: number): Promise<FlattenAcceptedResponse> {
+    const positions = await storage.positions.listOpenPositions();
+
+    const jobs: FlattenAcceptedResponse['jobs'] = [];
+    for (const position of positions) {
+      if (!webhookAuth.isWalletAllowed(principal, position.wallet_name)) continue;
+
+      const route = await storage.routes.findForPosition(position.wallet_id, position.token);
+      if (!route) {
+        logger.warn(`FLATTEN_ALL: no enabled route sells ${position.token} for ${position.wallet_name}`);
+        continue;
+      }
+      if (!webhookAuth.isSymbolAllowed(principal, route.symbol)) continue;
+
+      const job = await storage.jobs.enqueue({
+        signal: closeSignal(route),
+        options: { keyId: principal.keyId, allowedWallets: [position.wallet_name], signalId },
+      });
+      jobs.push({ jobId: job.id, wallet: position.wallet_name, token: position.token, statusUrl: `/jobs/${job.id}` });
+    }
+
+    return { success: true, status: 'queued', jobs };
+  }
+
+  /**
+   * Counts the webhook's answer and records it on the signal row. Failures are
+   * only logged: the signal log must not change the response.
+   */
+  async function completeSignal(
+    signalId: number | null,
+    context: SignalContext,
+    status: Exclude<SignalStatus, 'received'>,
+    statusCode: number,
+    body: AcceptedResponse | FlattenAcceptedResponse | ErrorResponse
+  ): Promise<void> {
+    webhookRequestsTotal.inc({ outcome: status, reason: body.success ? '' : body.reason });
+    if (signalId === null) return;
+
+    await storage.signals
+      .complete(signalId, context, {
+        status,
+        responseStatus: statusCode,
+        rejectionReason: body.success ? null : body.reason,
+        error: body.success ? null : body.error,
+        jobIds: !body.success ? [] : 'jobs' in body ? body.jobs.map((job) => job.jobId) : [body.jobId],
+      })
+      .catch((error) => logger.error(`Failed to record outcome of signal ${signalId}`, { error }));
+  }
+
+  /**
+   * Opens a log context for the request once the body is parsed (parser
+   * callbacks would lose it), so handler logs carry the signal, key and wallet.
+   */
+  function requestLogContext(req: Request, res: Response, next: NextFunction) {
+    withLogContext({}, next);
+  }
+
+  // ==========================================================================
+  // Express App Setup
+  // ==========================================================================
+
+  const app = express();
+
+  // Client IPs (allowlist, rate limits) come from X-Forwarded-For only behind a trusted proxy
+  app.set('trust proxy', parseTrustProxy(config.trustProxy));
+
+  // Keep the raw body: request signatures are computed over the exact bytes sent
+  const keepRawBody = (req: Request, res: Response, buf: Buffer) => {
+    (req as RawBodyRequest).rawBody = buf;
+  };
+
+  // Webhook ingress: allowlist and per-IP limit before the body is read, then size-limited parsers
+  app.use(
+    '/webhook',
+    webhookIngress.guard,
+    express.json({ verify: keepRawBody, limit: webhookIngress.maxBodyBytes }),
+    express.text({ type: 'text/*', verify: keepRawBody, limit: webhookIngress.maxBodyBytes })
+  );
+
+  app.use(express.json({ verify: keepRawBody }));
+
+  // Plain-text alerts (TradingView sends text/plain unless the message is valid JSON)
+  app.use(express.text({ type: 'text/*', verify: keepRawBody }));
+
+  // Mount analytics router
+  app.use('/analytics', analyticsRouter);
+
+  // Mount job status router
+  app.use('/jobs', createJobsRouter(storage.jobs));
+
+  // Mount admin router (routes management)
+  app.use('/admin', adminRouter);
+
+  // Mount Prometheus metrics router
+  app.use('/metrics', metricsRouter);
+
+  // Dashboard endpoint
+  app.get('/dashboard', (req: Request, res: Response) => {
+    res.sendFile('dashboard.html', { root: __dirname });
+  });
+
+  // Health check endpoint
+  app.get('/health', async (req: Request, res: Response) => {
+    try {
+      await storage.checkConnection();
+      res.json({
+        status: 'healthy',
+        timestamp: deps.clock.now().toISOString(),
+        database: 'connected',
+      });
+    } catch (error) {
+      res.status(503).json({
+        status: 'unhealthy',
+        timestamp: deps.clock.now().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Main webhook endpoint
+  app.post('/webhook', requestLogContext, async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    logger.info('Received request');
+
+    let idempotencyKey: string | null = null;
+    let signalId: number | null = null;
+    const signalContext: SignalContext = {}; // Filled in as the request is authenticated, parsed and routed
+
+    // Records the response on the signal row, then sends it
+    const reply = async (
+      status: Exclude<SignalStatus, 'received'>,
+      statusCode: number,
+      body: AcceptedResponse | FlattenAcceptedResponse | ErrorResponse
+    ) => {
+      await completeSignal(signalId, signalContext, status, statusCode, body);
+      return res.status(statusCode).json(body);
+    };
+
+    try {
+      // Step 0: Store the request as received, before anything can reject it
+      const rawBody = (req as RawBodyRequest).rawBody;
+      signalId = await storage.signals.receive({
+        ip: req.ip || null,
+        headers: req.headers,
+        rawPayload: rawBody ? rawBody.toString('utf8') : null,
+      });
+      addLogContext({ signalId });
+
+      // Step 1: Authenticate (HMAC-signed request or legacy API key)
+      const authResult = await webhookAuth.authenticate(req);
+      if (!authResult.success) {
+        logger.error(`Authentication failed: ${authResult.error}`);
+        return reply('rejected', 401, {
+          success: false,
+          reason: 'authentication_failed',
+          error: authResult.error,
+        });
+      }
+
+      const principal = authResult.principal;
+      addLogContext({ keyId: principal.keyId });
+      signalContext.keyId = principal.keyId;
+      signalContext.parser = principal.parser;
+
+      // Step 1b: Per-key rate limit
+      const keyLimit = webhookIngress.checkKey(principal.keyId);
+      if (!keyLimit.allowed) {
+        const { block } = keyLimit;
+        await completeSignal(signalId, signalContext, 'rejected', block.status, {
+          success: false,
+          reason: block.reason,
+          error: block.error,
+        });
+        return webhookIngress.reject(req, res, block, principal.keyId);
+      }
+
+      // Step 2: Parse webhook payload with the key's parser
+      const webhookResult = parserRegistry.parse(principal.parser, req.body);
+      if (!webhookResult.success) {
+        logger.error(`Parse failed (${principal.parser}): ${webhookResult.error}`);
+        signalContext.parseErrors = webhookResult.fields;
+        return reply('rejected', 400, {
+          success: false,
+          reason: 'parse_failed',
+          error: webhookResult.error,
+          fields: webhookResult.fields,
+        });
+      }
+
+      const signal = webhookResult.data;
+      signalContext.signal = signal;
+      logger.info(
+        `Parsed signal ${signalId}: ${signal.action} ${signal.symbol} [${signal.timeframe}] (key: ${principal.keyId})`
+      );
+
+      // FLATTEN_ALL has no symbol: scopes, routes and halts are applied per position
+      if (signal.action !== 'FLATTEN_ALL') {
+        if (!webhookAuth.isSymbolAllowed(principal, signal.symbol)) {
+          logger.error(`Key ${principal.keyId} not scoped for symbol ${signal.symbol}`);
+          return reply('rejected', 403, {
+            success: false,
+            reason: 'key_scope_denied',
+            error: `Key ${principal.keyId} is not allowed to trade ${signal.symbol}`,
+          });
+        }
+
+        // Reject unroutable alerts now rather than after queueing
+        const tradeRoute = await storage.routes.resolve(signal.symbol, signal.timeframe, signal.strategy);
+        if (!tradeRoute) {
+          logger.error(`No route for ${signal.symbol} [${signal.timeframe}]`);
+          return reply('rejected', 400, {
+            success: false,
+            reason: 'routing_failed',
+            error: `No enabled route for ${signal.symbol} [${signal.timeframe}]${signal.strategy ? ` (strategy ${signal.strategy})` : ''}`,
+          });
+        }
+
+        addLogContext({ wallet: tradeRoute.walletName });
+        signalContext.routeId = tradeRoute.id;
+        signalContext.walletId = tradeRoute.walletId;
+
+        // Kill switch: halted signals are recorded as rejected trades and never queued
+        const halt = await storage.halts.findActive({
+          walletName: tradeRoute.walletName,
+          tokens: [tradeRoute.assetToken, tradeRoute.fundingToken],
+        });
+        if (halt) {
+          const error = describeHalt(halt);
+          const side = signalSide(signal.action);
+          const tradeId = await storage.trades.recordRejected(
+            {
+              walletId: tradeRoute.walletId,
+              symbol: signal.symbol,
+              action: side,
+              signalAction: signal.action,
+              timeframe: signal.timeframe,
+              inputToken: side === 'BUY' ? tradeRoute.fundingToken : tradeRoute.assetToken,
+              outputToken: side === 'BUY' ? tradeRoute.assetToken : tradeRoute.fundingToken,
+              reason: 'halted',
+              error,
+              signalTime: getSignalTime(signal),
+              signalId,
+            },
+            'webhook'
+          );
+          addLogContext({ tradeId });
+          logger.warn(`Rejected (trade ${tradeId}): ${error}`);
+          return reply('rejected', 503, {
+            success: false,
+            reason: 'halted',
+            error,
+          });
+        }
+      }
+
+      // Step 2b: De-duplicate retried / double-fired alerts
+      idempotencyKey = IdempotencyStore.deriveKey({
+        alertId: signal.alertId,
+        keyId: principal.keyId,
+        strategy: signal.strategy,
+        symbol: signal.symbol,
+        action: signal.action,
+        percent: signal.percent,
+        quantity: signal.quantity,
+        timeframe: signal.timeframe,
+        barTime: signal.barTime,
+        rawBody: rawBody ? rawBody.toString('utf8') : JSON.stringify(req.body),
+      });
+
+      const claim = await storage.idempotency.claim(idempotencyKey);
+      if (!claim.claimed) {
+        idempotencyKey = null; // Not ours to complete
+
+        if (claim.inProgress) {
+          logger.warn('Duplicate alert while original is still processing');
+          return reply('duplicate', 409, {
+            success: false,
+            reason: 'duplicate_in_progress',
+            error: 'Duplicate alert: original is still being processed',
+          });
+        }
+
+        logger.warn('Duplicate alert, replaying original response');
+        res.setHeader('Idempotent-Replayed', 'true');
+        return reply('duplicate', claim.response.statusCode, claim.response.body);
+      }
+
+      // Step 3: Persist the signal; the job worker runs route → quote → swap → verify → record
+      let body: AcceptedResponse | FlattenAcceptedResponse;
+      if (signal.action === 'FLATTEN_ALL') {
+        body = await enqueueFlatten(principal, signalId);
+      } else {
+        const job = await storage.jobs.enqueue({
+          signal,
+          options: { keyId: principal.keyId, allowedWallets: principal.allowedWallets, signalId },
+        });
+        body = {
+          success: true,
+          jobId: job.id,
+          status: 'queued',
+          statusUrl: `/jobs/${job.id}`,
+        };
+      }
+      jobWorker.notify();
+
+      await storage.idempotency.complete(idempotencyKey, { statusCode: 202, body, tradeId: null });
+      idempotencyKey = null;
+
+      const duration = Date.now() - startTime;
+      const jobIds = 'jobs' in body ? body.jobs.map((job) => job.jobId) : [body.jobId];
+      logger.info(`Accepted in ${duration}ms: job ${jobIds.join(', ') || '(none, no open positions)'}`);
+
+      return reply('queued', 202, body);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error(`FATAL ERROR after ${duration}ms`, { error });
+
+      const body: ErrorResponse = {
+        success: false,
+        reason: 'internal_error',
+        error: error instanceof Error ? error.message : 'Internal server error',
+      };
+
+      // Not replayed: the sender's retry should be processed again
+      if (idempotencyKey) {
+        await storage.idempotency
+          .release(idempotencyKey)
+          .catch((err) => logger.error('Failed to release idempotency key', { error: err }));
+      }
+
+      return reply('error', 500, body);
+    }
+  });
+
+  // Error handling middleware
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    // Body parser limit (chunked bodies, or a body longer than its Content-Length)
+    if (isEntityTooLarge(err) && req.originalUrl.split('?')[0] === '/webhook') {
+      return webhookIngress.reject(req, res, webhookIngress.payloadTooLarge());
+    }
+
+    logger.error('Unhandled error', { error: err });
+    res.status(500).json({
+      success: false,
+      reason: 'unhandled_error',
+      error: err.message,
+    } as ErrorResponse);
+  });
+
+  return { app, pipeline, jobWorker };
+}
@@ -0,0 +1,94 @@
+/**
+ * Graceful Shutdown Test Suite
+ *
+ * Tests the bounded waits used while draining and the shutdown itself:
+ * 1. Work that finishes (or fails) in time counts as settled
+ * 2. Work still running at the timeout does not
+ * 3. A drained shutdown closes everything without interrupting jobs
+ * 4. A job still running at the timeout is recorded as interrupted
+ * 5. Repeated signals share the shutdown in progress
+ */
+
+import * as http from 'http';
+import { GracefulShutdown, GracefulShutdownDeps, settleWithin } from './graceful-shutdown';
+
+describe('settleWithin', () => {
+  it('should report work that settles in time', async () => {
+    expect(await settleWithin(new Promise((resolve) => setTimeout(resolve, 5)), 1000)).toBe(true);
+    expect(await settleWithin(Promise.reject(new Error('stop failed')), 1000)).toBe(true);
+  });
+
+  it('should give up on work still running at the timeout', async () => {
+    expect(await settleWithin(new Promise(() => undefined), 20)).toBe(false);
+  });
+});
+
+describe('GracefulShutdown', () => {
+  let server: http.Server;
+  let interruptedFor: string[];
+  let poolEnded: boolean;
+
+  /**
+   * Shutdown over stub workers; jobStop is what the job worker's stop() returns
+   */
+  function shutdownWith(jobStop: Promise<void>, timeoutMs = 1000): GracefulShutdown {
+    const stopped = async () => undefined;
+    const deps: GracefulShutdownDeps = {
+      jobWorker: { workerId: 'test-worker', stop: () => jobStop },
+      jobQueue: {
+        interruptRunning: async (workerId: string) => {
+          interruptedFor.push(workerId);
+          return { jobIds: [3], tradeIds: [9] };
+        },
+      },
+      tradeRecovery: { stop: stopped },
+      exitMonitor: { stop: stopped },
+      notifier: { stop: stopped },
+      pool: {
+        end: async () => {
+          poolEnded = true;
+        },
+      },
+    };
+    return new GracefulShutdown(deps, { timeoutMs });
+  }
+
+  beforeEach(async () => {
+    interruptedFor = [];
+    poolEnded = false;
+    server = http.createServer().listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  it('should drain and close everything', async () => {
+    const shutdown = shutdownWith(Promise.resolve());
+
+    const summary = await shutdown.shutdown('SIGTERM', server);
+
+    expect(summary).toMatchObject({ signal: 'SIGTERM', drained: true, interrupted: { jobIds: [], tradeIds: [] } });
+    expect(interruptedFor).toHaveLength(0);
+    expect(poolEnded).toBe(true);
+    expect(server.listening).toBe(false);
+  });
+
+  it('should record the running job as interrupted when the drain times out', async () => {
+    const shutdown = shutdownWith(new Promise(() => undefined), 20);
+
+    const summary = await shutdown.shutdown('SIGTERM', server);
+
+    expect(summary).toMatchObject({ drained: false, interrupted: { jobIds: [3], tradeIds: [9] } });
+    expect(interruptedFor).toEqual(['test-worker']);
+    expect(poolEnded).toBe(true);
+  });
+
+  it('should share the shutdown in progress with a repeated signal', async () => {
+    const shutdown = shutdownWith(Promise.resolve());
+
+    const first = shutdown.shutdown('SIGTERM', server);
+    const second = shutdown.shutdown('SIGINT', server);
+
+    expect(second).toBe(first);
+    expect(shutdown.draining).toBe(true);
+    expect((await second).signal).toBe('SIGTERM');
+  });
+});
@@ -0,0 +1,220 @@
+import * as http from 'http';
+import { Pool } from 'pg';
+import { Request, Response, NextFunction } from 'express';
+import { TradeJobQueue, TradeJobWorker, InterruptedJobs } from '../core/job-queue';
+import { TradeRecovery } from '../core/trade-recovery';
+import { ExitMonitor } from '../core/exit-monitor';
+import { ErrorResponse } from '../core/trade-pipeline';
+import { Notifier } from '../notify/notifier';
+import { Logger } from '../../lib/log/logger';
+import { webhookRequestsTotal } from '../../lib/metrics/metrics';
+
+/**
+ * Graceful Shutdown
+ *
+ * On SIGTERM / SIGINT the server drains instead of dying mid-trade:
+ *   1. /webhook answers 503 shutting_down and /health reports the drain, so
+ *      new signals go elsewhere (or are re-sent) while the server stays up
+ *   2. The job worker finishes its current job; the exit monitor and recovery
+ *      worker finish their pass. Jobs already queued wait for the next start.
+ *   3. After SHUTDOWN_TIMEOUT_MS a job still running is failed and its trade
+ *      marked `interrupted_at`, so recovery reconciles it on-chain at startup
+ *   4. Notifier, HTTP server and the pg pool are closed
+ */
+
+const logger = new Logger('shutdown');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CLOSE_TIMEOUT_MS = 5000; // Per step after the drain (notifier, HTTP server, pg pool)
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface GracefulShutdownDeps {
+  jobWorker: Pick<TradeJobWorker, 'workerId' | 'stop'>;
+  jobQueue: Pick<TradeJobQueue, 'interruptRunning'>;
+  tradeRecovery: Pick<TradeRecovery, 'stop'>;
+  exitMonitor: Pick<ExitMonitor, 'stop'>;
+  notifier: Pick<Notifier, 'stop'>;
+  pool: Pick<Pool, 'end'>;
+}
+
+export interface ShutdownConfig {
+  timeoutMs: number;
+}
+
+export interface ShutdownSummary {
+  signal: string;
+  drained: boolean; // false = the timeout expired with a job still running
+  interrupted: InterruptedJobs;
+  durationMs: number;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Waits for work to settle (resolve or reject) for at most timeoutMs.
+ *
+ * @returns true if it settled in time
+ */
+export async function settleWithin(work: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      work.then(
+        () => true,
+        () => true
+      ),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// Graceful Shutdown Class
+// ============================================================================
+
+export class GracefulShutdown {
+  private jobWorker: Pick<TradeJobWorker, 'workerId' | 'stop'>;
+  private jobQueue: Pick<TradeJobQueue, 'interruptRunning'>;
+  private tradeRecovery: Pick<TradeRecovery, 'stop'>;
+  private exitMonitor: Pick<ExitMonitor, 'stop'>;
+  private notifier: Pick<Notifier, 'stop'>;
+  private pool: Pick<Pool, 'end'>;
+  private shuttingDown: Promise<ShutdownSummary> | null = null;
+
+  constructor(deps: GracefulShutdownDeps, private config: ShutdownConfig) {
+    this.jobWorker = deps.jobWorker;
+    this.jobQueue = deps.jobQueue;
+    this.tradeRecovery = deps.tradeRecovery;
+    this.exitMonitor = deps.exitMonitor;
+    this.notifier = deps.notifier;
+    this.pool = deps.pool;
+  }
+
+  /**
+   * Whether a shutdown has started
+   */
+  get draining(): boolean {
+    return this.shuttingDown !== null;
+  }
+
+  /**
+   * Express middleware for /webhook: refuses signals once draining
+   */
+  guard = (req: Request, res: Response, next: NextFunction) => {
+    if (!this.draining) {
+      return next();
+    }
+
+    logger.warn(`Refused ${req.method} ${req.originalUrl.split('?')[0]} from ${req.ip}: shutting down`);
+    webhookRequestsTotal.inc({ outcome: 'blocked', reason: 'shutting_down' });
+
+    res.set('Connection', 'close');
+    res.status(503).json({
+      success: false,
+      reason: 'shutting_down',
+      error: 'Server is shutting down, send the alert again shortly',
+    } as ErrorResponse);
+  };
+
+  /**
+   * Drains and closes everything. Repeated signals share the shutdown in progress.
+   */
+  shutdown(signal: string, server: http.Server): Promise<ShutdownSummary> {
+    if (this.shuttingDown) {
+      logger.warn(`${signal} received, already shutting down`);
+      return this.shuttingDown;
+    }
+
+    this.shuttingDown = this.drain(signal, server);
+    return this.shuttingDown;
+  }
+
+  private async drain(signal: string, server: http.Server): Promise<ShutdownSummary> {
+    const startTime = Date.now();
+    logger.warn(`${signal} received: refusing new signals, waiting up to ${this.config.timeoutMs}ms for trades in flight`);
+
+    const stopped = Promise.all([
+      this.stopWorker('job worker', this.jobWorker.stop()),
+      this.stopWorker('exit monitor', this.exitMonitor.stop()),
+      this.stopWorker('trade recovery', this.tradeRecovery.stop()),
+    ]);
+    const drained = await settleWithin(stopped, this.config.timeoutMs);
+
+    let interrupted: InterruptedJobs = { jobIds: [], tradeIds: [] };
+    if (!drained) {
+      interrupted = await this.recordInterrupted(signal);
+    }
+
+    // Deliveries not sent by now stay pending and are retried after the restart
+    await settleWithin(this.stopWorker('notifier', this.notifier.stop()), CLOSE_TIMEOUT_MS);
+
+    if (!(await settleWithin(this.closeServer(server), CLOSE_TIMEOUT_MS))) {
+      server.closeAllConnections();
+    }
+
+    if (!(await settleWithin(this.pool.end(), CLOSE_TIMEOUT_MS))) {
+      logger.warn('Database pool did not close in time');
+    }
+
+    const summary: ShutdownSummary = { signal, drained, interrupted, durationMs: Date.now() - startTime };
+    if (drained) {
+      logger.info(`Shut down cleanly in ${summary.durationMs}ms`);
+    } else {
+      logger.error(
+        `Shut down after ${summary.durationMs}ms with interrupted jobs: ${interrupted.jobIds.join(', ') || 'none recorded'}`
+      );
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fails the job still running and marks its trade for recovery at the next start
+   */
+  private async recordInterrupted(signal: string): Promise<InterruptedJobs> {
+    const error = `Interrupted by shutdown (${signal}) after ${this.config.timeoutMs}ms`;
+
+    try {
+      const interrupted = await this.jobQueue.interruptRunning(this.jobWorker.workerId, error);
+      for (const tradeId of interrupted.tradeIds) {
+        logger.error(`Trade ${tradeId} interrupted mid-execution, left to recovery`, { tradeId });
+      }
+      if (interrupted.jobIds.length > 0) {
+        logger.error(`Drain timed out: job ${interrupted.jobIds.join(', ')} marked failed`);
+      }
+      return interrupted;
+    } catch (error) {
+      // Recovery still finds the trade once it is RECOVERY_STALE_SECONDS old
+      logger.error('Failed to record interrupted jobs', { error });
+      return { jobIds: [], tradeIds: [] };
+    }
+  }
+
+  private async stopWorker(name: string, stopping: Promise<void>): Promise<void> {
+    try {
+      await stopping;
+    } catch (error) {
+      logger.error(`Error stopping ${name}`, { error });
+    }
+  }
+
+  private closeServer(server: http.Server): Promise<void> {
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+}
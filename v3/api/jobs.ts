@@ -0,0 +1,66 @@
+/**
+ * Trade Job Status API
+ *
+ * Endpoint: GET /jobs/:id
+ *
+ * The webhook answers 202 with a job id; this endpoint reports what happened to it.
+ * Mounted by createApp (app.ts) on the app's job queue.
+ */
+
+import express, { Request, Response } from 'express';
+import { TradeJobQueue } from '../core/job-queue';
+import { Logger } from '../../lib/log/logger';
+
+const logger = new Logger('jobs');
+
+// ============================================================================
+// Express Router
+// ============================================================================
+
+/**
+ * Builds the job status router over a job queue
+ */
+export function createJobsRouter(jobQueue: Pick<TradeJobQueue, 'getJob'>): express.Router {
+  const router = express.Router();
+
+  /**
+   * Job status endpoint
+   * GET /jobs/:id
+   */
+  router.get('/:id', async (req: Request, res: Response) => {
+    const jobId = parseInt(String(req.params.id), 10);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: `Invalid job id: ${req.params.id}` });
+    }
+
+    try {
+      const job = await jobQueue.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: `Job not found: ${jobId}` });
+      }
+
+      res.json({
+        id: job.id,
+        status: job.status,
+        signal: job.signal,
+        attempts: job.attempts,
+        max_attempts: job.max_attempts,
+        next_attempt_at: job.status === 'queued' ? job.run_after : null,
+        trade_id: job.trade_id,
+        last_error: job.last_error,
+        result_status: job.result_status,
+        result: job.result,
+        created_at: job.created_at,
+        completed_at: job.completed_at,
+      });
+    } catch (error) {
+      logger.error('Error fetching job', { error });
+      res.status(500).json({
+        error: 'Failed to fetch job',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,52 @@
+/**
+ * Prometheus Metrics API
+ *
+ * Endpoint: GET /metrics (Authorization: Bearer METRICS_TOKEN when it is set)
+ *
+ * Serves lib/metrics in the Prometheus text format. Gauges for open positions
+ * and wallet SOL are refreshed by the collectors on each scrape.
+ */
+
+import * as crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import { metrics } from '../../lib/metrics/metrics';
+import { METRICS_TOKEN } from '../../lib/config/constants';
+import { Logger } from '../../lib/log/logger';
+
+const logger = new Logger('metrics');
+
+// ============================================================================
+// Express Router
+// ============================================================================
+
+const router = express.Router();
+
+/**
+ * Metrics endpoint
+ * GET /metrics
+ */
+router.get('/', async (req: Request, res: Response) => {
+  if (METRICS_TOKEN) {
+    const provided = Buffer.from(req.header('authorization') || '');
+    const expected = Buffer.from(`Bearer ${METRICS_TOKEN}`);
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return res.status(401).json({ error: 'Unauthorized: Missing or invalid metrics token' });
+    }
+  }
+
+  try {
+    res.type('text/plain; version=0.0.4').send(await metrics.render());
+  } catch (error) {
+    logger.error('Error rendering metrics', { error });
+    res.status(500).json({
+      error: 'Failed to render metrics',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export default router;
@@ -0,0 +1,225 @@
+/**
+ * Webhook Request Authentication
+ *
+ * Signed requests (preferred):
+ *   x-webhook-key-id:    public key id from the webhook_keys table
+ *   x-webhook-timestamp: unix seconds when the request was signed
+ *   x-webhook-signature: hex HMAC-SHA256 of `${timestamp}.${rawBody}`
+ *
+ * Requests outside the timestamp tolerance are rejected, and a signature is
+ * only accepted once inside that window.
+ *
+ * Legacy: the single WEBHOOK_API_KEY in the `x-api-key` header is accepted
+ * while WEBHOOK_LEGACY_API_KEY_ENABLED is on (off by default), with no scopes
+ * and the default json parser. `?apiKey=` is never read: query strings end up
+ * in proxy logs.
+ */
+
+import * as crypto from 'crypto';
+import { Request } from 'express';
+import { WebhookKey, WebhookKeyStore } from '../core/webhook-keys';
+import { Logger } from '../../lib/log/logger';
+
+const logger = new Logger('webhook-auth');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+export interface WebhookAuthConfig {
+  keyStore: Pick<WebhookKeyStore, 'getUsableKeys' | 'touchKey'>;
+  toleranceSeconds: number;
+  cacheTTLSeconds: number;
+  legacyApiKey?: string; // Omit to disable legacy authentication
+}
+
+/**
+ * Authenticated caller. Scopes of null mean unrestricted.
+ */
+export interface WebhookPrincipal {
+  keyId: string;
+  name: string;
+  allowedWallets: string[] | null;
+  allowedSymbols: string[] | null;
+  parser: string;
+}
+
+export type AuthResult =
+  | { success: true; principal: WebhookPrincipal }
+  | { success: false; error: string };
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Computes the request signature a sender must put in x-webhook-signature.
+ */
+export function signWebhookPayload(secret: string, timestamp: string | number, rawBody: string | Buffer): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+// ============================================================================
+// Webhook Authenticator Class
+// ============================================================================
+
+export class WebhookAuthenticator {
+  private keyStore: Pick<WebhookKeyStore, 'getUsableKeys' | 'touchKey'>;
+  private toleranceSeconds: number;
+  private cacheTTLMs: number;
+  private legacyApiKey?: string;
+
+  // Usable keys, refreshed from the database so rotation needs no restart
+  private keys = new Map<string, WebhookKey>();
+  private keysLoadedAt = 0;
+
+  // Signatures seen inside the tolerance window (replay protection)
+  private seenSignatures = new Map<string, number>();
+
+  constructor(config: WebhookAuthConfig) {
+    this.keyStore = config.keyStore;
+    this.toleranceSeconds = config.toleranceSeconds;
+    this.cacheTTLMs = config.cacheTTLSeconds * 1000;
+    this.legacyApiKey = config.legacyApiKey || undefined;
+  }
+
+  /**
+   * Authenticate an incoming webhook request.
+   */
+  async authenticate(req: RawBodyRequest): Promise<AuthResult> {
+    const keyId = req.header('x-webhook-key-id');
+    const signature = req.header('x-webhook-signature');
+    const timestamp = req.header('x-webhook-timestamp');
+
+    if (keyId || signature || timestamp) {
+      return this.authenticateSigned(req, keyId, signature, timestamp);
+    }
+
+    const apiKey = req.header('x-api-key');
+    if (this.legacyApiKey && apiKey && safeEqual(apiKey, this.legacyApiKey)) {
+      return {
+        success: true,
+        principal: {
+          keyId: 'legacy',
+          name: 'WEBHOOK_API_KEY',
+          allowedWallets: null,
+          allowedSymbols: null,
+          parser: 'json',
+        },
+      };
+    }
+
+    return { success: false, error: 'Unauthorized: Missing or invalid credentials' };
+  }
+
+  /**
+   * Check whether a principal may trade a symbol.
+   */
+  isSymbolAllowed(principal: WebhookPrincipal, symbol: string): boolean {
+    return !principal.allowedSymbols || principal.allowedSymbols.includes(symbol);
+  }
+
+  /**
+   * Check whether a principal may trade through a wallet (by wallet name).
+   */
+  isWalletAllowed(principal: WebhookPrincipal, walletName: string): boolean {
+    return !principal.allowedWallets || principal.allowedWallets.includes(walletName);
+  }
+
+  /**
+   * Drop cached keys so the next request reloads them.
+   */
+  invalidateCache(): void {
+    this.keysLoadedAt = 0;
+  }
+
+  private async authenticateSigned(
+    req: RawBodyRequest,
+    keyId?: string,
+    signature?: string,
+    timestamp?: string
+  ): Promise<AuthResult> {
+    if (!keyId || !signature || !timestamp) {
+      return { success: false, error: 'Unauthorized: Incomplete signature headers' };
+    }
+
+    const signedAt = parseInt(timestamp, 10);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (isNaN(signedAt) || Math.abs(nowSeconds - signedAt) > this.toleranceSeconds) {
+      return { success: false, error: `Unauthorized: Timestamp outside ${this.toleranceSeconds}s tolerance` };
+    }
+
+    const key = await this.getKey(keyId);
+    if (!key) {
+      return { success: false, error: `Unauthorized: Unknown or expired key ${keyId}` };
+    }
+
+    const expected = signWebhookPayload(key.secret, timestamp, req.rawBody || Buffer.alloc(0));
+    if (!safeEqual(signature.toLowerCase(), expected)) {
+      return { success: false, error: 'Unauthorized: Invalid signature' };
+    }
+
+    this.pruneSeenSignatures(nowSeconds);
+    if (this.seenSignatures.has(expected)) {
+      return { success: false, error: 'Unauthorized: Signature already used' };
+    }
+    this.seenSignatures.set(expected, signedAt);
+
+    this.keyStore.touchKey(key.id).catch((error) => {
+      logger.error(`Failed to record key usage for ${key.keyId}`, { error });
+    });
+
+    return {
+      success: true,
+      principal: {
+        keyId: key.keyId,
+        name: key.name,
+        allowedWallets: key.allowedWallets,
+        allowedSymbols: key.allowedSymbols,
+        parser: key.parser,
+      },
+    };
+  }
+
+  private async getKey(keyId: string): Promise<WebhookKey | null> {
+    if (Date.now() - this.keysLoadedAt > this.cacheTTLMs) {
+      const keys = await this.keyStore.getUsableKeys();
+      this.keys = new Map(keys.map((key) => [key.keyId, key]));
+      this.keysLoadedAt = Date.now();
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      return null;
+    }
+
+    // Cached keys may have expired since they were loaded
+    if (key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+
+    return key;
+  }
+
+  private pruneSeenSignatures(nowSeconds: number): void {
+    for (const [signature, signedAt] of this.seenSignatures.entries()) {
+      if (nowSeconds - signedAt > this.toleranceSeconds) {
+        this.seenSignatures.delete(signature);
+      }
+    }
+  }
+}
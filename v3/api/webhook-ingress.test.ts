@@ -0,0 +1,111 @@
+/**
+ * Webhook Ingress Test Suite
+ *
+ * Tests the pure ingress checks:
+ * 1. Allowlists match single IPs and CIDRs, including IPv4-mapped IPv6 clients
+ * 2. '*' disables the allowlist; invalid entries throw
+ * 3. Rate limits reset per window and flag only the first rejection for auditing
+ * 4. Disallowed IPs are flagged for auditing once per window too
+ */
+
+import {
+  isIpAllowed,
+  parseAllowlist,
+  parseTrustProxy,
+  RateLimiter,
+  SeenInWindow,
+  WebhookIngress,
+} from './webhook-ingress';
+
+describe('parseAllowlist / isIpAllowed', () => {
+  const allowlist = parseAllowlist('52.89.214.238, 10.0.0.0/8, ::1');
+
+  it('should match single IPs and CIDR ranges', () => {
+    expect(isIpAllowed(allowlist, '52.89.214.238')).toBe(true);
+    expect(isIpAllowed(allowlist, '10.20.30.40')).toBe(true);
+    expect(isIpAllowed(allowlist, '::1')).toBe(true);
+    expect(isIpAllowed(allowlist, '52.89.214.239')).toBe(false);
+  });
+
+  it('should match IPv4-mapped IPv6 addresses', () => {
+    expect(isIpAllowed(allowlist, '::ffff:52.89.214.238')).toBe(true);
+  });
+
+  it('should reject unparsable client addresses', () => {
+    expect(isIpAllowed(allowlist, '')).toBe(false);
+  });
+
+  it('should allow any client for *', () => {
+    expect(parseAllowlist('*')).toBeNull();
+    expect(isIpAllowed(null, '1.2.3.4')).toBe(true);
+  });
+
+  it('should throw on invalid entries', () => {
+    expect(() => parseAllowlist('10.0.0.0/33')).toThrow('Invalid WEBHOOK_IP_ALLOWLIST entry');
+    expect(() => parseAllowlist('tradingview.com')).toThrow('Invalid WEBHOOK_IP_ALLOWLIST entry');
+  });
+});
+
+describe('parseTrustProxy', () => {
+  it('should map env values to Express settings', () => {
+    expect(parseTrustProxy('')).toBe(false);
+    expect(parseTrustProxy('true')).toBe(true);
+    expect(parseTrustProxy('1')).toBe(1);
+    expect(parseTrustProxy('loopback')).toBe('loopback');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should reject requests over the limit until the window resets', () => {
+    const limiter = new RateLimiter(2, 60_000);
+
+    expect(limiter.hit('a', 0).allowed).toBe(true);
+    expect(limiter.hit('a', 1000).allowed).toBe(true);
+    expect(limiter.hit('a', 2000)).toEqual({ allowed: false, retryAfterSeconds: 58, firstRejection: true });
+    expect(limiter.hit('a', 3000).firstRejection).toBe(false);
+    expect(limiter.hit('a', 60_000).allowed).toBe(true);
+  });
+
+  it('should count clients separately', () => {
+    const limiter = new RateLimiter(1);
+
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('b').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(false);
+  });
+
+  it('should allow everything with a limit of 0', () => {
+    const limiter = new RateLimiter(0);
+
+    expect(limiter.hit('a').allowed).toBe(true);
+    expect(limiter.hit('a').allowed).toBe(true);
+  });
+});
+
+describe('SeenInWindow', () => {
+  it('should report each client once per window', () => {
+    const seen = new SeenInWindow(60_000);
+
+    expect(seen.firstSeen('a', 0)).toBe(true);
+    expect(seen.firstSeen('a', 1000)).toBe(false);
+    expect(seen.firstSeen('b', 2000)).toBe(true);
+    expect(seen.firstSeen('a', 60_000)).toBe(true);
+  });
+});
+
+describe('WebhookIngress.checkIp', () => {
+  it('should audit a disallowed IP once per window', () => {
+    const ingress = new WebhookIngress(
+      { record: async () => {} },
+      { allowlist: '52.89.214.238', ipLimitPerMinute: 0, keyLimitPerMinute: 0, maxBodyBytes: 1024 }
+    );
+
+    const audits = ['10.0.0.1', '10.0.0.1', '10.0.0.2'].map((ip) => {
+      const result = ingress.checkIp(ip);
+      return !result.allowed && result.block.audit;
+    });
+
+    expect(audits).toEqual([true, false, true]);
+    expect(ingress.checkIp('52.89.214.238').allowed).toBe(true);
+  });
+});
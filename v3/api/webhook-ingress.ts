@@ -0,0 +1,351 @@
+/**
+ * Webhook Ingress Protection
+ *
+ * Checks applied to /webhook before authentication, cheapest first:
+ *   1. IP allowlist  - client IP must match WEBHOOK_IP_ALLOWLIST (IPs / CIDRs,
+ *                      '*' disables); defaults to TradingView's alert servers
+ *   2. Per-IP limit  - WEBHOOK_RATE_LIMIT_PER_IP requests per minute
+ *   3. Payload size  - bodies over WEBHOOK_MAX_BODY_BYTES are refused unread
+ *
+ * After authentication the key gets its own WEBHOOK_RATE_LIMIT_PER_KEY budget.
+ *
+ * Blocked requests are written to webhook_requests. Rate-limited requests and
+ * requests from disallowed IPs are recorded once per client per window so a
+ * flood cannot flood the table too.
+ *
+ * Limits are in-memory and per process.
+ */
+
+import * as net from 'net';
+import { Request, Response, NextFunction } from 'express';
+import { ErrorResponse } from '../core/trade-pipeline';
+import { WebhookRequestStore } from '../core/storage';
+import { Logger } from '../../lib/log/logger';
+import { webhookRequestsTotal } from '../../lib/metrics/metrics';
+
+const logger = new Logger('ingress');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type IngressBlockReason = 'ip_not_allowed' | 'rate_limited' | 'payload_too_large';
+
+export interface IngressBlock {
+  reason: IngressBlockReason;
+  status: 403 | 413 | 429;
+  error: string;
+  retryAfterSeconds?: number; // rate_limited only
+  audit: boolean; // false for repeat rejections of a client inside the window
+}
+
+export type IngressResult = { allowed: true } | { allowed: false; block: IngressBlock };
+
+export interface WebhookIngressConfig {
+  allowlist: string; // Comma-separated IPs / CIDRs, '*' allows any client
+  ipLimitPerMinute: number; // 0 disables
+  keyLimitPerMinute: number; // 0 disables
+  maxBodyBytes: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  firstRejection: boolean; // First rejected request of the window
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix a dual-stack server reports (::ffff:1.2.3.4)
+ */
+export function normalizeIp(ip: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  return mapped ? mapped[1] : ip;
+}
+
+/**
+ * Parses a comma-separated list of IPs and CIDRs.
+ *
+ * @returns The allowlist, or null when '*' allows every client
+ * @throws Error on an invalid entry, so a typo fails at startup rather than open
+ */
+export function parseAllowlist(value: string): net.BlockList | null {
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.includes('*')) {
+    return null;
+  }
+
+  const allowlist = new net.BlockList();
+  for (const entry of entries) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+    const maxPrefix = type === 'ipv4' ? 32 : 128;
+
+    if (!type || (prefix !== undefined && !(/^\d+$/.test(prefix) && parseInt(prefix, 10) <= maxPrefix))) {
+      throw new Error(`Invalid WEBHOOK_IP_ALLOWLIST entry: ${entry}`);
+    }
+
+    if (prefix === undefined) {
+      allowlist.addAddress(address, type);
+    } else {
+      allowlist.addSubnet(address, parseInt(prefix, 10), type);
+    }
+  }
+
+  return allowlist;
+}
+
+/**
+ * Whether a client IP is on the allowlist (null allowlist = any client)
+ */
+export function isIpAllowed(allowlist: net.BlockList | null, ip: string): boolean {
+  if (!allowlist) {
+    return true;
+  }
+
+  const address = normalizeIp(ip);
+  const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  return type !== null && allowlist.check(address, type);
+}
+
+/**
+ * Converts WEBHOOK_TRUST_PROXY to Express's 'trust proxy' setting:
+ * '' / 'false' = off, 'true' = any proxy, a number = hop count, else IPs / CIDRs / presets
+ */
+export function parseTrustProxy(value: string): boolean | number | string {
+  if (value === '' || value === 'false') return false;
+  if (value === 'true') return true;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value;
+}
+
+// ============================================================================
+// Rate Limiter Class
+// ============================================================================
+
+/**
+ * Fixed-window request counter per client id
+ */
+export class RateLimiter {
+  private windows = new Map<string, { startedAt: number; count: number }>();
+
+  constructor(private limit: number, private windowMs: number = 60_000) {}
+
+  hit(id: string, now: number = Date.now()): RateLimitResult {
+    if (this.limit <= 0) {
+      return { allowed: true, retryAfterSeconds: 0, firstRejection: false };
+    }
+
+    this.prune(now);
+
+    let window = this.windows.get(id);
+    if (!window) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(id, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= this.limit,
+      retryAfterSeconds: Math.ceil((window.startedAt + this.windowMs - now) / 1000),
+      firstRejection: window.count === this.limit + 1,
+    };
+  }
+
+  private prune(now: number): void {
+    for (const [id, window] of this.windows.entries()) {
+      if (now - window.startedAt >= this.windowMs) {
+        this.windows.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Fixed-window "seen" set per client id, for auditing a repeated rejection once
+ */
+export class SeenInWindow {
+  private seenAt = new Map<string, number>(); // Client id -> window start
+
+  constructor(private windowMs: number = 60_000) {}
+
+  /**
+   * True for the first sighting of id in its window
+   */
+  firstSeen(id: string, now: number = Date.now()): boolean {
+    const startedAt = this.seenAt.get(id);
+    if (startedAt !== undefined && now - startedAt < this.windowMs) {
+      return false;
+    }
+
+    for (const [seenId, seenAt] of this.seenAt.entries()) {
+      if (now - seenAt >= this.windowMs) {
+        this.seenAt.delete(seenId);
+      }
+    }
+    this.seenAt.set(id, now);
+    return true;
+  }
+}
+
+// ============================================================================
+// Webhook Ingress Class
+// ============================================================================
+
+export class WebhookIngress {
+  readonly maxBodyBytes: number;
+  private allowlist: net.BlockList | null;
+  private ipLimiter: RateLimiter;
+  private keyLimiter: RateLimiter;
+  private deniedIps = new SeenInWindow(); // Audits ip_not_allowed once per IP per window
+
+  constructor(
+    private requests: WebhookRequestStore,
+    config: WebhookIngressConfig
+  ) {
+    this.allowlist = parseAllowlist(config.allowlist);
+    this.ipLimiter = new RateLimiter(config.ipLimitPerMinute);
+    this.keyLimiter = new RateLimiter(config.keyLimitPerMinute);
+    this.maxBodyBytes = config.maxBodyBytes;
+
+    if (!this.allowlist) {
+      logger.warn('WEBHOOK_IP_ALLOWLIST is *, accepting webhooks from any IP');
+    }
+  }
+
+  /**
+   * Allowlist and per-IP rate limit
+   */
+  checkIp(ip: string): IngressResult {
+    if (!isIpAllowed(this.allowlist, ip)) {
+      return {
+        allowed: false,
+        block: {
+          reason: 'ip_not_allowed',
+          status: 403,
+          error: `IP ${ip} is not allowed`,
+          audit: this.deniedIps.firstSeen(ip),
+        },
+      };
+    }
+
+    const limit = this.ipLimiter.hit(ip);
+    if (!limit.allowed) {
+      return { allowed: false, block: rateLimitBlock(`IP ${ip}`, limit) };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Per-key rate limit, after authentication
+   */
+  checkKey(keyId: string): IngressResult {
+    const limit = this.keyLimiter.hit(keyId);
+    if (!limit.allowed) {
+      return { allowed: false, block: rateLimitBlock(`Key ${keyId}`, limit) };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Block for a body over maxBodyBytes
+   */
+  payloadTooLarge(): IngressBlock {
+    return {
+      reason: 'payload_too_large',
+      status: 413,
+      error: `Payload exceeds ${this.maxBodyBytes} bytes`,
+      audit: true,
+    };
+  }
+
+  /**
+   * Middleware for /webhook, mounted before the body parsers
+   */
+  guard = (req: Request, res: Response, next: NextFunction) => {
+    const result = this.checkIp(req.ip || '');
+    if (!result.allowed) {
+      return this.reject(req, res, result.block);
+    }
+
+    // Refuse declared oversize bodies before reading them (the parsers enforce the limit for chunked ones)
+    const contentLength = parseInt(req.header('content-length') || '', 10);
+    if (contentLength > this.maxBodyBytes) {
+      return this.reject(req, res, this.payloadTooLarge());
+    }
+
+    next();
+  };
+
+  /**
+   * Logs and records a blocked request, then sends the error response
+   */
+  reject(req: Request, res: Response, block: IngressBlock, keyId?: string) {
+    logger.warn(`Blocked ${req.method} ${requestPath(req)} from ${req.ip}: ${block.error}`);
+
+    // Requests refused after authentication are counted with their signal
+    if (!keyId) {
+      webhookRequestsTotal.inc({ outcome: 'blocked', reason: block.reason });
+    }
+
+    if (block.audit) {
+      this.record(req, block, keyId).catch((error) => {
+        logger.error('Failed to record blocked request', { error });
+      });
+    }
+
+    if (block.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', String(block.retryAfterSeconds));
+    }
+
+    // The unread body of a refused request cannot be reused for another request
+    if (block.reason === 'payload_too_large') {
+      res.setHeader('Connection', 'close');
+    }
+
+    return res.status(block.status).json({
+      success: false,
+      reason: block.reason,
+      error: block.error,
+    } as ErrorResponse);
+  }
+
+  private async record(req: Request, block: IngressBlock, keyId?: string): Promise<void> {
+    const contentLength = parseInt(req.header('content-length') || '', 10);
+
+    await this.requests.record({
+      ip: req.ip || 'unknown',
+      keyId: keyId || null,
+      reason: block.reason,
+      detail: block.error,
+      method: req.method,
+      path: requestPath(req),
+      contentLength: isNaN(contentLength) ? null : contentLength,
+      userAgent: req.header('user-agent') || null,
+    });
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Path without the query string (legacy callers may send ?apiKey=)
+function requestPath(req: Request): string {
+  return req.originalUrl.split('?')[0];
+}
+
+function rateLimitBlock(client: string, limit: RateLimitResult): IngressBlock {
+  return {
+    reason: 'rate_limited',
+    status: 429,
+    error: `${client} is over its rate limit, retry in ${limit.retryAfterSeconds}s`,
+    retryAfterSeconds: limit.retryAfterSeconds,
+    audit: limit.firstRejection,
+  };
+}
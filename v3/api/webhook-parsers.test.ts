@@ -0,0 +1,119 @@
+/**
+ * Webhook Parsers Test Suite
+ *
+ * Tests the payload parsers:
+ * 1. JSON and plain-text payloads map to signals; invalid fields (including
+ *    unparsable timestamps) are all reported, REVERSE gets its own message
+ * 2. TradingView strategy alerts take the side from order_action; position_size
+ *    marks partial exits, which need contracts
+ * 3. 3Commas actions and pairs map to signals
+ */
+
+import { jsonParser, plainTextParser, threeCommasParser, tradingViewStrategyParser } from './webhook-parsers';
+
+describe('jsonParser', () => {
+  it('should parse a signal', () => {
+    const result = jsonParser.parse({ symbol: 'solusd', action: 'buy', timeframe: 30, price: '150', alert_id: 'a1' });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { symbol: 'SOLUSD', action: 'BUY', timeframe: '30', price: '150', alertId: 'a1' },
+    });
+  });
+
+  it('should report every invalid field', () => {
+    const result = jsonParser.parse({ action: 'HOLD', timeframe: '30', price: 'abc' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.fields.map((f) => f.field)).toEqual(['action', 'symbol', 'price']);
+    }
+  });
+
+  it('should reject timestamps that do not parse', () => {
+    const result = jsonParser.parse({
+      symbol: 'SOLUSD',
+      action: 'BUY',
+      timeframe: '30',
+      alert_time: '{{timenow}}',
+      bar_time: '{{time}}',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.fields.map((f) => f.field)).toEqual(['alert_time', 'bar_time']);
+    }
+  });
+
+  it('should normalize an epoch bar time', () => {
+    const result = jsonParser.parse({ symbol: 'SOLUSD', action: 'BUY', timeframe: '30', bar_time: '1735732800000' });
+
+    expect(result).toMatchObject({ success: true, data: { barTime: '2025-01-01T12:00:00.000Z' } });
+  });
+
+  it('should reject REVERSE with its own message', () => {
+    const result = jsonParser.parse({ symbol: 'SOLUSD', action: 'REVERSE', timeframe: '30' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.fields[0].message).toContain('spot-only');
+    }
+  });
+});
+
+describe('plainTextParser', () => {
+  it('should parse "ACTION SYMBOL TIMEFRAME PRICE"', () => {
+    const result = plainTextParser.parse('SELL FARTCOIN 60 1.2');
+
+    expect(result).toMatchObject({ success: true, data: { symbol: 'FARTCOIN', action: 'SELL', timeframe: '60' } });
+  });
+});
+
+describe('tradingViewStrategyParser', () => {
+  const alert = (fields: Record<string, string>) => ({ ticker: 'SOLUSD', interval: '60', price: '150', ...fields });
+
+  it('should buy on a buy order', () => {
+    const result = tradingViewStrategyParser.parse(alert({ order_action: 'buy', position_size: '2' }));
+
+    expect(result).toMatchObject({ success: true, data: { action: 'BUY' } });
+  });
+
+  it('should sell everything on a full exit', () => {
+    const result = tradingViewStrategyParser.parse(alert({ order_action: 'sell', position_size: '0' }));
+
+    expect(result).toMatchObject({ success: true, data: { action: 'SELL' } });
+    expect(result.success && result.data.percent).toBeUndefined();
+  });
+
+  it('should sell the same share on a partial exit with contracts', () => {
+    const result = tradingViewStrategyParser.parse(alert({ order_action: 'sell', position_size: '3', contracts: '1' }));
+
+    expect(result).toMatchObject({ success: true, data: { action: 'SELL', percent: '25.0000' } });
+  });
+
+  it('should reject a partial exit without contracts', () => {
+    const result = tradingViewStrategyParser.parse(alert({ order_action: 'sell', position_size: '3' }));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.fields[0].field).toBe('contracts');
+    }
+  });
+
+  it('should reject a buy that covers a short', () => {
+    const result = tradingViewStrategyParser.parse(alert({ order_action: 'buy', position_size: '-1' }));
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.fields[0].field).toBe('position_size');
+    }
+  });
+});
+
+describe('threeCommasParser', () => {
+  it('should map the pair and action', () => {
+    const result = threeCommasParser.parse({ action: 'exit_long', pair: 'USDC_SOL', timeframe: '30', bot_id: 42 });
+
+    expect(result).toMatchObject({ success: true, data: { symbol: 'SOLUSD', action: 'SELL', strategy: '42' } });
+  });
+});
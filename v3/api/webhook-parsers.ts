@@ -0,0 +1,426 @@
+/**
+ * Webhook Payload Parsers
+ *
+ * Each webhook key selects a parser (webhook_keys.parser). A parser turns the
+ * request body into a TradingViewWebhook signal and reports every invalid
+ * field at once, so a misconfigured alert can be fixed in one go. Whether the
+ * symbol is tradable is decided by the routes table, not here.
+ *
+ * Built-in parsers:
+ *   json                 - {"symbol","action","timeframe","price"} (default)
+ *                          plus optional "percent" / "quantity" sizes
+ *   tradingview_strategy - strategy alerts using {{strategy.order.action}} /
+ *                          {{strategy.position_size}} placeholders
+ *   plain_text           - "BUY SOLUSD 30 184.20" (action symbol timeframe [price])
+ *   3commas              - 3Commas signal-bot payloads (enter_long / exit_long)
+ *
+ * Actions: BUY, SELL, CLOSE, ADD, FLATTEN_ALL (see SignalAction). FLATTEN_ALL
+ * needs no symbol or timeframe. REVERSE is rejected with its own message: the
+ * wallets are spot-only, so there is no short side to reverse into.
+ *
+ * Timestamps: alertTime ({{timenow}}) and barTime ({{time}}) give the signal
+ * time used for stale signal rejection (see signal-age.ts).
+ */
+
+import { TradingViewWebhook } from '../core/trade-pipeline';
+import { SIGNAL_ACTIONS, SignalAction } from '../core/types';
+import { parseSignalTime } from '../core/signal-age';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ParseResult =
+  | { success: true; data: TradingViewWebhook }
+  | { success: false; error: string; fields: FieldError[] };
+
+export interface WebhookParser {
+  name: string;
+  description: string;
+  parse(body: unknown): ParseResult;
+}
+
+/**
+ * Raw values pulled out of a payload, before validation.
+ */
+interface SignalFields {
+  symbol?: unknown;
+  action?: unknown;
+  timeframe?: unknown;
+  price?: unknown;
+  alertId?: unknown;
+  alertTime?: unknown;
+  barTime?: unknown;
+  volatility?: unknown;
+  strategy?: unknown;
+  percent?: unknown;
+  quantity?: unknown;
+}
+
+const SIZED_ACTIONS = ['BUY', 'SELL', 'ADD'];
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function failure(fields: FieldError[]): ParseResult {
+  return {
+    success: false,
+    error: fields.map((f) => `${f.field}: ${f.message}`).join('; '),
+    fields,
+  };
+}
+
+/**
+ * Returns the body as an object. JSON sent as text/plain is parsed here, since
+ * TradingView only sets application/json when the whole message is valid JSON.
+ */
+function asObject(body: unknown): Record<string, any> | null {
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+  return !!body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, any>) : null;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+}
+
+/**
+ * Shared validation for every parser: required fields, action, symbol and
+ * numeric fields. Collects all errors instead of stopping at the first.
+ */
+export function validateSignal(raw: SignalFields): ParseResult {
+  const errors: FieldError[] = [];
+
+  const action = typeof raw.action === 'string' ? raw.action.trim().toUpperCase() : '';
+  if (!action) {
+    errors.push({ field: 'action', message: 'is required' });
+  } else if (action === 'REVERSE') {
+    errors.push({ field: 'action', message: 'REVERSE is not supported by spot-only wallets; send CLOSE instead' });
+  } else if (!SIGNAL_ACTIONS.includes(action as SignalAction)) {
+    errors.push({ field: 'action', message: `${raw.action} must be one of ${SIGNAL_ACTIONS.join(', ')}` });
+  }
+
+  // FLATTEN_ALL is not tied to a symbol
+  const flatten = action === 'FLATTEN_ALL';
+
+  const symbol = typeof raw.symbol === 'string' ? raw.symbol.trim().toUpperCase() : '';
+  if (!symbol) {
+    if (!flatten) errors.push({ field: 'symbol', message: 'is required' });
+  } else if (!/^[A-Z0-9._:-]+$/.test(symbol)) {
+    errors.push({ field: 'symbol', message: `${raw.symbol} contains invalid characters` });
+  }
+
+  const timeframe = raw.timeframe !== undefined && raw.timeframe !== null ? String(raw.timeframe).trim() : '';
+  if (!timeframe && !flatten) {
+    errors.push({ field: 'timeframe', message: 'is required' });
+  }
+
+  const percent = optionalString(raw.percent)?.replace(/%$/, '');
+  if (percent !== undefined && !(parseFloat(percent) > 0 && parseFloat(percent) <= 100)) {
+    errors.push({ field: 'percent', message: `${raw.percent} must be a number above 0 and at most 100` });
+  }
+
+  const quantity = optionalString(raw.quantity);
+  if (quantity !== undefined && !(parseFloat(quantity) > 0)) {
+    errors.push({ field: 'quantity', message: `${quantity} must be a positive number` });
+  }
+
+  if (percent !== undefined && quantity !== undefined) {
+    errors.push({ field: 'quantity', message: 'cannot be combined with percent' });
+  } else if ((percent !== undefined || quantity !== undefined) && action && !SIZED_ACTIONS.includes(action)) {
+    errors.push({
+      field: percent !== undefined ? 'percent' : 'quantity',
+      message: `is only allowed with ${SIZED_ACTIONS.join(', ')}`,
+    });
+  }
+
+  const price = optionalString(raw.price);
+  if (price !== undefined && isNaN(parseFloat(price))) {
+    errors.push({ field: 'price', message: `${price} is not a number` });
+  }
+
+  const volatility = optionalString(raw.volatility);
+  if (volatility !== undefined && !(parseFloat(volatility) > 0)) {
+    errors.push({ field: 'volatility', message: `${volatility} must be a positive number` });
+  }
+
+  const alertTimeRaw = optionalString(raw.alertTime);
+  const alertTime = alertTimeRaw !== undefined ? parseSignalTime(alertTimeRaw) : null;
+  if (alertTimeRaw !== undefined && !alertTime) {
+    errors.push({ field: 'alert_time', message: `${alertTimeRaw} is not an ISO 8601 or epoch timestamp` });
+  }
+
+  const barTimeRaw = optionalString(raw.barTime);
+  const barTime = barTimeRaw !== undefined ? parseSignalTime(barTimeRaw) : null;
+  if (barTimeRaw !== undefined && !barTime) {
+    errors.push({ field: 'bar_time', message: `${barTimeRaw} is not an ISO 8601 or epoch timestamp` });
+  }
+
+  if (errors.length > 0) {
+    return failure(errors);
+  }
+
+  return {
+    success: true,
+    data: {
+      symbol,
+      action,
+      timeframe,
+      price: price || '0',
+      alertId: optionalString(raw.alertId),
+      alertTime: alertTime ? alertTime.toISOString() : undefined,
+      barTime: barTime ? barTime.toISOString() : undefined,
+      volatility,
+      strategy: optionalString(raw.strategy),
+      percent,
+      quantity,
+    },
+  };
+}
+
+// ============================================================================
+// Built-in Parsers
+// ============================================================================
+
+/**
+ * Original format: {"symbol","action","timeframe","price"} plus optional
+ * alert_id, alert_time/timenow, bar_time/time, volatility, strategy, percent
+ * and quantity.
+ */
+export const jsonParser: WebhookParser = {
+  name: 'json',
+  description: 'JSON body with symbol, action, timeframe and price',
+  parse(input) {
+    const body = asObject(input);
+    if (!body) {
+      return failure([{ field: 'body', message: 'must be a JSON object' }]);
+    }
+
+    return validateSignal({
+      symbol: body.symbol,
+      action: body.action,
+      timeframe: body.timeframe,
+      price: body.price,
+      alertId: body.alert_id,
+      alertTime: body.alert_time ?? body.timenow,
+      barTime: body.bar_time ?? body.time,
+      volatility: body.volatility,
+      strategy: body.strategy,
+      percent: body.percent,
+      quantity: body.quantity,
+    });
+  },
+};
+
+/**
+ * TradingView strategy alerts:
+ *   {"ticker":"{{ticker}}","interval":"{{interval}}",
+ *    "order_action":"{{strategy.order.action}}",
+ *    "position_size":"{{strategy.position_size}}",
+ *    "price":"{{strategy.order.price}}","time":"{{timenow}}"}
+ *
+ * order_action decides the side. The bot is long-only, so position_size (the
+ * strategy's position after the order) only qualifies it: a sell that leaves
+ * the strategy long is a partial exit: it needs
+ * "contracts":"{{strategy.order.contracts}}" and sells the same share of our
+ * position (contracts / (contracts + position_size)). A buy that leaves the
+ * strategy flat or short covers a short and is rejected.
+ *
+ * "time" carries {{timenow}} in this template, so it is the alert time.
+ */
+export const tradingViewStrategyParser: WebhookParser = {
+  name: 'tradingview_strategy',
+  description: 'TradingView strategy alert using {{strategy.order.action}} / {{strategy.position_size}}',
+  parse(input) {
+    const body = asObject(input);
+    if (!body) {
+      return failure([{ field: 'body', message: 'must be a JSON object' }]);
+    }
+
+    const action: unknown = body.order_action ?? body.action;
+    let percent: string | undefined;
+    const positionSize = optionalString(body.position_size);
+    const side = typeof action === 'string' ? action.trim().toUpperCase() : '';
+
+    if (positionSize !== undefined) {
+      const size = parseFloat(positionSize);
+      if (isNaN(size)) {
+        return failure([{ field: 'position_size', message: `${positionSize} is not a number` }]);
+      }
+
+      if (side === 'BUY' && size <= 0) {
+        return failure([
+          { field: 'position_size', message: `${positionSize} must be above 0 after a buy (covering a short)` },
+        ]);
+      }
+
+      if (side === 'SELL' && size > 0) {
+        const contracts = parseFloat(optionalString(body.contracts) || '');
+        if (!(contracts > 0)) {
+          return failure([{ field: 'contracts', message: 'is required when a sell leaves position_size above 0' }]);
+        }
+        percent = ((contracts / (contracts + size)) * 100).toFixed(4);
+      }
+    }
+
+    return validateSignal({
+      symbol: body.ticker ?? body.symbol,
+      action,
+      timeframe: body.interval ?? body.timeframe,
+      price: body.price,
+      alertId: body.alert_id ?? body.order_id,
+      alertTime: body.alert_time ?? body.time,
+      barTime: body.time ?? body.bar_time,
+      volatility: body.volatility,
+      strategy: body.strategy,
+      percent,
+    });
+  },
+};
+
+/**
+ * Plain-text alerts: "ACTION SYMBOL TIMEFRAME [PRICE]", separated by spaces or
+ * commas, e.g. "BUY SOLUSD 30 184.20", or just "FLATTEN_ALL".
+ */
+export const plainTextParser: WebhookParser = {
+  name: 'plain_text',
+  description: 'Plain text "ACTION SYMBOL TIMEFRAME [PRICE]"',
+  parse(body) {
+    if (typeof body !== 'string' || body.trim() === '') {
+      return failure([{ field: 'body', message: 'must be a non-empty text body' }]);
+    }
+
+    const parts = body.trim().split(/[\s,]+/);
+    if (parts.length > 4) {
+      return failure([{ field: 'body', message: `expected "ACTION SYMBOL TIMEFRAME [PRICE]", got ${parts.length} values` }]);
+    }
+
+    const [action, symbol, timeframe, price] = parts;
+    return validateSignal({ action, symbol, timeframe, price });
+  },
+};
+
+/**
+ * 3Commas signal-bot payloads:
+ *   {"message_type":"bot","bot_id":123,"email_token":"...","delay_seconds":0,
+ *    "action":"enter_long","pair":"USDC_SOL","trigger_price":"{{close}}",
+ *    "timestamp":"{{timenow}}","timeframe":"30"}
+ *
+ * The pair is QUOTE_BASE; SOL maps to SOLUSD. 3Commas has no timeframe field,
+ * so "timeframe" must be added to the payload. bot_id is used as the strategy
+ * unless "strategy" is given.
+ */
+export const threeCommasParser: WebhookParser = {
+  name: '3commas',
+  description: '3Commas signal-bot payload (enter_long / exit_long)',
+  parse(input) {
+    const body = asObject(input);
+    if (!body) {
+      return failure([{ field: 'body', message: 'must be a JSON object' }]);
+    }
+
+    const errors: FieldError[] = [];
+
+    let symbol: string | undefined;
+    if (typeof body.pair !== 'string' || !body.pair.includes('_')) {
+      errors.push({ field: 'pair', message: 'must look like QUOTE_BASE, e.g. USDC_SOL' });
+    } else {
+      const base = body.pair.split('_').pop()!.toUpperCase();
+      symbol = base === 'SOL' ? 'SOLUSD' : base;
+    }
+
+    const actionMap: Record<string, string> = {
+      enter_long: 'BUY',
+      exit_long: 'SELL',
+      close_at_market_price: 'CLOSE',
+    };
+    const action = typeof body.action === 'string' ? actionMap[body.action] : undefined;
+    if (!action) {
+      errors.push({ field: 'action', message: `${body.action} must be one of ${Object.keys(actionMap).join(', ')}` });
+    }
+
+    if (errors.length > 0) {
+      return failure(errors);
+    }
+
+    return validateSignal({
+      symbol,
+      action,
+      timeframe: body.timeframe,
+      price: body.trigger_price,
+      alertId: body.alert_id,
+      alertTime: body.timestamp,
+      barTime: body.timestamp,
+      volatility: body.volatility,
+      strategy: body.strategy ?? body.bot_id,
+    });
+  },
+};
+
+// ============================================================================
+// Parser Registry Class
+// ============================================================================
+
+export class ParserRegistry {
+  private parsers = new Map<string, WebhookParser>();
+
+  constructor(parsers: WebhookParser[] = []) {
+    parsers.forEach((parser) => this.register(parser));
+  }
+
+  /**
+   * Registers a parser under its name.
+   *
+   * @throws Error if a parser with that name already exists
+   */
+  register(parser: WebhookParser): void {
+    if (this.parsers.has(parser.name)) {
+      throw new Error(`Webhook parser already registered: ${parser.name}`);
+    }
+    this.parsers.set(parser.name, parser);
+  }
+
+  /**
+   * Returns a parser by name, or null if unknown.
+   */
+  get(name: string): WebhookParser | null {
+    return this.parsers.get(name) || null;
+  }
+
+  /**
+   * Lists registered parser names.
+   */
+  list(): string[] {
+    return [...this.parsers.keys()];
+  }
+
+  /**
+   * Parses a body with the named parser.
+   */
+  parse(name: string, body: unknown): ParseResult {
+    const parser = this.get(name);
+    if (!parser) {
+      return failure([{ field: 'parser', message: `unknown parser ${name} configured for this key` }]);
+    }
+    return parser.parse(body);
+  }
+}
+
+// Export registry with the built-in parsers
+export const parserRegistry = new ParserRegistry([
+  jsonParser,
+  tradingViewStrategyParser,
+  plainTextParser,
+  threeCommasParser,
+]);
@@ -0,0 +1,52 @@
+/**
+ * Exit Monitor Test Suite
+ *
+ * Tests the pure exit rule evaluation:
+ * 1. Rules left NULL never trigger
+ * 2. Stop-loss and take-profit trip at their thresholds from avg entry
+ * 3. Trailing stop follows the peak, not the entry
+ * 4. Stop-loss wins when several rules trip at once
+ */
+
+import { evaluateExit, ExitRules } from './exit-monitor';
+
+describe('evaluateExit', () => {
+  const rules = (overrides: Partial<ExitRules>): ExitRules => ({
+    stopLossPct: null,
+    takeProfitPct: null,
+    trailingStopPct: null,
+    ...overrides,
+  });
+
+  it('should not trigger without rules', () => {
+    expect(evaluateExit(rules({}), { entryPrice: 100, peakPrice: 200, price: 1 })).toBeNull();
+  });
+
+  it('should trigger a stop-loss at the threshold', () => {
+    const stop = rules({ stopLossPct: 10 });
+
+    expect(evaluateExit(stop, { entryPrice: 100, peakPrice: 100, price: 91 })).toBeNull();
+    expect(evaluateExit(stop, { entryPrice: 100, peakPrice: 100, price: 90 })).toBe('stop_loss');
+  });
+
+  it('should trigger a take-profit at the threshold', () => {
+    const target = rules({ takeProfitPct: 50 });
+
+    expect(evaluateExit(target, { entryPrice: 100, peakPrice: 149, price: 149 })).toBeNull();
+    expect(evaluateExit(target, { entryPrice: 100, peakPrice: 150, price: 150 })).toBe('take_profit');
+  });
+
+  it('should trail the peak price', () => {
+    const trailing = rules({ trailingStopPct: 20 });
+
+    // Still above entry, but 20% off the 200 peak
+    expect(evaluateExit(trailing, { entryPrice: 100, peakPrice: 200, price: 170 })).toBeNull();
+    expect(evaluateExit(trailing, { entryPrice: 100, peakPrice: 200, price: 160 })).toBe('trailing_stop');
+  });
+
+  it('should prefer the stop-loss when several rules trigger', () => {
+    const all = rules({ stopLossPct: 10, trailingStopPct: 5, takeProfitPct: 50 });
+
+    expect(evaluateExit(all, { entryPrice: 100, peakPrice: 120, price: 80 })).toBe('stop_loss');
+  });
+});
@@ -0,0 +1,335 @@
+import { query, toNumber } from '../../lib/db/client';
+import { PriceOracle } from '../helius/price-oracle';
+import { TradeJobQueue } from './job-queue';
+import { PositionTracker } from './position-tracker';
+import { RouteRegistry } from './route-registry';
+import { closeSignal } from './trade-pipeline';
+import { ExitTrigger } from './types';
+import { Logger, withLogContext } from '../../lib/log/logger';
+
+/**
+ * Exit Monitor (stop-loss / take-profit / trailing stop)
+ *
+ * Alerts only exit on the next bar, so every EXIT_MONITOR_INTERVAL_MS the
+ * monitor prices each OPEN/PARTIAL position of a wallet with `exit_rules` and
+ * checks, in this order:
+ *   stop_loss     - price <= avg entry * (1 - stop_loss_pct)
+ *   trailing_stop - price <= peak since entry * (1 - trailing_stop_pct)
+ *   take_profit   - price >= avg entry * (1 + take_profit_pct)
+ *
+ * Prices are in the position's funding token (the entry trade's input token),
+ * derived from PriceOracle USD prices. The peak is kept in positions.peak_price.
+ *
+ * A triggered rule enqueues a CLOSE job through the trade job queue, so the exit
+ * runs through the same pipeline as an alert (halts, wallet lock, quote,
+ * verify, position update). The job is scoped to the position's wallet and the
+ * resulting trade is tagged with trades.exit_trigger.
+ *
+ * A position gets one exit job at a time. A `running` job locked longer than
+ * the job lease belongs to a dead worker and no longer blocks the exit; a rule
+ * that stays triggered without a job being queued for EXIT_SUPPRESSED_FLAG_CHECKS
+ * checks raises an `exit_suppressed` position flag.
+ */
+
+const logger = new Logger('exit');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EXIT_RETRY_SECONDS = 300; // Wait before re-triggering after a failed exit job
+const EXIT_SUPPRESSED_FLAG_CHECKS = 40; // Checks a triggered rule may go without an exit job before it is flagged
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ExitRules {
+  stopLossPct: number | null;
+  takeProfitPct: number | null;
+  trailingStopPct: number | null;
+}
+
+export interface ExitPriceState {
+  entryPrice: number;
+  peakPrice: number;
+  price: number;
+}
+
+export interface ExitMonitorDeps {
+  priceOracle: PriceOracle;
+  jobQueue: TradeJobQueue;
+  routeRegistry: RouteRegistry;
+  positionTracker: Pick<PositionTracker, 'flagIssue'>;
+}
+
+export interface ExitMonitorConfig {
+  intervalMs: number;
+  jobLeaseSeconds: number; // Running exit jobs locked longer than this are treated as lost
+}
+
+export interface ExitSummary {
+  checked: number;
+  triggered: number;
+}
+
+interface MonitoredPosition {
+  id: number;
+  walletId: number;
+  walletName: string;
+  token: string;
+  fundingToken: string;
+  entryPrice: number;
+  peakPrice: number | null;
+  rules: ExitRules;
+}
+
+type ExitAttempt = { jobId: number } | { blocked: string };
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Returns the exit rule a price breaches, or null. Pure - the caller keeps the peak.
+ */
+export function evaluateExit(rules: ExitRules, state: ExitPriceState): ExitTrigger | null {
+  const { entryPrice, peakPrice, price } = state;
+
+  if (rules.stopLossPct !== null && price <= entryPrice * (1 - rules.stopLossPct / 100)) {
+    return 'stop_loss';
+  }
+
+  if (rules.trailingStopPct !== null && price <= peakPrice * (1 - rules.trailingStopPct / 100)) {
+    return 'trailing_stop';
+  }
+
+  if (rules.takeProfitPct !== null && price >= entryPrice * (1 + rules.takeProfitPct / 100)) {
+    return 'take_profit';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Exit Monitor Class
+// ============================================================================
+
+export class ExitMonitor {
+  private priceOracle: PriceOracle;
+  private jobQueue: TradeJobQueue;
+  private routeRegistry: RouteRegistry;
+  private positionTracker: Pick<PositionTracker, 'flagIssue'>;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ExitSummary> | null = null;
+  private suppressedChecks = new Map<number, number>(); // Position id -> consecutive triggered checks without a job
+
+  constructor(deps: ExitMonitorDeps, private config: ExitMonitorConfig) {
+    this.priceOracle = deps.priceOracle;
+    this.jobQueue = deps.jobQueue;
+    this.routeRegistry = deps.routeRegistry;
+    this.positionTracker = deps.positionTracker;
+  }
+
+  /**
+   * Checks positions now, then every intervalMs.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.runOnce().catch((error) => logger.error('Exit check failed', { error }));
+    };
+
+    tick();
+    this.timer = setInterval(tick, this.config.intervalMs);
+    logger.info(`Started (every ${this.config.intervalMs}ms)`);
+  }
+
+  /**
+   * Stops the timer and waits for a check in progress.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Checks every monitored position once. Concurrent calls share the check
+   * in progress.
+   */
+  async runOnce(): Promise<ExitSummary> {
+    if (!this.running) {
+      this.running = this.checkPositions().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async checkPositions(): Promise<ExitSummary> {
+    const positions = await this.getMonitoredPositions();
+    const summary: ExitSummary = { checked: 0, triggered: 0 };
+
+    // Forget positions that closed or lost their rules
+    const monitored = new Set(positions.map((position) => position.id));
+    for (const id of this.suppressedChecks.keys()) {
+      if (!monitored.has(id)) this.suppressedChecks.delete(id);
+    }
+
+    if (positions.length === 0) {
+      return summary;
+    }
+
+    const symbols = new Set<string>();
+    positions.forEach((position) => symbols.add(position.token).add(position.fundingToken));
+    const prices = await this.priceOracle.getPrices([...symbols]);
+
+    for (const position of positions) {
+      const tokenUsd = prices[position.token];
+      const fundingUsd = prices[position.fundingToken];
+      if (!tokenUsd || !fundingUsd) {
+        logger.warn(`Position ${position.id}: no price for ${position.token}/${position.fundingToken}, skipped`);
+        continue;
+      }
+
+      summary.checked++;
+      const price = tokenUsd / fundingUsd;
+
+      await withLogContext({ positionId: position.id, wallet: position.walletName }, async () => {
+        try {
+          const peakPrice = Math.max(position.peakPrice ?? position.entryPrice, price);
+          if (peakPrice !== position.peakPrice) {
+            await query('UPDATE positions SET peak_price = $2 WHERE id = $1', [position.id, peakPrice]);
+          }
+
+          const trigger = evaluateExit(position.rules, { entryPrice: position.entryPrice, peakPrice, price });
+          if (!trigger) {
+            this.suppressedChecks.delete(position.id);
+            return;
+          }
+
+          const attempt = await this.triggerExit(position, trigger, price, tokenUsd);
+          if ('jobId' in attempt) {
+            this.suppressedChecks.delete(position.id);
+            summary.triggered++;
+          } else {
+            await this.noteSuppressed(position, trigger, attempt.blocked);
+          }
+        } catch (error) {
+          logger.error(`Position ${position.id}: exit check failed`, { error });
+        }
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Enqueues a CLOSE for the position unless an exit is already queued, running
+   * (within the job lease) or failed recently. The signal carries the USD price,
+   * like an alert, so the trade's signal shortfall is measured against the
+   * trigger price.
+   *
+   * @returns The enqueued job, or why none was enqueued
+   */
+  private async triggerExit(
+    position: MonitoredPosition,
+    trigger: ExitTrigger,
+    price: number,
+    priceUsd: number
+  ): Promise<ExitAttempt> {
+    const pending = await query(
+      `SELECT id, status FROM trade_jobs
+       WHERE options_json ? 'exit' AND options_json->'exit'->>'positionId' = $1
+         AND (status = 'queued'
+              OR (status = 'running' AND locked_at > NOW() - make_interval(secs => $3))
+              OR completed_at > NOW() - make_interval(secs => $2))
+       LIMIT 1`,
+      [String(position.id), EXIT_RETRY_SECONDS, this.config.jobLeaseSeconds]
+    );
+    if (pending.rows.length > 0) {
+      const { id, status } = pending.rows[0];
+      const active = status === 'queued' || status === 'running';
+      return {
+        blocked: active ? `exit job ${id} is ${status}` : `exit job ${id} finished within ${EXIT_RETRY_SECONDS}s`,
+      };
+    }
+
+    const route = await this.routeRegistry.findForPosition(position.walletId, position.token);
+    if (!route) {
+      logger.warn(`Position ${position.id}: ${trigger} hit but no enabled route sells ${position.token}`);
+      return { blocked: `no enabled route sells ${position.token}` };
+    }
+
+    const job = await this.jobQueue.enqueue({
+      signal: closeSignal(route, priceUsd),
+      options: {
+        keyId: 'exit-monitor',
+        allowedWallets: [position.walletName],
+        exit: { trigger, positionId: position.id },
+      },
+    });
+
+    logger.warn(
+      `${trigger} for ${position.walletName} ${position.token} position ${position.id} at ${price} (entry ${position.entryPrice}): job ${job.id}`
+    );
+    return { jobId: job.id };
+  }
+
+  /**
+   * Counts consecutive checks where a triggered rule got no exit job, and flags
+   * the position once when that reaches EXIT_SUPPRESSED_FLAG_CHECKS.
+   */
+  private async noteSuppressed(position: MonitoredPosition, trigger: ExitTrigger, blocked: string): Promise<void> {
+    const checks = (this.suppressedChecks.get(position.id) ?? 0) + 1;
+    this.suppressedChecks.set(position.id, checks);
+    if (checks !== EXIT_SUPPRESSED_FLAG_CHECKS) {
+      return;
+    }
+
+    const seconds = Math.round((checks * this.config.intervalMs) / 1000);
+    await this.positionTracker.flagIssue({
+      positionId: position.id,
+      walletId: position.walletId,
+      flagType: 'exit_suppressed',
+      severity: 'critical',
+      description: `${trigger} triggered for ${checks} checks (~${seconds}s) without an exit: ${blocked}`,
+    });
+  }
+
+  /**
+   * Open positions of wallets with enabled exit rules, on the wallet's current ledger.
+   */
+  private async getMonitoredPositions(): Promise<MonitoredPosition[]> {
+    const res = await query(
+      `SELECT p.id, p.wallet_id, p.token, p.avg_entry_price, p.peak_price,
+              w.name AS wallet_name, et.input_token AS funding_token,
+              r.stop_loss_pct, r.take_profit_pct, r.trailing_stop_pct
+       FROM positions p
+       JOIN wallets w ON w.id = p.wallet_id
+       JOIN exit_rules r ON r.wallet_id = p.wallet_id AND r.enabled
+       JOIN trades et ON et.id = p.entry_trade_id
+       WHERE p.status IN ('OPEN', 'PARTIAL') AND p.is_paper = w.paper_mode
+       ORDER BY p.id`
+    );
+
+    return res.rows.map((row) => ({
+      id: row.id,
+      walletId: row.wallet_id,
+      walletName: row.wallet_name,
+      token: row.token,
+      fundingToken: row.funding_token,
+      entryPrice: parseFloat(row.avg_entry_price),
+      peakPrice: toNumber(row.peak_price),
+      rules: {
+        stopLossPct: toNumber(row.stop_loss_pct),
+        takeProfitPct: toNumber(row.take_profit_pct),
+        trailingStopPct: toNumber(row.trailing_stop_pct),
+      },
+    }));
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Idempotency Key Test Suite
+ *
+ * Tests IdempotencyStore.deriveKey:
+ * 1. An alert id is used verbatim
+ * 2. Alerts from different keys or strategies, or with different sizes, on the same bar
+ *    get different keys
+ * 3. Alerts without a bar time are fingerprinted by their raw body
+ */
+
+import { IdempotencyKeyParams, IdempotencyStore } from './idempotency';
+
+describe('IdempotencyStore.deriveKey', () => {
+  const params = (overrides: Partial<IdempotencyKeyParams> = {}): IdempotencyKeyParams => ({
+    keyId: 'tv-main',
+    symbol: 'SOLUSD',
+    action: 'BUY',
+    timeframe: '60',
+    barTime: '2025-01-01T11:00:00Z',
+    rawBody: '{"symbol":"SOLUSD","action":"BUY"}',
+    ...overrides,
+  });
+
+  it('should use the alert id when present', () => {
+    expect(IdempotencyStore.deriveKey(params({ alertId: 'abc' }))).toBe('alert:abc');
+  });
+
+  it('should match a resend of the same alert', () => {
+    expect(IdempotencyStore.deriveKey(params({ symbol: 'solusd' }))).toBe(IdempotencyStore.deriveKey(params()));
+  });
+
+  it('should separate keys and strategies on the same bar', () => {
+    const key = IdempotencyStore.deriveKey(params());
+
+    expect(IdempotencyStore.deriveKey(params({ keyId: 'tv-other' }))).not.toBe(key);
+    expect(IdempotencyStore.deriveKey(params({ strategy: 'breakout' }))).not.toBe(key);
+  });
+
+  it('should separate partial sells and adds of different sizes', () => {
+    const key = (overrides: Partial<IdempotencyKeyParams>) => IdempotencyStore.deriveKey(params(overrides));
+
+    expect(key({ action: 'SELL', percent: '50' })).not.toBe(key({ action: 'SELL', percent: '25' }));
+    expect(key({ action: 'ADD', quantity: '20' })).not.toBe(key({ action: 'ADD', quantity: '10' }));
+  });
+
+  it('should fingerprint the raw body without a bar time', () => {
+    const key = IdempotencyStore.deriveKey(params({ barTime: undefined }));
+
+    expect(IdempotencyStore.deriveKey(params({ barTime: undefined }))).toBe(key);
+    expect(IdempotencyStore.deriveKey(params({ barTime: undefined, rawBody: 'BUY SOLUSD 60 at 150.2' }))).not.toBe(key);
+  });
+});
@@ -0,0 +1,174 @@
+import * as crypto from 'crypto';
+import { query } from '../../lib/db/client';
+
+/**
+ * Webhook Idempotency Store
+ *
+ * TradingView retries alerts and occasionally double-fires them. Every alert is
+ * reduced to an idempotency key and claimed in Postgres before the trade pipeline
+ * runs, so a duplicate inside the window replays the original response instead of
+ * trading the wallet a second time.
+ *
+ * Key derivation:
+ * - `alert_id` from the payload when TradingView provides one
+ * - Otherwise sha256 of key id / strategy / symbol / action / percent / quantity /
+ *   timeframe / bar time,
+ *   or of key id and the raw body when the alert has no bar time (plain_text)
+ *
+ * Server errors are not replayed: the claim is released so a retry runs again.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface IdempotencyKeyParams {
+  alertId?: string;
+  keyId: string; // Authenticated key, so senders never share a fingerprint
+  strategy?: string;
+  symbol: string;
+  action: string;
+  percent?: string;
+  quantity?: string;
+  timeframe: string;
+  barTime?: string;
+  rawBody: string; // Fingerprinted instead of the fields when there is no bar time
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: any;
+  tradeId: number | null;
+}
+
+export type ClaimResult =
+  | { claimed: true }
+  | { claimed: false; inProgress: true }
+  | { claimed: false; inProgress: false; response: StoredResponse };
+
+// ============================================================================
+// Idempotency Store Class
+// ============================================================================
+
+export class IdempotencyStore {
+  constructor(private windowSeconds: number) {}
+
+  /**
+   * Derives the idempotency key for an alert.
+   * An explicit alert id always wins; otherwise the alert is fingerprinted.
+   * Without a bar time the fields cannot tell two alerts of the same side apart,
+   * so the raw body is fingerprinted instead.
+   */
+  static deriveKey(params: IdempotencyKeyParams): string {
+    if (params.alertId) {
+      return `alert:${params.alertId}`;
+    }
+
+    const fingerprint = params.barTime
+      ? [
+          params.keyId,
+          params.strategy || '',
+          params.symbol.toUpperCase(),
+          params.action.toUpperCase(),
+          params.percent || '',
+          params.quantity || '',
+          params.timeframe,
+          params.barTime,
+        ].join('|')
+      : [params.keyId, 'body', params.rawBody].join('|');
+
+    return `hash:${crypto.createHash('sha256').update(fingerprint).digest('hex')}`;
+  }
+
+  /**
+   * Atomically claims a key for processing.
+   * A key older than the window is recycled; a key inside the window is a duplicate.
+   *
+   * @param key - Idempotency key from deriveKey()
+   * @returns Claim outcome, including the original response for completed duplicates
+   */
+  async claim(key: string): Promise<ClaimResult> {
+    const claimRes = await query(
+      `INSERT INTO webhook_idempotency (idempotency_key, status)
+       VALUES ($1, 'processing')
+       ON CONFLICT (idempotency_key) DO UPDATE
+         SET status = 'processing',
+             trade_id = NULL,
+             response_status = NULL,
+             response_json = NULL,
+             created_at = NOW(),
+             completed_at = NULL
+         WHERE webhook_idempotency.created_at < NOW() - make_interval(secs => $2)
+       RETURNING id`,
+      [key, this.windowSeconds]
+    );
+
+    if (claimRes.rows.length > 0) {
+      return { claimed: true };
+    }
+
+    const existingRes = await query(
+      `SELECT status, trade_id, response_status, response_json
+       FROM webhook_idempotency
+       WHERE idempotency_key = $1`,
+      [key]
+    );
+
+    const existing = existingRes.rows[0];
+    if (!existing || existing.status !== 'completed') {
+      return { claimed: false, inProgress: true };
+    }
+
+    return {
+      claimed: false,
+      inProgress: false,
+      response: {
+        statusCode: existing.response_status,
+        body: existing.response_json,
+        tradeId: existing.trade_id,
+      },
+    };
+  }
+
+  /**
+   * Stores the response for a claimed key so duplicates can replay it.
+   */
+  async complete(key: string, response: StoredResponse): Promise<void> {
+    await query(
+      `UPDATE webhook_idempotency
+       SET status = 'completed',
+           trade_id = $2,
+           response_status = $3,
+           response_json = $4,
+           completed_at = NOW()
+       WHERE idempotency_key = $1`,
+      [key, response.tradeId, response.statusCode, JSON.stringify(response.body)]
+    );
+  }
+
+  /**
+   * Drops a claim that is still processing (the request failed before a
+   * response worth replaying), so the next delivery of the alert is claimed anew.
+   */
+  async release(key: string): Promise<void> {
+    await query(
+      `DELETE FROM webhook_idempotency
+       WHERE idempotency_key = $1 AND status = 'processing'`,
+      [key]
+    );
+  }
+
+  /**
+   * Removes expired keys (optional housekeeping, keys are also recycled on claim).
+   *
+   * @returns Number of keys removed
+   */
+  async purgeExpired(): Promise<number> {
+    const res = await query(
+      `DELETE FROM webhook_idempotency
+       WHERE created_at < NOW() - make_interval(secs => $1)`,
+      [this.windowSeconds]
+    );
+    return res.rowCount || 0;
+  }
+}
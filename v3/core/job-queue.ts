@@ -0,0 +1,469 @@
+import * as os from 'os';
+import { query, transaction } from '../../lib/db/client';
+import { JOB_MAX_ATTEMPTS } from '../../lib/config/constants';
+import { TradePipeline, TradingViewWebhook, ExecuteOptions, PipelineResult } from './trade-pipeline';
+import { Logger, withLogContext } from '../../lib/log/logger';
+import { tradeJobsTotal } from '../../lib/metrics/metrics';
+import { NotificationPublisher } from './ports';
+
+/**
+ * Durable Trade Job Queue
+ *
+ * The webhook persists each accepted signal as a `trade_jobs` row and answers
+ * 202 immediately, so TradingView's short timeout can never expire mid-trade.
+ * Workers claim jobs with `FOR UPDATE SKIP LOCKED`, run them through the trade
+ * pipeline and store the result.
+ *
+ * Retries: only results the pipeline marks `retryable` (transient failures
+ * before anything was sent on-chain) are re-queued, with exponential backoff.
+ * A job is never retried once its swap was submitted.
+ *
+ * Shutdown: a job still running when the shutdown timeout expires is marked
+ * failed and its unfinished trade `interrupted_at`, so stuck trade recovery
+ * reconciles it on the next start instead of waiting for it to go stale.
+ *
+ * Lost workers: a process killed without a shutdown (SIGKILL, OOM, host loss)
+ * leaves its job `running`. Workers reclaim jobs locked longer than the lease:
+ * a job that never created a trade is re-queued, any other is failed and its
+ * unfinished trade marked `interrupted_at` as on shutdown.
+ */
+
+const logger = new Logger('job-worker');
+
+const RECLAIM_INTERVAL_MS = 60_000; // How often an idle worker looks for jobs of dead workers
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface TradeJob {
+  id: number;
+  status: JobStatus;
+  signal: TradingViewWebhook;
+  options: ExecuteOptions;
+  attempts: number;
+  max_attempts: number;
+  run_after: Date;
+  locked_at: Date | null;
+  locked_by: string | null;
+  trade_id: number | null;
+  last_error: string | null;
+  result_status: number | null;
+  result: PipelineResult['body'] | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface EnqueueParams {
+  signal: TradingViewWebhook;
+  options?: ExecuteOptions;
+  maxAttempts?: number;
+}
+
+export interface InterruptedJobs {
+  jobIds: number[];
+  tradeIds: number[]; // Trades of those jobs left in pending/quoted/executed
+}
+
+export interface ReclaimedJobs {
+  requeued: TradeJob[]; // Died before creating a trade: safe to run again
+  failed: TradeJob[];
+  trades: { id: number; jobId: number }[]; // Trades of the failed jobs left in pending/quoted/executed
+}
+
+export interface WorkerConfig {
+  pollIntervalMs: number;
+  retryBaseDelayMs: number;
+  leaseSeconds: number; // A job locked longer than this belongs to a dead worker
+  workerId?: string;
+}
+
+// ============================================================================
+// Trade Job Queue Class
+// ============================================================================
+
+export class TradeJobQueue {
+  constructor(private defaultMaxAttempts: number) {}
+
+  /**
+   * Persists a signal as a queued job.
+   *
+   * @returns The created job
+   */
+  async enqueue(params: EnqueueParams): Promise<TradeJob> {
+    const res = await query(
+      `INSERT INTO trade_jobs (signal_json, options_json, max_attempts)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [
+        JSON.stringify(params.signal),
+        JSON.stringify(params.options || {}),
+        params.maxAttempts || this.defaultMaxAttempts,
+      ]
+    );
+
+    return this.mapJob(res.rows[0]);
+  }
+
+  /**
+   * Retrieves a job by id.
+   */
+  async getJob(id: number): Promise<TradeJob | null> {
+    const res = await query('SELECT * FROM trade_jobs WHERE id = $1', [id]);
+    return res.rows.length > 0 ? this.mapJob(res.rows[0]) : null;
+  }
+
+  /**
+   * Claims the next runnable job. Concurrent workers skip rows another
+   * worker has locked, so each job is claimed exactly once.
+   *
+   * @param workerId - Identifier recorded on the claimed job
+   * @returns The claimed job, or null if the queue is empty
+   */
+  async claimNext(workerId: string): Promise<TradeJob | null> {
+    const res = await query(
+      `UPDATE trade_jobs
+       SET status = 'running',
+           attempts = attempts + 1,
+           locked_at = NOW(),
+           locked_by = $1
+       WHERE id = (
+         SELECT id FROM trade_jobs
+         WHERE status = 'queued' AND run_after <= NOW()
+         ORDER BY run_after ASC, id ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [workerId]
+    );
+
+    return res.rows.length > 0 ? this.mapJob(res.rows[0]) : null;
+  }
+
+  /**
+   * Stores a final result (success or permanent failure).
+   */
+  async complete(jobId: number, result: PipelineResult): Promise<void> {
+    await query(
+      `UPDATE trade_jobs
+       SET status = $2,
+           trade_id = $3,
+           result_status = $4,
+           result_json = $5,
+           last_error = $6,
+           locked_at = NULL,
+           locked_by = NULL,
+           completed_at = NOW()
+       WHERE id = $1`,
+      [
+        jobId,
+        result.body.success ? 'succeeded' : 'failed',
+        result.tradeId || null,
+        result.statusCode,
+        JSON.stringify(result.body),
+        result.body.success ? null : result.body.error,
+      ]
+    );
+  }
+
+  /**
+   * Re-queues a job after a transient failure.
+   */
+  async retry(jobId: number, error: string, delayMs: number): Promise<void> {
+    await query(
+      `UPDATE trade_jobs
+       SET status = 'queued',
+           last_error = $2,
+           run_after = NOW() + make_interval(secs => $3),
+           locked_at = NULL,
+           locked_by = NULL
+       WHERE id = $1`,
+      [jobId, error, delayMs / 1000]
+    );
+  }
+
+  /**
+   * Fails the jobs a worker is still running (on shutdown) and marks their
+   * unfinished trades as interrupted for the recovery worker.
+   */
+  async interruptRunning(workerId: string, error: string): Promise<InterruptedJobs> {
+    return transaction(async (client) => {
+      const jobs = await client.query(
+        `UPDATE trade_jobs
+         SET status = 'failed',
+             last_error = $2,
+             locked_at = NULL,
+             locked_by = NULL,
+             completed_at = NOW()
+         WHERE status = 'running' AND locked_by = $1
+         RETURNING id`,
+        [workerId, error]
+      );
+      const jobIds: number[] = jobs.rows.map((row: any) => row.id);
+      if (jobIds.length === 0) {
+        return { jobIds, tradeIds: [] };
+      }
+
+      const trades = await client.query(
+        `UPDATE trades
+         SET interrupted_at = NOW()
+         WHERE job_id = ANY($1) AND status IN ('pending', 'quoted', 'executed')
+         RETURNING id`,
+        [jobIds]
+      );
+
+      return { jobIds, tradeIds: trades.rows.map((row: any) => row.id) };
+    });
+  }
+
+  /**
+   * Frees jobs whose worker died without a graceful shutdown: `running` jobs
+   * locked longer than the lease. Jobs without a trade (and attempts left) are
+   * re-queued; the others are failed and their unfinished trades marked as
+   * interrupted for the recovery worker.
+   */
+  async reclaimExpired(leaseSeconds: number, error: string): Promise<ReclaimedJobs> {
+    return transaction(async (client) => {
+      const jobs = await client.query(
+        `WITH expired AS (
+           SELECT j.id,
+                  j.attempts < j.max_attempts AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.job_id = j.id) AS requeue
+           FROM trade_jobs j
+           WHERE j.status = 'running' AND j.locked_at < NOW() - make_interval(secs => $1)
+           FOR UPDATE OF j SKIP LOCKED
+         )
+         UPDATE trade_jobs
+         SET status = CASE WHEN expired.requeue THEN 'queued' ELSE 'failed' END,
+             last_error = $2,
+             locked_at = NULL,
+             locked_by = NULL,
+             completed_at = CASE WHEN expired.requeue THEN NULL ELSE NOW() END
+         FROM expired
+         WHERE trade_jobs.id = expired.id
+         RETURNING trade_jobs.*`,
+        [leaseSeconds, error]
+      );
+      const reclaimed: TradeJob[] = jobs.rows.map((row: any) => this.mapJob(row));
+      const requeued = reclaimed.filter((job) => job.status === 'queued');
+      const failed = reclaimed.filter((job) => job.status === 'failed');
+      if (failed.length === 0) {
+        return { requeued, failed, trades: [] };
+      }
+
+      const trades = await client.query(
+        `UPDATE trades
+         SET interrupted_at = NOW()
+         WHERE job_id = ANY($1) AND status IN ('pending', 'quoted', 'executed')
+         RETURNING id, job_id`,
+        [failed.map((job) => job.id)]
+      );
+
+      return { requeued, failed, trades: trades.rows.map((row: any) => ({ id: row.id, jobId: row.job_id })) };
+    });
+  }
+
+  /**
+   * Maps database row to TradeJob type.
+   */
+  private mapJob(row: any): TradeJob {
+    return {
+      id: row.id,
+      status: row.status,
+      signal: row.signal_json,
+      options: row.options_json || {},
+      attempts: row.attempts,
+      max_attempts: row.max_attempts,
+      run_after: row.run_after,
+      locked_at: row.locked_at,
+      locked_by: row.locked_by,
+      trade_id: row.trade_id,
+      last_error: row.last_error,
+      result_status: row.result_status,
+      result: row.result_json,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const tradeJobQueue = new TradeJobQueue(JOB_MAX_ATTEMPTS);
+
+// ============================================================================
+// Trade Job Worker Class
+// ============================================================================
+
+export class TradeJobWorker {
+  readonly workerId: string; // locked_by of the jobs this worker claims
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(
+    private queue: Pick<TradeJobQueue, 'claimNext' | 'complete' | 'retry' | 'reclaimExpired'>,
+    private pipeline: TradePipeline,
+    private config: WorkerConfig,
+    private notifier: NotificationPublisher
+  ) {
+    this.workerId = config.workerId || `${os.hostname()}:${process.pid}`;
+  }
+
+  /**
+   * Starts polling for jobs. Jobs are executed one at a time.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.run();
+    logger.info(`Started (${this.workerId})`);
+  }
+
+  /**
+   * Stops polling and waits for the current job to finish.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wakeUp?.();
+    await this.loop;
+    logger.info(`Stopped (${this.workerId})`);
+  }
+
+  /**
+   * Skips the rest of the current poll interval (called after enqueue).
+   */
+  notify(): void {
+    this.wakeUp?.();
+  }
+
+  /**
+   * Claims and executes a single job.
+   *
+   * @returns true if a job was processed
+   */
+  async processNext(): Promise<boolean> {
+    const job = await this.queue.claimNext(this.workerId);
+    if (!job) {
+      return false;
+    }
+
+    const context = { jobId: job.id, signalId: job.options.signalId, keyId: job.options.keyId };
+    await withLogContext(context, () => this.processJob(job));
+    return true;
+  }
+
+  /**
+   * Reclaims jobs left `running` by a dead worker (see TradeJobQueue.reclaimExpired).
+   */
+  async reclaimExpired(): Promise<ReclaimedJobs> {
+    const error = `Worker lost: job still running after ${this.config.leaseSeconds}s`;
+    const reclaimed = await this.queue.reclaimExpired(this.config.leaseSeconds, error);
+
+    if (reclaimed.requeued.length > 0) {
+      logger.warn(`Re-queued job ${reclaimed.requeued.map((job) => job.id).join(', ')} of a lost worker`);
+    }
+
+    for (const job of reclaimed.failed) {
+      const trade = reclaimed.trades.find((row) => row.jobId === job.id);
+      logger.error(
+        `Job ${job.id} of a lost worker marked failed` +
+          (trade ? `, trade ${trade.id} left to recovery` : ''),
+        { jobId: job.id, tradeId: trade?.id }
+      );
+      this.notifier.notify({
+        type: 'trade_failed',
+        severity: 'critical',
+        tradeId: trade?.id ?? null,
+        jobId: job.id,
+        action: job.signal.action,
+        symbol: job.signal.symbol,
+        timeframe: job.signal.timeframe,
+        reason: 'worker_lost',
+        error: job.last_error || 'Worker lost',
+      });
+    }
+
+    return reclaimed;
+  }
+
+  /**
+   * Executes a claimed job, retrying transient failures with backoff.
+   */
+  private async processJob(job: TradeJob): Promise<void> {
+    const { signal } = job;
+    logger.info(
+      `Job ${job.id} attempt ${job.attempts}/${job.max_attempts}: ${signal.action} ${signal.symbol} [${signal.timeframe}]`
+    );
+
+    const result = await this.pipeline.execute(signal, { ...job.options, jobId: job.id });
+
+    if (!result.body.success && result.retryable && job.attempts < job.max_attempts) {
+      const delayMs = this.config.retryBaseDelayMs * Math.pow(2, job.attempts - 1);
+      await this.queue.retry(job.id, result.body.error, delayMs);
+      logger.warn(`Job ${job.id} failed transiently (${result.body.reason}), retrying in ${delayMs}ms`);
+      tradeJobsTotal.inc({ outcome: 'retry', reason: result.body.reason });
+      return;
+    }
+
+    await this.queue.complete(job.id, result);
+
+    if (result.body.success) {
+      logger.info(`Job ${job.id} succeeded: trade ${result.tradeId} (${result.body.signature})`);
+      tradeJobsTotal.inc({ outcome: 'success', reason: '' });
+    } else {
+      logger.error(`Job ${job.id} failed: ${result.body.reason} - ${result.body.error}`);
+      tradeJobsTotal.inc({ outcome: 'failed', reason: result.body.reason });
+
+      // Rejections by the pipeline's rules (4xx) are warnings; failed swaps and errors (5xx) are critical
+      this.notifier.notify({
+        type: 'trade_failed',
+        severity: result.statusCode >= 500 ? 'critical' : 'warning',
+        tradeId: result.tradeId ?? null,
+        jobId: job.id,
+        action: signal.action,
+        symbol: signal.symbol,
+        timeframe: signal.timeframe,
+        reason: result.body.reason,
+        error: result.body.error,
+      });
+    }
+  }
+
+  private async run(): Promise<void> {
+    let lastReclaim = 0;
+
+    while (this.running) {
+      let processed = false;
+
+      if (Date.now() - lastReclaim >= RECLAIM_INTERVAL_MS) {
+        lastReclaim = Date.now();
+        try {
+          await this.reclaimExpired();
+        } catch (error) {
+          logger.error('Error reclaiming jobs of lost workers', { error });
+        }
+      }
+
+      try {
+        processed = await this.processNext();
+      } catch (error) {
+        logger.error('Error processing job', { error });
+      }
+
+      if (!processed && this.running) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, this.config.pollIntervalMs);
+          this.wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this.wakeUp = null;
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { query } from '../../lib/db/client';
+import { openPositionValueUsd, walletSolBalance, walletMinGasReserveSol } from '../../lib/metrics/metrics';
+import { HeliusClient } from '../helius';
+import { PriceOracle } from '../helius/price-oracle';
+import { Logger } from '../../lib/log/logger';
+
+/**
+ * Metrics Collector
+ *
+ * Refreshes the gauges that describe current state rather than events, on
+ * every /metrics scrape:
+ *   - Open position value per wallet and token, at the oracle price
+ *   - SOL balance and gas reserve of live wallets
+ *
+ * Balances and prices come through the Helius client and price oracle caches,
+ * so frequent scrapes do not multiply API calls. A failed source leaves its
+ * gauges empty for that scrape instead of failing /metrics.
+ */
+
+const logger = new Logger('metrics');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface MetricsCollectorDeps {
+  heliusClient: HeliusClient;
+  priceOracle: PriceOracle;
+}
+
+// ============================================================================
+// Metrics Collector Class
+// ============================================================================
+
+export class MetricsCollector {
+  constructor(private deps: MetricsCollectorDeps) {}
+
+  async collect(): Promise<void> {
+    await Promise.all([this.collectPositions(), this.collectWallets()]);
+  }
+
+  private async collectPositions(): Promise<void> {
+    openPositionValueUsd.reset();
+
+    try {
+      const res = await query(
+        `SELECT w.name AS wallet_name, p.token, SUM(p.current_amount) AS amount
+         FROM positions p
+         JOIN wallets w ON w.id = p.wallet_id
+         WHERE p.status IN ('OPEN', 'PARTIAL') AND p.is_paper = w.paper_mode
+         GROUP BY w.name, p.token`
+      );
+      if (res.rows.length === 0) {
+        return;
+      }
+
+      const prices = await this.deps.priceOracle.getPrices([...new Set<string>(res.rows.map((row) => row.token))]);
+      for (const row of res.rows) {
+        const price = prices[row.token];
+        if (price) {
+          openPositionValueUsd.set({ wallet: row.wallet_name, token: row.token }, parseFloat(row.amount) * price);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to collect open position values', { error });
+    }
+  }
+
+  private async collectWallets(): Promise<void> {
+    walletSolBalance.reset();
+    walletMinGasReserveSol.reset();
+
+    try {
+      const res = await query(
+        `SELECT name, address, min_gas_reserve
+         FROM wallets
+         WHERE NOT paper_mode
+         ORDER BY id`
+      );
+
+      await Promise.all(
+        res.rows.map(async (row) => {
+          walletMinGasReserveSol.set({ wallet: row.name }, parseFloat(row.min_gas_reserve));
+          try {
+            const lamports = await this.deps.heliusClient.getSolBalance(row.address);
+            walletSolBalance.set({ wallet: row.name }, lamports / 1e9);
+          } catch (error) {
+            logger.warn(`Failed to read SOL balance of ${row.name}`, { error });
+          }
+        })
+      );
+    } catch (error) {
+      logger.error('Failed to collect wallet balances', { error });
+    }
+  }
+}
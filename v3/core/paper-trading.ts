@@ -0,0 +1,179 @@
+import { query, transaction } from '../../lib/db/client';
+import { QuoteResult } from '../dex/jupiter';
+
+/**
+ * Paper Trading Ledger
+ *
+ * Wallets with `paper_mode = TRUE` run the normal pipeline up to and including
+ * the Jupiter quote, then simulate the fill instead of calling executeSwap.
+ * Balances live in `paper_balances` (funded through PUT /admin/wallets/:name/
+ * paper-balances/:token); trades and positions are written with
+ * `is_paper = TRUE` so they never mix with live accounting.
+ *
+ * Slippage model:
+ *   slippage_bps = base_bps + price_impact_bps * impact_multiplier
+ *   capped at the quote's slippageBps (a real swap would fail beyond that)
+ *   fill = quote.outAmount * (1 - slippage_bps / 10000)
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SlippageModel {
+  baseSlippageBps: number;
+  impactMultiplier: number;
+}
+
+export interface SimulatedFill {
+  inAmountRaw: number;
+  quotedOutAmountRaw: number;
+  outAmountRaw: number;
+  slippageBps: number;
+}
+
+export interface PaperBalance {
+  walletName: string;
+  token: string;
+  amount: number;
+  previous: number; // Balance before it was set
+}
+
+/**
+ * Invalid paper balance change (unknown or live wallet, unknown token, bad amount)
+ */
+export class PaperConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaperConfigError';
+  }
+}
+
+export interface ApplyFillParams {
+  walletId: number;
+  inputToken: string;
+  inputAmount: number;
+  outputToken: string;
+  outputAmount: number;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Simulates a fill for a Jupiter quote using the slippage model.
+ * Deterministic: the same quote always produces the same fill.
+ */
+export function simulateFill(model: SlippageModel, quote: QuoteResult): SimulatedFill {
+  const quotedOut = parseInt(quote.outAmount);
+  const modelledBps = model.baseSlippageBps + quote.priceImpactPct * 100 * model.impactMultiplier;
+  const slippageBps = Math.min(Math.max(0, modelledBps), quote.slippageBps);
+
+  return {
+    inAmountRaw: parseInt(quote.inAmount),
+    quotedOutAmountRaw: quotedOut,
+    outAmountRaw: Math.floor(quotedOut * (1 - slippageBps / 10000)),
+    slippageBps,
+  };
+}
+
+// ============================================================================
+// Paper Ledger Class
+// ============================================================================
+
+export class PaperLedger {
+  /**
+   * Whether a wallet trades on paper, read fresh on every signal so switching
+   * takes effect immediately.
+   *
+   * @returns The wallet's paper_mode, or null if the wallet does not exist
+   */
+  async isPaperWallet(walletId: number): Promise<boolean | null> {
+    const res = await query('SELECT paper_mode FROM wallets WHERE id = $1', [walletId]);
+    return res.rows.length > 0 ? res.rows[0].paper_mode === true : null;
+  }
+
+  /**
+   * Returns the paper balance for a wallet/token (0 if never funded).
+   */
+  async getBalance(walletId: number, token: string): Promise<number> {
+    const res = await query(
+      'SELECT amount FROM paper_balances WHERE wallet_id = $1 AND token = $2',
+      [walletId, token]
+    );
+
+    return res.rows.length > 0 ? parseFloat(res.rows[0].amount) : 0;
+  }
+
+  /**
+   * Sets a paper wallet's balance of a token (used to fund paper wallets).
+   *
+   * @throws PaperConfigError if the wallet is unknown or live, the token is unknown
+   *   or the amount is negative
+   */
+  async setBalance(walletName: string, token: string, amount: number): Promise<PaperBalance> {
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new PaperConfigError(`Invalid paper balance: ${amount}. Amount cannot be negative.`);
+    }
+
+    const walletRes = await query('SELECT id, paper_mode FROM wallets WHERE name = $1', [walletName]);
+    if (walletRes.rows.length === 0) {
+      throw new PaperConfigError(`Wallet not found: ${walletName}`);
+    }
+    if (walletRes.rows[0].paper_mode !== true) {
+      throw new PaperConfigError(`Wallet ${walletName} is not in paper mode`);
+    }
+
+    const symbol = token.toUpperCase();
+    const tokenRes = await query('SELECT symbol FROM tokens WHERE symbol = $1', [symbol]);
+    if (tokenRes.rows.length === 0) {
+      throw new PaperConfigError(`Token not found: ${symbol}`);
+    }
+
+    const walletId = walletRes.rows[0].id;
+    const previous = await this.getBalance(walletId, symbol);
+    await query(
+      `INSERT INTO paper_balances (wallet_id, token, amount)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (wallet_id, token) DO UPDATE SET amount = $3, updated_at = NOW()`,
+      [walletId, symbol, amount]
+    );
+
+    return { walletName, token: symbol, amount, previous };
+  }
+
+  /**
+   * Applies a simulated fill: debits the input token and credits the output token.
+   *
+   * @throws Error if the paper balance cannot cover the input amount
+   */
+  async applyFill(params: ApplyFillParams): Promise<void> {
+    const { walletId, inputToken, inputAmount, outputToken, outputAmount } = params;
+
+    await transaction(async (client) => {
+      const debitRes = await client.query(
+        `UPDATE paper_balances
+         SET amount = amount - $3, updated_at = NOW()
+         WHERE wallet_id = $1 AND token = $2 AND amount >= $3
+         RETURNING amount`,
+        [walletId, inputToken, inputAmount]
+      );
+
+      if (debitRes.rows.length === 0) {
+        throw new Error(`Insufficient paper ${inputToken} balance for ${inputAmount} in wallet ${walletId}`);
+      }
+
+      await client.query(
+        `INSERT INTO paper_balances (wallet_id, token, amount)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (wallet_id, token) DO UPDATE
+           SET amount = paper_balances.amount + $3, updated_at = NOW()`,
+        [walletId, outputToken, outputAmount]
+      );
+    });
+  }
+}
+
+// Export singleton instance for convenience
+export const paperLedger = new PaperLedger();
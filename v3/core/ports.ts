@@ -0,0 +1,72 @@
+import { Keypair } from '@solana/web3.js';
+import { QuoteParams, QuoteResult, SwapParams, SwapResult } from '../dex/jupiter';
+import { EnhancedTransaction, TokenAccountResponse } from '../helius/types';
+import { NotificationEvent } from '../notify/templates';
+import { getWalletForName } from '../../lib/wallet/generator';
+
+/**
+ * Ports
+ *
+ * What the trade pipeline and webhook need from outside the process, as
+ * interfaces so the BUY → SELL flow also runs against the in-memory fakes in
+ * v3/testing:
+ *
+ *   SwapProvider          - quotes and swaps (JupiterDex)
+ *   ChainReader           - balances and parsed transactions (HeliusClient)
+ *   WalletSigner          - keypair of a named wallet (derived from OPERATIONAL_SEED)
+ *   Clock                 - current time and waits (re-quote backoff, TWAP spacing)
+ *   PriceSource           - USD prices (PriceOracle)
+ *   NotificationPublisher - operator notifications (Notifier)
+ *
+ * The database is behind Storage (see storage.ts).
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SwapProvider {
+  /**
+   * @throws QuoteValidationError if the quote fails the quality checks
+   */
+  getQuote(params: QuoteParams): Promise<QuoteResult>;
+
+  executeSwap(params: SwapParams): Promise<SwapResult>;
+}
+
+export interface ChainReader {
+  getSolBalance(walletAddress: string): Promise<number>; // Lamports
+  getTokenAccountsByOwner(walletAddress: string, tokenMint?: string): Promise<TokenAccountResponse[]>;
+  getEnhancedTransaction(signature: string): Promise<EnhancedTransaction | null>;
+}
+
+export interface WalletSigner {
+  getWallet(walletName: string): Keypair;
+}
+
+export interface Clock {
+  now(): Date;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface PriceSource {
+  getPrice(tokenSymbol: string): Promise<number>;
+  getPrices(tokenSymbols: string[]): Promise<Record<string, number>>;
+}
+
+export interface NotificationPublisher {
+  notify(event: NotificationEvent): void; // Never throws, never waits for delivery
+}
+
+// ============================================================================
+// Production Implementations
+// ============================================================================
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export const seedWalletSigner: WalletSigner = {
+  getWallet: (walletName) => getWalletForName(walletName),
+};
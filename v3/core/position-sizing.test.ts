@@ -0,0 +1,211 @@
+/**
+ * Position Sizing Test Suite
+ *
+ * Tests the pure sizing calculation for each policy:
+ * 1. all_in keeps the original whole-balance behaviour
+ * 2. fixed_usd / percent_equity / volatility_scaled compute the right notional
+ * 3. max_notional_usd and the available balance cap every policy
+ * 4. SELL exits the open position regardless of policy
+ * 5. Sizes carried by the signal (percent / quantity) override the policy
+ */
+
+import { computeSize, allInPolicy, SizingPolicy } from './position-sizing';
+
+describe('computeSize', () => {
+  const walletId = 1;
+
+  const policy = (overrides: Partial<SizingPolicy>): SizingPolicy => ({
+    ...allInPolicy(walletId),
+    ...overrides,
+  });
+
+  describe('BUY', () => {
+    it('should use the whole available balance without a policy', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'BUY', available: 500, heldAmount: 0 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('all_in');
+      expect(result.decision.inputAmount).toBe(500);
+      expect(result.decision.notionalUsd).toBeNull();
+    });
+
+    it('should size a fixed USD notional', () => {
+      const result = computeSize(policy({ policy: 'fixed_usd', fixedUsd: 100 }), {
+        action: 'BUY',
+        available: 10, // 10 SOL
+        heldAmount: 0,
+        inputPrice: 200,
+        outputPrice: 1,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.notionalUsd).toBe(100);
+      expect(result.decision.inputAmount).toBeCloseTo(0.5);
+      expect(result.decision.capped).toBe(false);
+    });
+
+    it('should size a percent of equity including the held position', () => {
+      // Equity: 1000 USDC available + 5 SOL held at $200 = $2000
+      const result = computeSize(policy({ policy: 'percent_equity', equityPct: 25 }), {
+        action: 'BUY',
+        available: 1000,
+        heldAmount: 5,
+        inputPrice: 1,
+        outputPrice: 200,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.equityUsd).toBe(2000);
+      expect(result.decision.notionalUsd).toBe(500);
+      expect(result.decision.inputAmount).toBe(500);
+    });
+
+    it('should scale size inversely with volatility', () => {
+      const volatilityPolicy = policy({ policy: 'volatility_scaled', targetVolatilityPct: 1 });
+      const input = { action: 'BUY', available: 1000, heldAmount: 0, inputPrice: 1, outputPrice: 200 };
+
+      const calm = computeSize(volatilityPolicy, { ...input, volatilityPct: 2 });
+      const wild = computeSize(volatilityPolicy, { ...input, volatilityPct: 8 });
+
+      expect(calm.success && wild.success).toBe(true);
+      if (!calm.success || !wild.success) return;
+      expect(calm.decision.notionalUsd).toBe(500);
+      expect(wild.decision.notionalUsd).toBe(125);
+    });
+
+    it('should reject volatility_scaled sizing without a volatility', () => {
+      const result = computeSize(policy({ policy: 'volatility_scaled', targetVolatilityPct: 1 }), {
+        action: 'BUY',
+        available: 1000,
+        heldAmount: 0,
+        inputPrice: 1,
+        outputPrice: 200,
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should cap at max_notional_usd', () => {
+      const result = computeSize(policy({ policy: 'all_in', maxNotionalUsd: 250 }), {
+        action: 'BUY',
+        available: 1000,
+        heldAmount: 0,
+        inputPrice: 1,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.inputAmount).toBe(250);
+      expect(result.decision.capped).toBe(true);
+    });
+
+    it('should never exceed the available balance', () => {
+      const result = computeSize(policy({ policy: 'fixed_usd', fixedUsd: 5000 }), {
+        action: 'BUY',
+        available: 1000,
+        heldAmount: 0,
+        inputPrice: 1,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.inputAmount).toBe(1000);
+      expect(result.decision.capped).toBe(true);
+    });
+  });
+
+  describe('SELL', () => {
+    it('should exit the open position, not the whole balance', () => {
+      const result = computeSize(policy({ policy: 'fixed_usd', fixedUsd: 100 }), {
+        action: 'SELL',
+        available: 12,
+        heldAmount: 8,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('position_exit');
+      expect(result.decision.inputAmount).toBe(8);
+    });
+
+    it('should cap the exit at the available balance', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'SELL', available: 6, heldAmount: 8 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.inputAmount).toBe(6);
+      expect(result.decision.capped).toBe(true);
+    });
+
+    it('should exit a percentage of the position', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'SELL', available: 12, heldAmount: 8, percent: 25 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('partial_exit');
+      expect(result.decision.inputAmount).toBe(2);
+    });
+
+    it('should treat 100 percent as a full exit', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'SELL', available: 12, heldAmount: 8, percent: 100 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('position_exit');
+      expect(result.decision.inputAmount).toBe(8);
+    });
+
+    it('should cap a quantity at the open position', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'SELL', available: 12, heldAmount: 8, quantity: 10 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('position_exit');
+      expect(result.decision.inputAmount).toBe(8);
+      expect(result.decision.capped).toBe(true);
+    });
+  });
+
+  describe('signal sizes', () => {
+    it('should spend a quantity of the input token instead of the policy', () => {
+      const result = computeSize(policy({ policy: 'fixed_usd', fixedUsd: 100 }), {
+        action: 'BUY',
+        available: 10,
+        heldAmount: 5,
+        quantity: 2,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.policy).toBe('signal_size');
+      expect(result.decision.inputAmount).toBe(2);
+    });
+
+    it('should spend a percentage of the available balance', () => {
+      const result = computeSize(allInPolicy(walletId), { action: 'BUY', available: 10, heldAmount: 0, percent: 30 });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.inputAmount).toBeCloseTo(3);
+    });
+
+    it('should still apply max_notional_usd', () => {
+      const result = computeSize(policy({ maxNotionalUsd: 200 }), {
+        action: 'BUY',
+        available: 10,
+        heldAmount: 0,
+        quantity: 5,
+        inputPrice: 100,
+      });
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.decision.inputAmount).toBe(2);
+      expect(result.decision.notionalUsd).toBe(200);
+      expect(result.decision.capped).toBe(true);
+    });
+  });
+});
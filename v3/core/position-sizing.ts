@@ -0,0 +1,294 @@
+import { query, toNumber } from '../../lib/db/client';
+import { PriceSource } from './ports';
+
+/**
+ * Position Sizing Policies
+ *
+ * Each wallet may have a row in `sizing_policies`; wallets without one keep the
+ * original all-in behaviour. Policies size entries (BUY) only - a SELL exits the
+ * tracked open position, capped at the available balance.
+ *
+ * A size in the signal overrides this: a SELL with percent / quantity exits
+ * part of the position (partial_exit), a BUY with percent of the available
+ * balance / quantity of the input token skips the policy (signal_size) but is
+ * still capped by max_notional_usd.
+ *
+ * Policies (notional in USD of the input token):
+ *   all_in            - entire available balance
+ *   fixed_usd         - fixed_usd
+ *   percent_equity    - equity * equity_pct / 100
+ *   volatility_scaled - equity * target_volatility_pct / alert volatility
+ *
+ * Equity = available input balance + open position in the output token (USD).
+ * max_notional_usd caps every policy, and no policy can exceed the balance.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SizingPolicyType = 'all_in' | 'fixed_usd' | 'percent_equity' | 'volatility_scaled';
+
+export interface SizingPolicy {
+  walletId: number;
+  policy: SizingPolicyType;
+  fixedUsd: number | null;
+  equityPct: number | null;
+  targetVolatilityPct: number | null;
+  maxNotionalUsd: number | null;
+}
+
+export interface SizingInput {
+  action: string; // Swap side: BUY or SELL
+  available: number; // Input token balance left after the gas reserve
+  heldAmount: number; // BUY: open position in output token, SELL: open position in input token
+  inputPrice?: number; // USD price of input token (required unless all_in without a cap)
+  outputPrice?: number; // USD price of output token (required for equity-based policies)
+  volatilityPct?: number; // Volatility reported by the alert (volatility_scaled only)
+  percent?: number; // Signal size: SELL - % of the open position, BUY - % of available
+  quantity?: number; // Signal size: SELL - tokens to sell, BUY - input tokens to spend
+}
+
+export interface SizingDecision {
+  policy: SizingPolicyType | 'position_exit' | 'partial_exit' | 'signal_size';
+  inputAmount: number;
+  notionalUsd: number | null;
+  equityUsd: number | null;
+  capped: boolean; // Reduced by max_notional_usd or the available balance
+}
+
+export type SizingResult = { success: true; decision: SizingDecision } | { success: false; error: string };
+
+// ============================================================================
+// Sizing Calculation
+// ============================================================================
+
+/**
+ * Default policy for wallets without a sizing_policies row.
+ */
+export function allInPolicy(walletId: number): SizingPolicy {
+  return {
+    walletId,
+    policy: 'all_in',
+    fixedUsd: null,
+    equityPct: null,
+    targetVolatilityPct: null,
+    maxNotionalUsd: null,
+  };
+}
+
+/**
+ * Whether the signal carries its own size.
+ */
+export function hasSignalSize(input: Pick<SizingInput, 'percent' | 'quantity'>): boolean {
+  return input.percent !== undefined || input.quantity !== undefined;
+}
+
+/**
+ * Whether sizing with this policy needs USD prices.
+ */
+export function policyNeedsPrices(policy: SizingPolicy, action: string, signalSized = false): boolean {
+  if (action !== 'BUY') {
+    return false;
+  }
+  return signalSized ? policy.maxNotionalUsd !== null : policy.policy !== 'all_in' || policy.maxNotionalUsd !== null;
+}
+
+/**
+ * Computes the input amount for a trade. Pure - prices and balances are
+ * supplied by the caller.
+ */
+export function computeSize(policy: SizingPolicy, input: SizingInput): SizingResult {
+  const { action, available, heldAmount } = input;
+
+  if (action === 'SELL') {
+    const requested =
+      input.percent !== undefined ? heldAmount * (input.percent / 100) : (input.quantity ?? heldAmount);
+    const target = Math.min(requested, heldAmount);
+    const inputAmount = Math.min(target, available);
+
+    return {
+      success: true,
+      decision: {
+        policy: target < heldAmount ? 'partial_exit' : 'position_exit',
+        inputAmount,
+        notionalUsd: null,
+        equityUsd: null,
+        capped: inputAmount < requested,
+      },
+    };
+  }
+
+  if (hasSignalSize(input)) {
+    return computeSignalSize(policy, input);
+  }
+
+  if (!policyNeedsPrices(policy, action)) {
+    return {
+      success: true,
+      decision: { policy: 'all_in', inputAmount: available, notionalUsd: null, equityUsd: null, capped: false },
+    };
+  }
+
+  const { inputPrice, outputPrice } = input;
+  if (!inputPrice || inputPrice <= 0) {
+    return { success: false, error: `${policy.policy} sizing requires an input token price` };
+  }
+
+  const availableUsd = available * inputPrice;
+  let equityUsd: number | null = null;
+  let targetUsd: number;
+
+  if (policy.policy === 'percent_equity' || policy.policy === 'volatility_scaled') {
+    if (outputPrice === undefined || outputPrice < 0) {
+      return { success: false, error: `${policy.policy} sizing requires an output token price` };
+    }
+    equityUsd = availableUsd + heldAmount * outputPrice;
+  }
+
+  switch (policy.policy) {
+    case 'all_in':
+      targetUsd = availableUsd;
+      break;
+
+    case 'fixed_usd':
+      if (!policy.fixedUsd || policy.fixedUsd <= 0) {
+        return { success: false, error: 'fixed_usd policy has no fixed_usd amount' };
+      }
+      targetUsd = policy.fixedUsd;
+      break;
+
+    case 'percent_equity':
+      if (!policy.equityPct || policy.equityPct <= 0) {
+        return { success: false, error: 'percent_equity policy has no equity_pct' };
+      }
+      targetUsd = (equityUsd as number) * (policy.equityPct / 100);
+      break;
+
+    case 'volatility_scaled':
+      if (!policy.targetVolatilityPct || policy.targetVolatilityPct <= 0) {
+        return { success: false, error: 'volatility_scaled policy has no target_volatility_pct' };
+      }
+      if (!input.volatilityPct || input.volatilityPct <= 0) {
+        return { success: false, error: 'volatility_scaled sizing requires a positive volatility in the alert' };
+      }
+      targetUsd = (equityUsd as number) * (policy.targetVolatilityPct / input.volatilityPct);
+      break;
+
+    default:
+      return { success: false, error: `Unknown sizing policy: ${policy.policy}` };
+  }
+
+  let notionalUsd = targetUsd;
+  if (policy.maxNotionalUsd !== null) {
+    notionalUsd = Math.min(notionalUsd, policy.maxNotionalUsd);
+  }
+  notionalUsd = Math.min(notionalUsd, availableUsd);
+
+  return {
+    success: true,
+    decision: {
+      policy: policy.policy,
+      inputAmount: notionalUsd / inputPrice,
+      notionalUsd,
+      equityUsd,
+      capped: notionalUsd < targetUsd,
+    },
+  };
+}
+
+/**
+ * BUY sized by the signal: percent of the available balance or a quantity of
+ * the input token, capped by max_notional_usd and the balance.
+ */
+function computeSignalSize(policy: SizingPolicy, input: SizingInput): SizingResult {
+  const { available } = input;
+  const requested = input.percent !== undefined ? available * (input.percent / 100) : (input.quantity as number);
+  let inputAmount = Math.min(requested, available);
+  let notionalUsd: number | null = null;
+
+  if (policy.maxNotionalUsd !== null) {
+    if (!input.inputPrice || input.inputPrice <= 0) {
+      return { success: false, error: 'max_notional_usd cap requires an input token price' };
+    }
+    notionalUsd = Math.min(inputAmount * input.inputPrice, policy.maxNotionalUsd);
+    inputAmount = notionalUsd / input.inputPrice;
+  }
+
+  return {
+    success: true,
+    decision: {
+      policy: 'signal_size',
+      inputAmount,
+      notionalUsd,
+      equityUsd: null,
+      capped: inputAmount < requested,
+    },
+  };
+}
+
+// ============================================================================
+// Sizing Policy Store Class
+// ============================================================================
+
+export class SizingPolicyStore {
+  /**
+   * Loads the sizing policy for a wallet (all_in if none is configured).
+   */
+  async getPolicy(walletId: number): Promise<SizingPolicy> {
+    const res = await query('SELECT * FROM sizing_policies WHERE wallet_id = $1', [walletId]);
+    return res.rows.length > 0 ? this.mapPolicy(res.rows[0]) : allInPolicy(walletId);
+  }
+
+  /**
+   * Maps database row to SizingPolicy type.
+   */
+  private mapPolicy(row: any): SizingPolicy {
+    return {
+      walletId: row.wallet_id,
+      policy: row.policy,
+      fixedUsd: toNumber(row.fixed_usd),
+      equityPct: toNumber(row.equity_pct),
+      targetVolatilityPct: toNumber(row.target_volatility_pct),
+      maxNotionalUsd: toNumber(row.max_notional_usd),
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const sizingPolicyStore = new SizingPolicyStore();
+
+// ============================================================================
+// Position Sizer Class
+// ============================================================================
+
+export class PositionSizer {
+  constructor(
+    private priceSource: PriceSource,
+    private policies: Pick<SizingPolicyStore, 'getPolicy'>
+  ) {}
+
+  /**
+   * Sizes a trade with the wallet's policy, fetching USD prices only when the
+   * policy needs them.
+   */
+  async size(
+    walletId: number,
+    tokens: { inputToken: string; outputToken: string },
+    input: Omit<SizingInput, 'inputPrice' | 'outputPrice'>
+  ): Promise<SizingResult> {
+    const policy = await this.policies.getPolicy(walletId);
+
+    if (!policyNeedsPrices(policy, input.action, hasSignalSize(input))) {
+      return computeSize(policy, input);
+    }
+
+    const prices = await this.priceSource.getPrices([tokens.inputToken, tokens.outputToken]);
+
+    return computeSize(policy, {
+      ...input,
+      inputPrice: prices[tokens.inputToken],
+      outputPrice: input.heldAmount > 0 ? prices[tokens.outputToken] : 0,
+    });
+  }
+}
@@ -146,6 +146,41 @@ describe('PositionTracker', () => {
     });
   });
 
+  describe('Concurrency', () => {
+    it('should not let concurrent sells oversell a position', async () => {
+      await tracker.recordBuy({
+        walletId: testWalletId,
+        token: testToken,
+        amount: 100,
+        cost: 1000,
+        tradeId: 1
+      });
+
+      // Two 60-token sells race for a 100-token position: exactly one may win
+      const results = await Promise.allSettled([
+        tracker.recordSell({ walletId: testWalletId, token: testToken, amount: 60, proceeds: 700, tradeId: 2 }),
+        tracker.recordSell({ walletId: testWalletId, token: testToken, amount: 60, proceeds: 700, tradeId: 3 })
+      ]);
+
+      expect(results.filter((r) => r.status === 'fulfilled').length).toBe(1);
+      expect(results.filter((r) => r.status === 'rejected').length).toBe(1);
+
+      const position = await tracker.getOpenPosition(testWalletId, testToken);
+      expect(position?.current_amount).toBe(40);
+    });
+
+    it('should not lose writes from concurrent buys', async () => {
+      await Promise.all([
+        tracker.recordBuy({ walletId: testWalletId, token: testToken, amount: 100, cost: 1000, tradeId: 1 }),
+        tracker.recordBuy({ walletId: testWalletId, token: testToken, amount: 50, cost: 600, tradeId: 2 })
+      ]);
+
+      const position = await tracker.getOpenPosition(testWalletId, testToken);
+      expect(position?.current_amount).toBe(150);
+      expect(position?.total_entry_cost).toBe(1600);
+    });
+  });
+
   describe('recordSell - FIFO Accounting', () => {
     it('should calculate realized P&L correctly using FIFO', async () => {
       // Buy 100 tokens at $10 each = $1000 cost
@@ -303,6 +338,49 @@ describe('PositionTracker', () => {
       expect(result.position.closed_at).not.toBeNull();
     });
 
+    it('should close a full exit that leaves rounding dust', async () => {
+      await tracker.recordBuy({
+        walletId: testWalletId,
+        token: testToken,
+        amount: 100,
+        cost: 1000,
+        tradeId: 1
+      });
+
+      const result = await tracker.recordSell({
+        walletId: testWalletId,
+        token: testToken,
+        amount: 99.99999,
+        proceeds: 1200,
+        tradeId: 2,
+        closePosition: true
+      });
+
+      expect(result.position.status).toBe('CLOSED');
+      expect(result.position.current_amount).toBe(0);
+    });
+
+    it('should keep a partial exit PARTIAL even with closePosition unset', async () => {
+      await tracker.recordBuy({
+        walletId: testWalletId,
+        token: testToken,
+        amount: 100,
+        cost: 1000,
+        tradeId: 1
+      });
+
+      const result = await tracker.recordSell({
+        walletId: testWalletId,
+        token: testToken,
+        amount: 99.99999,
+        proceeds: 1200,
+        tradeId: 2
+      });
+
+      expect(result.position.status).toBe('PARTIAL');
+      expect(result.position.current_amount).toBeCloseTo(0.00001);
+    });
+
     it('should not allow selling from closed position', async () => {
       // Buy and fully sell
       await tracker.recordBuy({
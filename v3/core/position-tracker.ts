@@ -1,4 +1,6 @@
-import { query, transaction } from '../../lib/db/client';
+import { query, transaction, LOCK_NAMESPACES } from '../../lib/db/client';
+import { notifier } from '../notify/notifier';
+import { Logger } from '../../lib/log/logger';
 
 /**
  * FIFO Position Tracking System
@@ -13,6 +15,8 @@ import { query, transaction } from '../../lib/db/client';
  * This system handles real money. Correctness > Cleverness.
  */
 
+const logger = new Logger('position-tracker');
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -34,6 +38,7 @@ export interface Position {
   first_entry_at: Date;
   last_exit_at: Date | null;
   closed_at: Date | null;
+  is_paper: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -44,6 +49,7 @@ export interface RecordBuyParams {
   amount: number;
   cost: number;
   tradeId: number;
+  isPaper?: boolean; // Record into the paper trading ledger
 }
 
 export interface RecordSellParams {
@@ -52,6 +58,12 @@ export interface RecordSellParams {
   amount: number;
   proceeds: number;
   tradeId: number;
+  isPaper?: boolean; // Record into the paper trading ledger
+  closePosition?: boolean; // Full exit: rounding dust left behind is closed with the position
+}
+
+export interface WalletPosition extends Position {
+  wallet_name: string;
 }
 
 export interface SellResult {
@@ -64,11 +76,24 @@ export interface FlagParams {
   positionId?: number;
   tradeId?: number;
   walletId: number;
-  flagType: 'sell_without_position' | 'sell_exceeds_position' | 'suspicious_pnl' | 'oversized_position' | 'balance_mismatch';
+  flagType:
+    | 'sell_without_position'
+    | 'sell_exceeds_position'
+    | 'suspicious_pnl'
+    | 'oversized_position'
+    | 'balance_mismatch'
+    | 'stuck_trade'
+    | 'risk_limit_breach'
+    | 'exit_suppressed'
+    | 'unverified_slice';
   severity: 'info' | 'warning' | 'critical';
   description: string;
 }
 
+// Remaining amount (share of the position before the sell) written off as
+// rounding dust when a full exit is recorded
+export const CLOSE_DUST_RATIO = 0.001;
+
 // ============================================================================
 // Position Tracker Class
 // ============================================================================
@@ -83,7 +108,7 @@ export class PositionTracker {
    * @throws Error if database operation fails
    */
   async recordBuy(params: RecordBuyParams): Promise<Position> {
-    const { walletId, token, amount, cost, tradeId } = params;
+    const { walletId, token, amount, cost, tradeId, isPaper = false } = params;
 
     // Validation
     if (amount <= 0) {
@@ -94,13 +119,17 @@ export class PositionTracker {
     }
 
     return transaction(async (client) => {
+      // Serialize position updates for this wallet (also covers the no-row insert case)
+      await this.lockWalletPositions(client, walletId);
+
       // Check for existing open or partial position
       const existingRes = await client.query(
         `SELECT * FROM positions
-         WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL')
+         WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL') AND is_paper = $3
          ORDER BY first_entry_at ASC
-         LIMIT 1`,
-        [walletId, token]
+         LIMIT 1
+         FOR UPDATE`,
+        [walletId, token, isPaper]
       );
 
       if (existingRes.rows.length === 0) {
@@ -113,16 +142,17 @@ export class PositionTracker {
             wallet_id, token, status, entry_trade_id, entry_timestamp,
             total_entry_amount, total_entry_cost, avg_entry_price,
             current_amount, total_exit_amount, total_exit_proceeds,
-            realized_pnl, first_entry_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+            realized_pnl, first_entry_at, is_paper
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
           RETURNING *`,
           [
             walletId, token, 'OPEN', tradeId, now,
             amount, cost, avgPrice,
-            amount, 0, 0, 0, now
+            amount, 0, 0, 0, now, isPaper
           ]
         );
 
+        await this.markApplied(client, tradeId, insertRes.rows[0].id);
         return this.mapPosition(insertRes.rows[0]);
       } else {
         // Add to existing position (FIFO: we just increase totals)
@@ -143,6 +173,7 @@ export class PositionTracker {
           [newTotalEntryAmount, newTotalEntryCost, newAvgEntryPrice, newCurrentAmount, existing.id]
         );
 
+        await this.markApplied(client, tradeId, existing.id);
         return this.mapPosition(updateRes.rows[0]);
       }
     });
@@ -157,12 +188,16 @@ export class PositionTracker {
    * - Sell amount must not exceed current position amount
    * - Flags issues instead of auto-correcting
    *
+   * A sell of part of the position leaves it PARTIAL. With closePosition, a
+   * remainder of at most CLOSE_DUST_RATIO of the position (swap rounding) is
+   * closed too instead of lingering as a PARTIAL position.
+   *
    * @param params - Sell trade parameters
    * @returns Sell result with updated position and realized P&L
    * @throws Error if position doesn't exist or sell amount exceeds position
    */
   async recordSell(params: RecordSellParams): Promise<SellResult> {
-    const { walletId, token, amount, proceeds, tradeId } = params;
+    const { walletId, token, amount, proceeds, tradeId, isPaper = false, closePosition = false } = params;
 
     // Validation
     if (amount <= 0) {
@@ -173,13 +208,17 @@ export class PositionTracker {
     }
 
     return transaction(async (client) => {
-      // CRITICAL: Validate position exists
+      // Serialize position updates for this wallet
+      await this.lockWalletPositions(client, walletId);
+
+      // CRITICAL: Validate position exists (row locked until commit)
       const positionRes = await client.query(
         `SELECT * FROM positions
-         WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL')
+         WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL') AND is_paper = $3
          ORDER BY first_entry_at ASC
-         LIMIT 1`,
-        [walletId, token]
+         LIMIT 1
+         FOR UPDATE`,
+        [walletId, token, isPaper]
       );
 
       if (positionRes.rows.length === 0) {
@@ -219,7 +258,13 @@ export class PositionTracker {
       const realizedPnl = proceeds - costBasis;
 
       // Update position values
-      const newCurrentAmount = currentAmount - amount;
+      let newCurrentAmount = currentAmount - amount;
+      if (newCurrentAmount < 1e-9 || (closePosition && newCurrentAmount <= currentAmount * CLOSE_DUST_RATIO)) {
+        if (newCurrentAmount > 0) {
+          logger.info(`Closing position ${position.id} with ${newCurrentAmount} ${token} dust`);
+        }
+        newCurrentAmount = 0;
+      }
       const newTotalExitAmount = parseFloat(position.total_exit_amount) + amount;
       const newTotalExitProceeds = parseFloat(position.total_exit_proceeds) + proceeds;
       const newRealizedPnl = parseFloat(position.realized_pnl) + realizedPnl;
@@ -264,6 +309,10 @@ export class PositionTracker {
 
       const updatedPosition = this.mapPosition(updateRes.rows[0]);
 
+      // Per-exit P&L on the SELL trade (read by risk limits)
+      await client.query('UPDATE trades SET realized_pnl = $1 WHERE id = $2', [realizedPnl, tradeId]);
+      await this.markApplied(client, tradeId, position.id);
+
       // Flag suspicious P&L patterns
       const positionValue = currentAmount * avgEntryPrice;
       if (positionValue > 50000) {
@@ -302,15 +351,16 @@ export class PositionTracker {
    *
    * @param walletId - Wallet ID
    * @param token - Token symbol
+   * @param isPaper - Look in the paper trading ledger instead of live positions
    * @returns Position if exists, null otherwise
    */
-  async getOpenPosition(walletId: number, token: string): Promise<Position | null> {
+  async getOpenPosition(walletId: number, token: string, isPaper: boolean = false): Promise<Position | null> {
     const res = await query(
       `SELECT * FROM positions
-       WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL')
+       WHERE wallet_id = $1 AND token = $2 AND status IN ('OPEN', 'PARTIAL') AND is_paper = $3
        ORDER BY first_entry_at ASC
        LIMIT 1`,
-      [walletId, token]
+      [walletId, token, isPaper]
     );
 
     if (res.rows.length === 0) {
@@ -320,6 +370,22 @@ export class PositionTracker {
     return this.mapPosition(res.rows[0]);
   }
 
+  /**
+   * Lists every open or partial position on its wallet's current ledger (paper
+   * positions of paper wallets, live positions of live wallets), oldest first.
+   */
+  async listOpenPositions(): Promise<WalletPosition[]> {
+    const res = await query(
+      `SELECT p.*, w.name AS wallet_name
+       FROM positions p
+       JOIN wallets w ON w.id = p.wallet_id
+       WHERE p.status IN ('OPEN', 'PARTIAL') AND p.is_paper = w.paper_mode
+       ORDER BY p.id`
+    );
+
+    return res.rows.map((row) => ({ ...this.mapPosition(row), wallet_name: row.wallet_name }));
+  }
+
   /**
    * Creates a flag for manual review when data anomalies are detected.
    * This is the CORRECT way to handle issues - flag them, don't auto-correct.
@@ -336,10 +402,32 @@ export class PositionTracker {
       [positionId || null, tradeId || null, walletId, flagType, severity, description]
     );
 
-    // Log to console for immediate visibility
-    console.error(`[POSITION FLAG] ${severity.toUpperCase()}: ${flagType}`);
-    console.error(`Description: ${description}`);
-    console.error(`Position ID: ${positionId || 'N/A'}, Trade ID: ${tradeId || 'N/A'}, Wallet ID: ${walletId}`);
+    // Log for immediate visibility
+    logger.error(`Position flag ${severity.toUpperCase()}: ${flagType} - ${description}`, {
+      flagType,
+      severity,
+      positionId,
+      tradeId,
+      walletId,
+    });
+
+    notifier.notify({ type: 'position_flag', flagType, severity, description, walletId, positionId, tradeId });
+  }
+
+  /**
+   * Takes a transaction-scoped advisory lock for the wallet's positions.
+   * FOR UPDATE alone cannot stop two concurrent first buys from both inserting.
+   */
+  private async lockWalletPositions(client: any, walletId: number): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [LOCK_NAMESPACES.POSITION_UPDATE, walletId]);
+  }
+
+  /**
+   * Links the trade to the position in the same transaction as the update, so
+   * recovery can tell whether a verified trade's fill was applied.
+   */
+  private async markApplied(client: any, tradeId: number, positionId: number): Promise<void> {
+    await client.query('UPDATE trades SET position_id = $1 WHERE id = $2', [positionId, tradeId]);
   }
 
   /**
@@ -363,6 +451,7 @@ export class PositionTracker {
       first_entry_at: row.first_entry_at,
       last_exit_at: row.last_exit_at,
       closed_at: row.closed_at,
+      is_paper: row.is_paper,
       created_at: row.created_at,
       updated_at: row.updated_at
     };
@@ -0,0 +1,92 @@
+/**
+ * Risk Limits Test Suite
+ *
+ * Tests the pure rule evaluation:
+ * 1. Rules left NULL are not enforced
+ * 2. Daily loss, trade frequency and open exposure trip at their limit
+ * 3. Loss cooldown needs N consecutive losses and ends after the cooldown
+ */
+
+import { evaluateRiskLimits, RiskLimits, RiskStats } from './risk-limits';
+
+describe('evaluateRiskLimits', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  const limits = (overrides: Partial<RiskLimits>): RiskLimits => ({
+    walletId: 1,
+    maxDailyLossUsd: null,
+    maxTradesPerHour: null,
+    lossCooldownCount: null,
+    lossCooldownMinutes: null,
+    maxOpenExposureUsd: null,
+    autoHalt: false,
+    ...overrides,
+  });
+
+  const stats = (overrides: Partial<RiskStats>): RiskStats => ({
+    realizedPnlTodayUsd: 0,
+    tradesLastHour: 0,
+    recentExitPnls: [],
+    lastExitAt: null,
+    openExposureUsd: 0,
+    ...overrides,
+  });
+
+  it('should pass when no rule is configured', () => {
+    const breach = evaluateRiskLimits(
+      limits({}),
+      stats({ realizedPnlTodayUsd: -10000, tradesLastHour: 100, openExposureUsd: 1e6 }),
+      now
+    );
+
+    expect(breach).toBeNull();
+  });
+
+  it('should breach the daily loss limit once the loss reaches it', () => {
+    const rule = limits({ maxDailyLossUsd: 500 });
+
+    expect(evaluateRiskLimits(rule, stats({ realizedPnlTodayUsd: -499 }), now)).toBeNull();
+    expect(evaluateRiskLimits(rule, stats({ realizedPnlTodayUsd: 1000 }), now)).toBeNull();
+    expect(evaluateRiskLimits(rule, stats({ realizedPnlTodayUsd: -500 }), now)?.rule).toBe('daily_loss');
+  });
+
+  it('should breach the trade frequency limit', () => {
+    const rule = limits({ maxTradesPerHour: 5 });
+
+    expect(evaluateRiskLimits(rule, stats({ tradesLastHour: 4 }), now)).toBeNull();
+    expect(evaluateRiskLimits(rule, stats({ tradesLastHour: 5 }), now)?.rule).toBe('trade_frequency');
+  });
+
+  it('should breach the open exposure limit', () => {
+    const rule = limits({ maxOpenExposureUsd: 2000 });
+
+    expect(evaluateRiskLimits(rule, stats({ openExposureUsd: 1999 }), now)).toBeNull();
+    expect(evaluateRiskLimits(rule, stats({ openExposureUsd: 2500 }), now)?.rule).toBe('open_exposure');
+  });
+
+  describe('loss cooldown', () => {
+    const rule = limits({ lossCooldownCount: 3, lossCooldownMinutes: 60 });
+    const lastExitAt = new Date('2025-01-01T11:30:00Z'); // 30 minutes before now
+
+    it('should cool down after N consecutive losing exits', () => {
+      const breach = evaluateRiskLimits(rule, stats({ recentExitPnls: [-1, -2, -3], lastExitAt }), now);
+
+      expect(breach?.rule).toBe('loss_cooldown');
+      expect(breach?.message).toContain('2025-01-01T12:30:00.000Z');
+    });
+
+    it('should not cool down if any of the last N exits was a win', () => {
+      expect(evaluateRiskLimits(rule, stats({ recentExitPnls: [-1, 2, -3], lastExitAt }), now)).toBeNull();
+    });
+
+    it('should not cool down with fewer than N exits', () => {
+      expect(evaluateRiskLimits(rule, stats({ recentExitPnls: [-1, -2], lastExitAt }), now)).toBeNull();
+    });
+
+    it('should allow entries once the cooldown has passed', () => {
+      const later = new Date('2025-01-01T12:31:00Z');
+
+      expect(evaluateRiskLimits(rule, stats({ recentExitPnls: [-1, -2, -3], lastExitAt }), later)).toBeNull();
+    });
+  });
+});
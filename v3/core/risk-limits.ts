@@ -0,0 +1,323 @@
+import { query, toNumber } from '../../lib/db/client';
+import { PriceSource } from './ports';
+import { PositionTracker } from './position-tracker';
+import { TradingHalts } from './trading-halts';
+import { Logger } from '../../lib/log/logger';
+
+/**
+ * Risk Limits
+ *
+ * Rows in `risk_limits` cap what a wallet (wallet_id set) or the whole live
+ * portfolio (wallet_id NULL) may do. Every configured rule is evaluated from
+ * `trades` and `positions` before a BUY passes pre-validation; exits are never
+ * blocked, so a breached wallet can always get flat.
+ *
+ * Rules (NULL = not enforced):
+ *   max_daily_loss_usd    - realized loss since midnight (database time)
+ *   max_trades_per_hour   - executed trades in the last hour
+ *   loss_cooldown_count   - after this many consecutive losing exits, no new
+ *   loss_cooldown_minutes   entries until the cooldown after the last exit ends
+ *   max_open_exposure_usd - USD value of open positions
+ *
+ * Realized P&L is recorded per SELL trade in its output token and converted
+ * with current prices. A breach creates a `risk_limit_breach` position flag and,
+ * if auto_halt is set, halts the wallet (or all trading for portfolio rules).
+ * Paper wallets are checked against their own paper trades and positions;
+ * portfolio rules cover live wallets only.
+ */
+
+const logger = new Logger('risk');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RiskLimits {
+  walletId: number | null; // NULL = portfolio
+  maxDailyLossUsd: number | null;
+  maxTradesPerHour: number | null;
+  lossCooldownCount: number | null;
+  lossCooldownMinutes: number | null;
+  maxOpenExposureUsd: number | null;
+  autoHalt: boolean;
+}
+
+export interface RiskStats {
+  realizedPnlTodayUsd: number;
+  tradesLastHour: number;
+  recentExitPnls: number[]; // Most recent first
+  lastExitAt: Date | null;
+  openExposureUsd: number;
+}
+
+export type RiskRule = 'daily_loss' | 'trade_frequency' | 'loss_cooldown' | 'open_exposure';
+
+export interface RiskBreach {
+  rule: RiskRule;
+  scope: 'wallet' | 'portfolio';
+  message: string;
+}
+
+export type RiskCheckResult = { success: true } | { success: false; breach: RiskBreach; halted: boolean };
+
+export interface RiskCheckParams {
+  walletId: number;
+  walletName: string;
+  isPaper: boolean;
+}
+
+export interface TokenAmount {
+  token: string;
+  amount: number;
+}
+
+/**
+ * Trading activity a set of limits is evaluated against, before USD conversion.
+ * Only the fields the configured rules need are filled in.
+ */
+export interface RiskActivity {
+  realizedPnlToday: TokenAmount[]; // Per output token of today's exits
+  tradesLastHour: number;
+  recentExits: { realizedPnl: number; executedAt: Date }[]; // Most recent first
+  openPositions: TokenAmount[];
+}
+
+// ============================================================================
+// Risk Evaluation
+// ============================================================================
+
+/**
+ * Returns the first rule the stats breach, or null. Pure - stats are gathered
+ * by the caller.
+ */
+export function evaluateRiskLimits(
+  limits: RiskLimits,
+  stats: RiskStats,
+  now: Date = new Date()
+): Omit<RiskBreach, 'scope'> | null {
+  if (limits.maxDailyLossUsd !== null && -stats.realizedPnlTodayUsd >= limits.maxDailyLossUsd) {
+    return {
+      rule: 'daily_loss',
+      message: `Daily realized loss $${(-stats.realizedPnlTodayUsd).toFixed(2)} reached the $${limits.maxDailyLossUsd} limit`,
+    };
+  }
+
+  if (limits.maxTradesPerHour !== null && stats.tradesLastHour >= limits.maxTradesPerHour) {
+    return {
+      rule: 'trade_frequency',
+      message: `${stats.tradesLastHour} trades in the last hour reached the limit of ${limits.maxTradesPerHour}`,
+    };
+  }
+
+  if (limits.lossCooldownCount !== null && limits.lossCooldownCount > 0 && stats.lastExitAt) {
+    const recent = stats.recentExitPnls.slice(0, limits.lossCooldownCount);
+    const cooldownEnds = new Date(stats.lastExitAt.getTime() + (limits.lossCooldownMinutes || 0) * 60_000);
+
+    if (recent.length === limits.lossCooldownCount && recent.every((pnl) => pnl < 0) && now < cooldownEnds) {
+      return {
+        rule: 'loss_cooldown',
+        message: `${limits.lossCooldownCount} consecutive losing exits: cooling down until ${cooldownEnds.toISOString()}`,
+      };
+    }
+  }
+
+  if (limits.maxOpenExposureUsd !== null && stats.openExposureUsd >= limits.maxOpenExposureUsd) {
+    return {
+      rule: 'open_exposure',
+      message: `Open exposure $${stats.openExposureUsd.toFixed(2)} reached the $${limits.maxOpenExposureUsd} limit`,
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Risk Store Class
+// ============================================================================
+
+export class RiskStore {
+  /**
+   * Limits that apply to a wallet: its own row first, then the portfolio row
+   * (live wallets only).
+   */
+  async getLimits(walletId: number, isPaper: boolean): Promise<RiskLimits[]> {
+    const res = await query(
+      `SELECT * FROM risk_limits
+       WHERE wallet_id = $1 OR (wallet_id IS NULL AND $2 = FALSE)
+       ORDER BY wallet_id NULLS LAST`,
+      [walletId, isPaper]
+    );
+
+    return res.rows.map((row) => this.mapLimits(row));
+  }
+
+  /**
+   * Gathers the activity the configured rules need (unused rules are not queried).
+   *
+   * @param walletId - Wallet to scope to, or null for the whole portfolio
+   */
+  async getActivity(limits: RiskLimits, walletId: number | null, isPaper: boolean): Promise<RiskActivity> {
+    const activity: RiskActivity = { realizedPnlToday: [], tradesLastHour: 0, recentExits: [], openPositions: [] };
+
+    // $1 = wallet id (NULL = all wallets), $2 = ledger
+    const scope = '($1::INTEGER IS NULL OR wallet_id = $1) AND is_paper = $2';
+    const params = [walletId, isPaper];
+    const toAmounts = (rows: any[]) => rows.map((row) => ({ token: row.token, amount: parseFloat(row.amount) }));
+
+    if (limits.maxDailyLossUsd !== null) {
+      const pnlRes = await query(
+        `SELECT output_token AS token, SUM(realized_pnl) AS amount
+         FROM trades
+         WHERE ${scope} AND tv_action = 'SELL' AND realized_pnl IS NOT NULL
+           AND execution_timestamp >= date_trunc('day', NOW())
+         GROUP BY output_token`,
+        params
+      );
+      activity.realizedPnlToday = toAmounts(pnlRes.rows);
+    }
+
+    if (limits.maxTradesPerHour !== null) {
+      const countRes = await query(
+        `SELECT COUNT(*) AS count
+         FROM trades
+         WHERE ${scope} AND status IN ('executed', 'verified', 'position_tracked', 'position_error')
+           AND created_at > NOW() - INTERVAL '1 hour'`,
+        params
+      );
+      activity.tradesLastHour = parseInt(countRes.rows[0].count, 10);
+    }
+
+    if (limits.lossCooldownCount !== null && limits.lossCooldownCount > 0) {
+      const exitsRes = await query(
+        `SELECT realized_pnl, execution_timestamp
+         FROM trades
+         WHERE ${scope} AND tv_action = 'SELL' AND realized_pnl IS NOT NULL
+         ORDER BY execution_timestamp DESC
+         LIMIT $3`,
+        [...params, limits.lossCooldownCount]
+      );
+      activity.recentExits = exitsRes.rows.map((row) => ({
+        realizedPnl: parseFloat(row.realized_pnl),
+        executedAt: row.execution_timestamp,
+      }));
+    }
+
+    if (limits.maxOpenExposureUsd !== null) {
+      const exposureRes = await query(
+        `SELECT token, SUM(current_amount) AS amount
+         FROM positions
+         WHERE ${scope} AND status IN ('OPEN', 'PARTIAL')
+         GROUP BY token`,
+        params
+      );
+      activity.openPositions = toAmounts(exposureRes.rows);
+    }
+
+    return activity;
+  }
+
+  /**
+   * Maps database row to RiskLimits type.
+   */
+  private mapLimits(row: any): RiskLimits {
+    return {
+      walletId: row.wallet_id,
+      maxDailyLossUsd: toNumber(row.max_daily_loss_usd),
+      maxTradesPerHour: toNumber(row.max_trades_per_hour),
+      lossCooldownCount: toNumber(row.loss_cooldown_count),
+      lossCooldownMinutes: toNumber(row.loss_cooldown_minutes),
+      maxOpenExposureUsd: toNumber(row.max_open_exposure_usd),
+      autoHalt: row.auto_halt,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const riskStore = new RiskStore();
+
+// ============================================================================
+// Risk Engine Class
+// ============================================================================
+
+export class RiskEngine {
+  constructor(
+    private priceSource: PriceSource,
+    private store: Pick<RiskStore, 'getLimits' | 'getActivity'>,
+    private positionTracker: Pick<PositionTracker, 'flagIssue'>,
+    private tradingHalts: Pick<TradingHalts, 'halt'>
+  ) {}
+
+  /**
+   * Checks wallet rules, then portfolio rules (live wallets only), for a new entry.
+   */
+  async check(params: RiskCheckParams): Promise<RiskCheckResult> {
+    for (const limits of await this.store.getLimits(params.walletId, params.isPaper)) {
+      const scope = limits.walletId === null ? 'portfolio' : 'wallet';
+      const stats = await this.getStats(limits, scope === 'wallet' ? params.walletId : null, params.isPaper);
+
+      const breach = evaluateRiskLimits(limits, stats);
+      if (breach) {
+        const halted = await this.onBreach({ ...breach, scope }, limits, params);
+        return { success: false, breach: { ...breach, scope }, halted };
+      }
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Stats for the configured rules, with P&L and exposure in USD at current prices.
+   *
+   * @param walletId - Wallet to scope to, or null for the whole live portfolio
+   */
+  private async getStats(limits: RiskLimits, walletId: number | null, isPaper: boolean): Promise<RiskStats> {
+    const activity = await this.store.getActivity(limits, walletId, isPaper);
+
+    return {
+      realizedPnlTodayUsd: await this.toUsd(activity.realizedPnlToday),
+      tradesLastHour: activity.tradesLastHour,
+      recentExitPnls: activity.recentExits.map((exit) => exit.realizedPnl),
+      lastExitAt: activity.recentExits.length > 0 ? activity.recentExits[0].executedAt : null,
+      openExposureUsd: await this.toUsd(activity.openPositions),
+    };
+  }
+
+  /**
+   * Sums per-token amounts in USD at current prices.
+   */
+  private async toUsd(amounts: TokenAmount[]): Promise<number> {
+    if (amounts.length === 0) {
+      return 0;
+    }
+
+    const prices = await this.priceSource.getPrices(amounts.map((row) => row.token));
+    return amounts.reduce((sum, row) => sum + row.amount * (prices[row.token] || 0), 0);
+  }
+
+  /**
+   * Flags the breach and, if configured, halts the wallet (or all trading).
+   *
+   * @returns true if a halt was set
+   */
+  private async onBreach(breach: RiskBreach, limits: RiskLimits, params: RiskCheckParams): Promise<boolean> {
+    logger.warn(`${breach.scope} ${breach.rule} breach for ${params.walletName}: ${breach.message}`);
+
+    await this.positionTracker.flagIssue({
+      walletId: params.walletId,
+      flagType: 'risk_limit_breach',
+      severity: limits.autoHalt ? 'critical' : 'warning',
+      description: `${breach.scope === 'portfolio' ? 'Portfolio' : `Wallet ${params.walletName}`} ${breach.rule}: ${breach.message}`,
+    });
+
+    if (!limits.autoHalt) {
+      return false;
+    }
+
+    await this.tradingHalts.halt(
+      breach.scope === 'portfolio'
+        ? { scope: 'global', reason: `Risk limit ${breach.rule}: ${breach.message}`, actor: 'risk' }
+        : { scope: 'wallet', target: params.walletName, reason: `Risk limit ${breach.rule}: ${breach.message}`, actor: 'risk' }
+    );
+    return true;
+  }
+}
@@ -0,0 +1,307 @@
+import { query, isUniqueViolation } from '../../lib/db/client';
+import { TOKENS, registerToken } from '../../lib/config/tokens';
+import { ROUTE_CACHE_SECONDS } from '../../lib/config/constants';
+import { TwapConfig } from './trade-slices';
+
+/**
+ * Route Registry
+ *
+ * Maps an alert (symbol, timeframe, strategy) to a wallet and token pair using
+ * the `routes` table, so new symbols and timeframes need no code change.
+ * `timeframe` / `strategy` of NULL match any value; when several enabled routes
+ * match, the most specific one wins.
+ *
+ * Routes and the `tokens` table are cached and reloaded after
+ * ROUTE_CACHE_SECONDS, or immediately after an admin change.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RouteOptions {
+  maxSlippageBps?: number; // Overrides the pair slippage limit for quotes
+  twap?: TwapConfig; // Execute swaps as sliced (TWAP) child swaps
+}
+
+export interface TradeRoute {
+  id: number;
+  symbol: string;
+  timeframe: string | null;
+  strategy: string | null;
+  walletId: number;
+  walletName: string;
+  assetToken: string; // Bought on BUY, sold on SELL
+  fundingToken: string; // Spent on BUY, received on SELL
+  options: RouteOptions;
+  enabled: boolean;
+  createdAt: Date;
+}
+
+export interface CreateRouteParams {
+  symbol: string;
+  timeframe?: string | null;
+  strategy?: string | null;
+  walletName: string;
+  assetToken: string;
+  fundingToken: string;
+  options?: RouteOptions;
+}
+
+/**
+ * Invalid route definition (unknown wallet or token, duplicate route)
+ */
+export class RouteConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RouteConfigError';
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Picks the most specific of the given enabled routes for an alert.
+ */
+export function matchRoute(
+  routes: TradeRoute[],
+  symbol: string,
+  timeframe: string,
+  strategy?: string
+): TradeRoute | null {
+  const candidates = routes.filter(
+    (route) =>
+      route.symbol === symbol &&
+      (route.timeframe === null || route.timeframe === timeframe) &&
+      (route.strategy === null || route.strategy === (strategy || null))
+  );
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const specificity = (route: TradeRoute) => (route.timeframe !== null ? 1 : 0) + (route.strategy !== null ? 2 : 0);
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+/**
+ * Picks the oldest of the given enabled routes trading a wallet's asset token.
+ */
+export function matchPositionRoute(routes: TradeRoute[], walletId: number, assetToken: string): TradeRoute | null {
+  const candidates = routes
+    .filter((route) => route.walletId === walletId && route.assetToken === assetToken)
+    .sort((a, b) => a.id - b.id);
+
+  return candidates[0] || null;
+}
+
+// ============================================================================
+// Route Registry Class
+// ============================================================================
+
+export class RouteRegistry {
+  private cacheTTLMs: number;
+  private routes: TradeRoute[] = [];
+  private loadedAt = 0;
+
+  constructor(cacheTTLSeconds: number) {
+    this.cacheTTLMs = cacheTTLSeconds * 1000;
+  }
+
+  /**
+   * Finds the most specific enabled route for an alert.
+   *
+   * @returns The matching route, or null if the alert is not routable
+   */
+  async resolve(symbol: string, timeframe: string, strategy?: string): Promise<TradeRoute | null> {
+    return matchRoute(await this.getEnabledRoutes(), symbol, timeframe, strategy);
+  }
+
+  /**
+   * Finds an enabled route that trades a wallet's asset token, used to route
+   * internally generated exits (CLOSE) back to the wallet holding the position.
+   * The oldest matching route wins.
+   */
+  async findForPosition(walletId: number, assetToken: string): Promise<TradeRoute | null> {
+    return matchPositionRoute(await this.getEnabledRoutes(), walletId, assetToken);
+  }
+
+  /**
+   * Lists every route, enabled or not (admin use).
+   */
+  async listRoutes(): Promise<TradeRoute[]> {
+    const res = await query(
+      `SELECT r.*, w.name AS wallet_name
+       FROM routes r
+       JOIN wallets w ON r.wallet_id = w.id
+       ORDER BY r.symbol, r.timeframe NULLS LAST, r.strategy NULLS LAST, r.id`
+    );
+
+    return res.rows.map((row) => this.mapRoute(row));
+  }
+
+  /**
+   * Adds an enabled route.
+   *
+   * @throws RouteConfigError if the wallet or a token is unknown, or an
+   *         enabled route with the same symbol/timeframe/strategy exists
+   */
+  async createRoute(params: CreateRouteParams): Promise<TradeRoute> {
+    await this.loadTokens();
+
+    const assetToken = params.assetToken.toUpperCase();
+    const fundingToken = params.fundingToken.toUpperCase();
+    for (const token of [assetToken, fundingToken]) {
+      if (!TOKENS[token]) {
+        throw new RouteConfigError(`Unknown token: ${token} (add it to the tokens table first)`);
+      }
+    }
+    if (assetToken === fundingToken) {
+      throw new RouteConfigError('assetToken and fundingToken must differ');
+    }
+
+    const walletRes = await query('SELECT id FROM wallets WHERE name = $1', [params.walletName]);
+    if (walletRes.rows.length === 0) {
+      throw new RouteConfigError(`Wallet not found: ${params.walletName}`);
+    }
+
+    let res;
+    try {
+      res = await query(
+        `INSERT INTO routes (symbol, timeframe, strategy, wallet_id, asset_token, funding_token, options)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [
+          params.symbol.toUpperCase(),
+          params.timeframe || null,
+          params.strategy || null,
+          walletRes.rows[0].id,
+          assetToken,
+          fundingToken,
+          JSON.stringify({
+            max_slippage_bps: params.options?.maxSlippageBps,
+            twap_slices: params.options?.twap?.slices,
+            twap_window_seconds: params.options?.twap?.windowSeconds,
+            twap_target_impact_pct: params.options?.twap?.targetImpactPct,
+          }),
+        ]
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new RouteConfigError(
+          `An enabled route already exists for ${params.symbol} [${params.timeframe || '*'}] (${params.strategy || '*'})`
+        );
+      }
+      throw error;
+    }
+
+    this.invalidateCache();
+    return (await this.getRoute(res.rows[0].id))!;
+  }
+
+  /**
+   * Disables a route. Alerts it matched are rejected (or fall back to a less
+   * specific route) from the next cache reload.
+   *
+   * @returns The disabled route, or null if it does not exist
+   */
+  async disableRoute(id: number): Promise<TradeRoute | null> {
+    const res = await query('UPDATE routes SET enabled = FALSE WHERE id = $1', [id]);
+    if (res.rowCount === 0) {
+      return null;
+    }
+
+    this.invalidateCache();
+    return this.getRoute(id);
+  }
+
+  /**
+   * Drop cached routes so the next lookup reloads them.
+   */
+  invalidateCache(): void {
+    this.loadedAt = 0;
+  }
+
+  private async getEnabledRoutes(): Promise<TradeRoute[]> {
+    if (Date.now() - this.loadedAt > this.cacheTTLMs) {
+      await this.loadTokens();
+
+      const res = await query(
+        `SELECT r.*, w.name AS wallet_name
+         FROM routes r
+         JOIN wallets w ON r.wallet_id = w.id
+         WHERE r.enabled = TRUE`
+      );
+
+      this.routes = res.rows.map((row) => this.mapRoute(row));
+      this.loadedAt = Date.now();
+    }
+
+    return this.routes;
+  }
+
+  private async getRoute(id: number): Promise<TradeRoute | null> {
+    const res = await query(
+      `SELECT r.*, w.name AS wallet_name
+       FROM routes r
+       JOIN wallets w ON r.wallet_id = w.id
+       WHERE r.id = $1`,
+      [id]
+    );
+
+    return res.rows.length > 0 ? this.mapRoute(res.rows[0]) : null;
+  }
+
+  /**
+   * Merges the tokens table into TOKENS so routed tokens resolve mints/decimals.
+   */
+  private async loadTokens(): Promise<void> {
+    const res = await query('SELECT symbol, mint, decimals, name FROM tokens');
+
+    for (const row of res.rows) {
+      registerToken({
+        symbol: row.symbol,
+        mint: row.mint,
+        decimals: row.decimals,
+        name: row.name || row.symbol,
+      });
+    }
+  }
+
+  /**
+   * Maps database row to TradeRoute type.
+   */
+  private mapRoute(row: any): TradeRoute {
+    const options = row.options || {};
+
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      timeframe: row.timeframe,
+      strategy: row.strategy,
+      walletId: row.wallet_id,
+      walletName: row.wallet_name,
+      assetToken: row.asset_token,
+      fundingToken: row.funding_token,
+      options: {
+        maxSlippageBps: options.max_slippage_bps !== undefined ? Number(options.max_slippage_bps) : undefined,
+        twap:
+          options.twap_slices !== undefined
+            ? {
+                slices: Number(options.twap_slices),
+                windowSeconds: Number(options.twap_window_seconds || 0),
+                targetImpactPct:
+                  options.twap_target_impact_pct !== undefined ? Number(options.twap_target_impact_pct) : undefined,
+              }
+            : undefined,
+      },
+      enabled: row.enabled,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const routeRegistry = new RouteRegistry(ROUTE_CACHE_SECONDS);
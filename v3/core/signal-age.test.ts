@@ -0,0 +1,70 @@
+/**
+ * Signal Age Test Suite
+ *
+ * Tests the signal time and age checks:
+ * 1. Alert timestamps parse as ISO 8601, epoch seconds or epoch milliseconds
+ * 2. The alert time wins over the bar time; a bar time counts from the bar close
+ * 3. Signals past their timeframe's max age are stale, signals without a time are not checked
+ */
+
+import { checkSignalAge, getSignalTime, parseSignalTime } from './signal-age';
+import { MAX_SIGNAL_AGE_SECONDS } from '../../lib/config/constants';
+
+describe('parseSignalTime', () => {
+  it('should parse ISO 8601 and epoch timestamps', () => {
+    const expected = '2025-01-01T12:00:00.000Z';
+
+    expect(parseSignalTime('2025-01-01T12:00:00Z')?.toISOString()).toBe(expected);
+    expect(parseSignalTime('1735732800')?.toISOString()).toBe(expected);
+    expect(parseSignalTime('1735732800000')?.toISOString()).toBe(expected);
+  });
+
+  it('should reject unparsable values', () => {
+    expect(parseSignalTime('{{timenow}}')).toBeNull();
+  });
+});
+
+describe('getSignalTime', () => {
+  it('should prefer the alert time', () => {
+    const time = getSignalTime({ alertTime: '2025-01-01T12:00:00Z', barTime: '2025-01-01T11:00:00Z', timeframe: '30' });
+
+    expect(time?.toISOString()).toBe('2025-01-01T12:00:00.000Z');
+  });
+
+  it('should use the bar close for a bar time', () => {
+    const time = getSignalTime({ barTime: '2025-01-01T11:00:00Z', timeframe: '60' });
+
+    expect(time?.toISOString()).toBe('2025-01-01T12:00:00.000Z');
+  });
+
+  it('should return null without a usable time', () => {
+    expect(getSignalTime({ timeframe: '30' })).toBeNull();
+    expect(getSignalTime({ barTime: '2025-01-01T11:00:00Z', timeframe: 'D' })).toBeNull();
+  });
+});
+
+describe('checkSignalAge', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+  const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000).toISOString();
+
+  it('should reject a signal older than its timeframe allows', () => {
+    const limit = MAX_SIGNAL_AGE_SECONDS['30'];
+
+    expect(checkSignalAge({ alertTime: secondsAgo(limit - 1), timeframe: '30' }, now)?.stale).toBe(false);
+    expect(checkSignalAge({ alertTime: secondsAgo(limit + 1), timeframe: '30' }, now)?.stale).toBe(true);
+  });
+
+  it('should allow longer-timeframe signals to be older', () => {
+    const age = MAX_SIGNAL_AGE_SECONDS['30'] + 1;
+
+    expect(checkSignalAge({ alertTime: secondsAgo(age), timeframe: '240' }, now)?.stale).toBe(false);
+  });
+
+  it('should treat a future signal time as fresh', () => {
+    expect(checkSignalAge({ alertTime: secondsAgo(-30), timeframe: '30' }, now)?.ageSeconds).toBe(0);
+  });
+
+  it('should not check a signal without a time', () => {
+    expect(checkSignalAge({ timeframe: '30' }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { TradingViewWebhook } from './trade-pipeline';
+import { MAX_SIGNAL_AGE_SECONDS, DEFAULT_MAX_SIGNAL_AGE_SECONDS } from '../../lib/config/constants';
+
+/**
+ * Signal Age
+ *
+ * A queued or retried alert can reach the pipeline minutes after it fired.
+ * The signal time is taken from the alert itself:
+ *   alertTime - {{timenow}}, when the alert fired
+ *   barTime   - {{time}}, the bar's open time; the signal time is the bar close
+ *               (open + timeframe minutes), for numeric timeframes only
+ *
+ * It is stored as trades.webhook_timestamp (NOW() when the alert carries
+ * neither), and a signal older than its timeframe's MAX_SIGNAL_AGE_SECONDS
+ * when it executes is rejected as stale.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SignalAge {
+  signalTime: Date;
+  ageSeconds: number;
+  maxAgeSeconds: number;
+  stale: boolean;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Parses an alert timestamp: ISO 8601, or epoch seconds / milliseconds.
+ *
+ * @returns The time, or null if unparsable
+ */
+export function parseSignalTime(value: string): Date | null {
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const epoch = parseFloat(trimmed);
+    // Epoch seconds until the year 5138, milliseconds after
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch);
+  }
+
+  const time = new Date(trimmed);
+  return isNaN(time.getTime()) ? null : time;
+}
+
+/**
+ * Time the signal was generated: alert time, else bar close time, else null.
+ */
+export function getSignalTime(signal: Pick<TradingViewWebhook, 'alertTime' | 'barTime' | 'timeframe'>): Date | null {
+  if (signal.alertTime) {
+    return parseSignalTime(signal.alertTime);
+  }
+
+  if (signal.barTime && /^\d+$/.test(signal.timeframe)) {
+    const barOpen = parseSignalTime(signal.barTime);
+    return barOpen ? new Date(barOpen.getTime() + parseInt(signal.timeframe, 10) * 60_000) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Max signal age for a timeframe, or the default
+ */
+export function getMaxSignalAge(timeframe: string): number {
+  return MAX_SIGNAL_AGE_SECONDS[timeframe] ?? DEFAULT_MAX_SIGNAL_AGE_SECONDS;
+}
+
+/**
+ * Age of a signal against its timeframe's limit, or null if the signal carries
+ * no usable time. A time in the future (clock skew) counts as age 0.
+ */
+export function checkSignalAge(
+  signal: Pick<TradingViewWebhook, 'alertTime' | 'barTime' | 'timeframe'>,
+  now: Date = new Date()
+): SignalAge | null {
+  const signalTime = getSignalTime(signal);
+  if (!signalTime) {
+    return null;
+  }
+
+  const ageSeconds = Math.max(0, (now.getTime() - signalTime.getTime()) / 1000);
+  const maxAgeSeconds = getMaxSignalAge(signal.timeframe);
+
+  return { signalTime, ageSeconds, maxAgeSeconds, stale: ageSeconds > maxAgeSeconds };
+}
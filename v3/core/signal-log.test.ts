@@ -0,0 +1,65 @@
+/**
+ * Signal Log Test Suite
+ *
+ * Tests what is stored with a signal:
+ * 1. Headers of interest are kept, multi-value headers joined
+ * 2. Signatures and API keys are never stored
+ * 3. Credential fields in JSON and plain-text payloads are redacted
+ */
+
+import { pickSignalHeaders, redactPayload } from './signal-log';
+
+describe('pickSignalHeaders', () => {
+  it('should keep headers of interest', () => {
+    const headers = pickSignalHeaders({
+      'content-type': 'text/plain; charset=utf-8',
+      'user-agent': 'Go-http-client/1.1',
+      'x-webhook-key-id': 'relay-1a2b3c4d',
+      'x-forwarded-for': ['52.89.214.238', '10.0.0.1'] as any,
+      accept: '*/*',
+    });
+
+    expect(headers).toEqual({
+      'content-type': 'text/plain; charset=utf-8',
+      'user-agent': 'Go-http-client/1.1',
+      'x-webhook-key-id': 'relay-1a2b3c4d',
+      'x-forwarded-for': '52.89.214.238, 10.0.0.1',
+    });
+  });
+
+  it('should never keep credentials', () => {
+    const headers = pickSignalHeaders({
+      'x-api-key': 'secret',
+      'x-webhook-signature': 'abc123',
+      'x-admin-key': 'secret',
+    });
+
+    expect(headers).toEqual({});
+  });
+});
+
+describe('redactPayload', () => {
+  it('should redact credential fields of a JSON payload at any depth', () => {
+    const payload = redactPayload(
+      JSON.stringify({ symbol: 'SOLUSD', apiKey: 'k1', auth: { email_token: 't1', Secret: 's1' }, legs: [{ api_key: 'k2' }] })
+    );
+
+    expect(JSON.parse(payload!)).toEqual({
+      symbol: 'SOLUSD',
+      apiKey: '[redacted]',
+      auth: { email_token: '[redacted]', Secret: '[redacted]' },
+      legs: [{ api_key: '[redacted]' }],
+    });
+  });
+
+  it('should redact name=value pairs of other payloads', () => {
+    expect(redactPayload('BUY SOLUSD 30 secret=hunter2&api_key: abc')).toBe(
+      'BUY SOLUSD 30 secret=[redacted]&api_key: [redacted]'
+    );
+  });
+
+  it('should leave payloads without credentials alone', () => {
+    expect(redactPayload('BUY SOLUSD')).toBe('BUY SOLUSD');
+    expect(redactPayload(null)).toBeNull();
+  });
+});
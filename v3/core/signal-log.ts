@@ -0,0 +1,347 @@
+import { IncomingHttpHeaders } from 'http';
+import { query } from '../../lib/db/client';
+import { TradingViewWebhook } from './trade-pipeline';
+
+/**
+ * Signal Log
+ *
+ * Every /webhook request that passes the ingress checks is stored in `signals`
+ * before authentication: raw payload, headers of interest, then the key,
+ * parse result, route and the webhook's response as the request is handled.
+ * Requests refused by the ingress checks are in `webhook_requests` instead.
+ *
+ * Credentials senders put in the body (SECRET_PAYLOAD_FIELDS) are redacted
+ * before the payload is stored, and the payload of a request that fails
+ * authentication is cut to UNAUTHENTICATED_PAYLOAD_CHARS.
+ *
+ * Queued signals carry their id into the trade job (ExecuteOptions.signalId),
+ * so trades record it in trades.signal_id - including signals rejected by the
+ * pipeline's own checks.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SignalStatus = 'received' | 'queued' | 'rejected' | 'duplicate' | 'error';
+
+export const SIGNAL_STATUSES: SignalStatus[] = ['received', 'queued', 'rejected', 'duplicate', 'error'];
+
+export interface ReceivedSignal {
+  ip: string | null;
+  headers: IncomingHttpHeaders;
+  rawPayload: string | null;
+}
+
+/**
+ * What the webhook learned about a signal (fields are set as far as it got)
+ */
+export interface SignalContext {
+  keyId?: string;
+  parser?: string;
+  signal?: TradingViewWebhook;
+  parseErrors?: { field: string; message: string }[];
+  routeId?: number;
+  walletId?: number;
+}
+
+export interface SignalOutcome {
+  status: Exclude<SignalStatus, 'received'>;
+  responseStatus: number;
+  rejectionReason?: string | null; // ErrorResponse reason
+  error?: string | null;
+  jobIds?: number[];
+}
+
+export interface SignalRecord {
+  id: number;
+  receivedAt: Date;
+  ip: string | null;
+  headers: Record<string, string>;
+  rawPayload: string | null;
+  keyId: string | null;
+  parser: string | null;
+  parsed: TradingViewWebhook | null;
+  parseErrors: { field: string; message: string }[] | null;
+  symbol: string | null;
+  action: string | null;
+  timeframe: string | null;
+  routeId: number | null;
+  walletId: number | null;
+  status: SignalStatus;
+  rejectionReason: string | null;
+  error: string | null;
+  responseStatus: number | null;
+  jobIds: number[];
+  completedAt: Date | null;
+}
+
+export interface SignalFilters {
+  status?: SignalStatus;
+  reason?: string;
+  symbol?: string;
+  keyId?: string;
+  beforeId?: number; // Paging: signals with a lower id
+  limit?: number;
+}
+
+/**
+ * Trade jobs and trades produced by a signal
+ */
+export interface SignalExecution {
+  jobs: { id: number; status: string; resultStatus: number | null; reason: string | null; tradeId: number | null }[];
+  trades: { id: number; status: string; rejectionReason: string | null; error: string | null; signature: string | null }[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Headers worth keeping to debug a sender; signatures and API keys are never stored
+const SIGNAL_HEADERS = [
+  'content-type',
+  'content-length',
+  'user-agent',
+  'x-forwarded-for',
+  'x-webhook-key-id',
+  'x-webhook-timestamp',
+];
+
+// Body fields holding credentials (matched case-insensitively, at any depth)
+const SECRET_PAYLOAD_FIELDS = ['email_token', 'apikey', 'api_key', 'secret'];
+const REDACTED = '[redacted]';
+
+export const UNAUTHENTICATED_PAYLOAD_CHARS = 1024; // Payload kept for a request that failed authentication
+
+const MAX_LIST_LIMIT = 200;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Headers of interest from a request, lower-cased, multi-value headers joined
+ */
+export function pickSignalHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of SIGNAL_HEADERS) {
+    const value = headers[name];
+    if (value !== undefined) {
+      picked[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Payload with credential fields replaced by '[redacted]'. JSON bodies are
+ * redacted field by field (and re-serialized); other bodies have `name=value`
+ * and `name: value` pairs redacted.
+ */
+export function redactPayload(rawPayload: string | null): string | null {
+  if (rawPayload === null) {
+    return null;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawPayload);
+  } catch {
+    body = undefined;
+  }
+
+  if (body !== null && typeof body === 'object') {
+    const redact = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(redact);
+      }
+      if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, field]) => [
+            key,
+            SECRET_PAYLOAD_FIELDS.includes(key.toLowerCase()) ? REDACTED : redact(field),
+          ])
+        );
+      }
+      return value;
+    };
+    return JSON.stringify(redact(body));
+  }
+
+  const pair = new RegExp(`\\b(${SECRET_PAYLOAD_FIELDS.join('|')})(\\s*[=:]\\s*)[^\\s&,;]+`, 'gi');
+  return rawPayload.replace(pair, `$1$2${REDACTED}`);
+}
+
+// ============================================================================
+// Signal Log Class
+// ============================================================================
+
+export class SignalLog {
+  /**
+   * Stores an incoming request before it is authenticated.
+   *
+   * @returns The signal id
+   */
+  async receive(params: ReceivedSignal): Promise<number> {
+    const res = await query(
+      `INSERT INTO signals (ip, headers, raw_payload)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [params.ip, JSON.stringify(pickSignalHeaders(params.headers)), redactPayload(params.rawPayload)]
+    );
+
+    return res.rows[0].id;
+  }
+
+  /**
+   * Records how far the webhook got with a signal and what it answered. The
+   * payload of a request that failed authentication is truncated.
+   */
+  async complete(signalId: number, context: SignalContext, outcome: SignalOutcome): Promise<void> {
+    const signal = context.signal;
+    const payloadChars = outcome.rejectionReason === 'authentication_failed' ? UNAUTHENTICATED_PAYLOAD_CHARS : null;
+
+    await query(
+      `UPDATE signals
+       SET key_id = $2, parser = $3, parsed_json = $4, parse_errors = $5,
+           symbol = $6, action = $7, timeframe = $8, route_id = $9, wallet_id = $10,
+           status = $11, rejection_reason = $12, error = $13, response_status = $14, job_ids = $15,
+           raw_payload = CASE WHEN $16::int IS NULL THEN raw_payload ELSE LEFT(raw_payload, $16::int) END,
+           completed_at = NOW()
+       WHERE id = $1`,
+      [
+        signalId,
+        context.keyId ?? null,
+        context.parser ?? null,
+        signal ? JSON.stringify(signal) : null,
+        context.parseErrors ? JSON.stringify(context.parseErrors) : null,
+        signal?.symbol || null,
+        signal?.action ?? null,
+        signal?.timeframe || null,
+        context.routeId ?? null,
+        context.walletId ?? null,
+        outcome.status,
+        outcome.rejectionReason ?? null,
+        outcome.error ?? null,
+        outcome.responseStatus,
+        outcome.jobIds ?? null,
+        payloadChars,
+      ]
+    );
+  }
+
+  /**
+   * Lists signals, newest first.
+   */
+  async list(filters: SignalFilters = {}): Promise<SignalRecord[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.reason) {
+      values.push(filters.reason);
+      conditions.push(`rejection_reason = $${values.length}`);
+    }
+    if (filters.symbol) {
+      values.push(filters.symbol);
+      conditions.push(`symbol = $${values.length}`);
+    }
+    if (filters.keyId) {
+      values.push(filters.keyId);
+      conditions.push(`key_id = $${values.length}`);
+    }
+    if (filters.beforeId) {
+      values.push(filters.beforeId);
+      conditions.push(`id < $${values.length}`);
+    }
+
+    values.push(Math.min(filters.limit || 50, MAX_LIST_LIMIT));
+
+    const res = await query(
+      `SELECT * FROM signals
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY id DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return res.rows.map((row) => this.mapSignal(row));
+  }
+
+  /**
+   * Loads one signal, or null if unknown.
+   */
+  async get(signalId: number): Promise<SignalRecord | null> {
+    const res = await query('SELECT * FROM signals WHERE id = $1', [signalId]);
+    return res.rows.length > 0 ? this.mapSignal(res.rows[0]) : null;
+  }
+
+  /**
+   * Jobs queued for a signal and the trades they created.
+   */
+  async getExecution(signal: SignalRecord): Promise<SignalExecution> {
+    const jobs = await query(
+      `SELECT id, status, result_status, result_json->>'reason' AS reason, trade_id
+       FROM trade_jobs
+       WHERE id = ANY($1::int[])
+       ORDER BY id`,
+      [signal.jobIds]
+    );
+
+    const trades = await query(
+      `SELECT id, status, rejection_reason, error_message, signature
+       FROM trades
+       WHERE signal_id = $1
+       ORDER BY id`,
+      [signal.id]
+    );
+
+    return {
+      jobs: jobs.rows.map((row) => ({
+        id: row.id,
+        status: row.status,
+        resultStatus: row.result_status,
+        reason: row.reason,
+        tradeId: row.trade_id,
+      })),
+      trades: trades.rows.map((row) => ({
+        id: row.id,
+        status: row.status,
+        rejectionReason: row.rejection_reason,
+        error: row.error_message,
+        signature: row.signature,
+      })),
+    };
+  }
+
+  private mapSignal(row: any): SignalRecord {
+    return {
+      id: row.id,
+      receivedAt: row.received_at,
+      ip: row.ip,
+      headers: row.headers || {},
+      rawPayload: row.raw_payload,
+      keyId: row.key_id,
+      parser: row.parser,
+      parsed: row.parsed_json,
+      parseErrors: row.parse_errors,
+      symbol: row.symbol,
+      action: row.action,
+      timeframe: row.timeframe,
+      routeId: row.route_id,
+      walletId: row.wallet_id,
+      status: row.status,
+      rejectionReason: row.rejection_reason,
+      error: row.error,
+      responseStatus: row.response_status,
+      jobIds: row.job_ids || [],
+      completedAt: row.completed_at,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const signalLog = new SignalLog();
@@ -0,0 +1,42 @@
+/**
+ * Signal Price Test Suite
+ *
+ * Tests the pure price comparisons:
+ * 1. Pair limits apply in either direction, with a default for unknown pairs
+ * 2. Divergence is absolute, relative to the oracle price
+ * 3. Shortfall is positive when the fill was worse than the alert, per side
+ */
+
+import { getPriceDeviationLimit, priceDeviationBps, signalShortfallBps } from './signal-price';
+import { PRICE_DEVIATION_LIMITS, DEFAULT_MAX_PRICE_DEVIATION_BPS } from '../../lib/config/constants';
+
+describe('getPriceDeviationLimit', () => {
+  it('should use the pair limit in either direction', () => {
+    expect(getPriceDeviationLimit('SOL', 'USDC')).toBe(PRICE_DEVIATION_LIMITS['USDC/SOL']);
+    expect(getPriceDeviationLimit('FARTCOIN', 'SOL')).toBe(PRICE_DEVIATION_LIMITS['SOL/FARTCOIN']);
+  });
+
+  it('should fall back to the default for unknown pairs', () => {
+    expect(getPriceDeviationLimit('BONK', 'SOL')).toBe(DEFAULT_MAX_PRICE_DEVIATION_BPS);
+  });
+});
+
+describe('priceDeviationBps', () => {
+  it('should measure the divergence in either direction', () => {
+    expect(priceDeviationBps(101, 100)).toBeCloseTo(100);
+    expect(priceDeviationBps(99, 100)).toBeCloseTo(100);
+    expect(priceDeviationBps(100, 100)).toBe(0);
+  });
+});
+
+describe('signalShortfallBps', () => {
+  it('should be positive when a BUY paid more than the alert price', () => {
+    expect(signalShortfallBps('BUY', 100, 101)).toBeCloseTo(100);
+    expect(signalShortfallBps('BUY', 100, 99)).toBeCloseTo(-100);
+  });
+
+  it('should be positive when a SELL got less than the alert price', () => {
+    expect(signalShortfallBps('SELL', 100, 99)).toBeCloseTo(100);
+    expect(signalShortfallBps('SELL', 100, 101)).toBeCloseTo(-100);
+  });
+});
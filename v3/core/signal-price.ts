@@ -0,0 +1,114 @@
+import { PriceSource } from './ports';
+import { PRICE_DEVIATION_LIMITS, DEFAULT_MAX_PRICE_DEVIATION_BPS } from '../../lib/config/constants';
+import { Logger } from '../../lib/log/logger';
+
+/**
+ * Signal Price Check
+ *
+ * An alert's `price` is the USD price of the route's asset token on the chart
+ * that fired it (SOLUSD, FARTCOINUSDT, ...). Before sizing and quoting it is
+ * compared with the PriceOracle price; a divergence above the pair's
+ * PRICE_DEVIATION_LIMITS (bad ticker, stale chart, wrong exchange feed)
+ * rejects the signal. Alerts without a price (or price 0) are not checked. If
+ * the oracle has no price the check is skipped with a warning - quote
+ * validation still applies.
+ *
+ * Once filled, the fill price is converted to USD with the funding token's
+ * oracle price and compared with the alert price: the signal shortfall, in bps,
+ * positive when the fill was worse than the alert.
+ */
+
+const logger = new Logger('price');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SignalPriceParams {
+  assetToken: string; // Bought on BUY, sold on SELL
+  fundingToken: string;
+  signalPrice: number; // Alert price, USD per asset token
+}
+
+export interface SignalPrices {
+  signalPrice: number;
+  assetUsd: number | null; // Oracle prices at check time (null = unavailable)
+  fundingUsd: number | null;
+}
+
+export type SignalPriceResult =
+  | { success: true; prices: SignalPrices }
+  | { success: false; prices: SignalPrices; deviationBps: number; maxDeviationBps: number; error: string };
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Price divergence limit for a pair (either direction), or the default
+ */
+export function getPriceDeviationLimit(assetToken: string, fundingToken: string): number {
+  return (
+    PRICE_DEVIATION_LIMITS[`${fundingToken}/${assetToken}`] ??
+    PRICE_DEVIATION_LIMITS[`${assetToken}/${fundingToken}`] ??
+    DEFAULT_MAX_PRICE_DEVIATION_BPS
+  );
+}
+
+/**
+ * Absolute divergence of the alert price from the oracle price, in bps
+ */
+export function priceDeviationBps(signalPrice: number, oraclePrice: number): number {
+  return (Math.abs(signalPrice - oraclePrice) / oraclePrice) * 10000;
+}
+
+/**
+ * Fill vs alert price in bps: positive when a BUY paid more, or a SELL got
+ * less, than the alert price
+ */
+export function signalShortfallBps(side: 'BUY' | 'SELL', signalPrice: number, fillPriceUsd: number): number {
+  const shortfall = side === 'BUY' ? fillPriceUsd - signalPrice : signalPrice - fillPriceUsd;
+  return (shortfall / signalPrice) * 10000;
+}
+
+// ============================================================================
+// Signal Price Guard Class
+// ============================================================================
+
+export class SignalPriceGuard {
+  constructor(private priceSource: PriceSource) {}
+
+  /**
+   * Compares the alert price with the oracle price of the asset token.
+   * Also returns the funding token's price for the shortfall after the fill.
+   */
+  async check(params: SignalPriceParams): Promise<SignalPriceResult> {
+    const { assetToken, fundingToken, signalPrice } = params;
+    const oracle = await this.priceSource.getPrices([assetToken, fundingToken]);
+    const prices: SignalPrices = {
+      signalPrice,
+      assetUsd: oracle[assetToken] || null,
+      fundingUsd: oracle[fundingToken] || null,
+    };
+
+    if (prices.assetUsd === null) {
+      logger.warn(`No oracle price for ${assetToken}, alert price ${signalPrice} not checked`);
+      return { success: true, prices };
+    }
+
+    const deviationBps = priceDeviationBps(signalPrice, prices.assetUsd);
+    const maxDeviationBps = getPriceDeviationLimit(assetToken, fundingToken);
+
+    if (deviationBps > maxDeviationBps) {
+      return {
+        success: false,
+        prices,
+        deviationBps,
+        maxDeviationBps,
+        error: `Alert price ${signalPrice} is ${deviationBps.toFixed(0)}bps from the ${assetToken} oracle price ${prices.assetUsd} (max ${maxDeviationBps}bps)`,
+      };
+    }
+
+    return { success: true, prices };
+  }
+}
@@ -0,0 +1,158 @@
+import { query, withAdvisoryLock, LOCK_NAMESPACES } from '../../lib/db/client';
+import { IDEMPOTENCY_WINDOW_SECONDS } from '../../lib/config/constants';
+import { RouteRegistry, routeRegistry } from './route-registry';
+import { TradingHalts, tradingHalts } from './trading-halts';
+import { TradeLifecycle, tradeLifecycle } from './trade-lifecycle';
+import { TradeAttempts, tradeAttempts } from './trade-attempts';
+import { TradeSlices, tradeSlices } from './trade-slices';
+import { PositionTracker, positionTracker } from './position-tracker';
+import { PaperLedger, paperLedger } from './paper-trading';
+import { SizingPolicyStore, sizingPolicyStore } from './position-sizing';
+import { RiskStore, riskStore } from './risk-limits';
+import { SignalLog, signalLog } from './signal-log';
+import { IdempotencyStore } from './idempotency';
+import { TradeJobQueue, tradeJobQueue } from './job-queue';
+import { WebhookKeyStore, webhookKeyStore } from './webhook-keys';
+
+/**
+ * Storage
+ *
+ * Everything the webhook and the trade pipeline read or write in the database,
+ * narrowed to the methods they call. `pgStorage` is the Postgres implementation
+ * built from the store singletons; v3/testing/memory-storage.ts keeps the same
+ * state in memory for offline tests.
+ *
+ * Admin, analytics and metrics endpoints query Postgres directly and are not
+ * covered.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface BalanceCheckParams {
+  walletId: number;
+  token: string;
+  onchainBalance: number;
+}
+
+export interface BalanceCheckStore {
+  record(params: BalanceCheckParams): Promise<void>;
+}
+
+/**
+ * A /webhook request refused by the ingress checks (webhook_requests row)
+ */
+export interface BlockedRequest {
+  ip: string;
+  keyId: string | null;
+  reason: string;
+  detail: string;
+  method: string;
+  path: string;
+  contentLength: number | null;
+  userAgent: string | null;
+}
+
+export interface WebhookRequestStore {
+  record(request: BlockedRequest): Promise<void>;
+}
+
+/**
+ * Handle on a held wallet lock (see Storage.withWalletLock)
+ */
+export interface WalletLock {
+  /**
+   * Runs fn with the lock released and takes it again before returning.
+   */
+  pause<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+export interface Storage {
+  routes: Pick<RouteRegistry, 'resolve' | 'findForPosition'>;
+  halts: Pick<TradingHalts, 'findActive' | 'halt'>;
+  trades: Pick<TradeLifecycle, 'recordPending' | 'recordRejected' | 'transition'>;
+  attempts: Pick<TradeAttempts, 'record' | 'finish'>;
+  slices: Pick<TradeSlices, 'plan' | 'fill' | 'fail'>;
+  positions: Pick<
+    PositionTracker,
+    'getOpenPosition' | 'listOpenPositions' | 'recordBuy' | 'recordSell' | 'flagIssue'
+  >;
+  paperLedger: Pick<PaperLedger, 'isPaperWallet' | 'getBalance' | 'applyFill'>;
+  sizingPolicies: Pick<SizingPolicyStore, 'getPolicy'>;
+  risk: Pick<RiskStore, 'getLimits' | 'getActivity'>;
+  balanceChecks: BalanceCheckStore;
+  signals: Pick<SignalLog, 'receive' | 'complete'>;
+  idempotency: Pick<IdempotencyStore, 'claim' | 'complete' | 'release'>;
+  jobs: Pick<TradeJobQueue, 'enqueue' | 'getJob' | 'claimNext' | 'complete' | 'retry' | 'reclaimExpired'>;
+  webhookKeys: Pick<WebhookKeyStore, 'getUsableKeys' | 'touchKey'>;
+  webhookRequests: WebhookRequestStore;
+
+  /**
+   * Runs fn while holding the wallet's execution lock, so concurrent signals
+   * never trade the same balance. fn may pause the lock while it waits.
+   */
+  withWalletLock<T>(walletId: number, fn: (lock: WalletLock) => Promise<T>): Promise<T>;
+
+  /**
+   * @throws if the store is unreachable (health check)
+   */
+  checkConnection(): Promise<void>;
+}
+
+// ============================================================================
+// Postgres Implementation
+// ============================================================================
+
+const pgBalanceChecks: BalanceCheckStore = {
+  async record(params: BalanceCheckParams): Promise<void> {
+    await query(
+      `INSERT INTO balance_checks (wallet_id, token, db_balance, onchain_balance, discrepancy, is_mismatch)
+       VALUES ($1, $2, $3, $4, 0, false)`,
+      [params.walletId, params.token, 0, params.onchainBalance]
+    );
+  },
+};
+
+const pgWebhookRequests: WebhookRequestStore = {
+  async record(request: BlockedRequest): Promise<void> {
+    await query(
+      `INSERT INTO webhook_requests (ip, key_id, reason, detail, method, path, content_length, user_agent)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        request.ip,
+        request.keyId,
+        request.reason,
+        request.detail,
+        request.method,
+        request.path,
+        request.contentLength,
+        request.userAgent,
+      ]
+    );
+  },
+};
+
+export const pgStorage: Storage = {
+  routes: routeRegistry,
+  halts: tradingHalts,
+  trades: tradeLifecycle,
+  attempts: tradeAttempts,
+  slices: tradeSlices,
+  positions: positionTracker,
+  paperLedger,
+  sizingPolicies: sizingPolicyStore,
+  risk: riskStore,
+  balanceChecks: pgBalanceChecks,
+  signals: signalLog,
+  idempotency: new IdempotencyStore(IDEMPOTENCY_WINDOW_SECONDS),
+  jobs: tradeJobQueue,
+  webhookKeys: webhookKeyStore,
+  webhookRequests: pgWebhookRequests,
+
+  withWalletLock: (walletId, fn) => withAdvisoryLock(LOCK_NAMESPACES.WALLET_EXECUTION, walletId, fn),
+
+  async checkConnection(): Promise<void> {
+    await query('SELECT 1');
+  },
+};
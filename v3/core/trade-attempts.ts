@@ -0,0 +1,138 @@
+import { query, transaction } from '../../lib/db/client';
+import { QuoteResult } from '../dex/jupiter';
+
+/**
+ * Trade Attempts
+ *
+ * Each quote taken for a trade is one row in `trade_attempts`, so re-quotes
+ * after an expired quote or a slippage rejection keep their history. The
+ * trade's quote_json always holds the latest accepted quote. Attempts of a
+ * sliced (TWAP) trade are numbered across the whole trade and tagged with
+ * their slice.
+ *
+ * Attempt statuses:
+ *   quoted         - quote accepted, fill not finished yet
+ *   quote_rejected - quote exceeded the slippage limit
+ *   quote_failed   - no quote (API error or other validation failure)
+ *   drift_exceeded - price moved too far from the first quote
+ *   expired        - quote expired or failed re-validation before sending
+ *   filled         - swap verified / paper fill applied
+ *   failed         - swap or verification failed
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type AttemptStatus =
+  | 'quoted'
+  | 'quote_rejected'
+  | 'quote_failed'
+  | 'drift_exceeded'
+  | 'expired'
+  | 'filled'
+  | 'failed';
+
+export interface RecordAttemptParams {
+  tradeId: number;
+  attempt: number;
+  slice?: number; // Child swap of a sliced trade
+  status: AttemptStatus;
+  quote?: QuoteResult | null;
+  driftBps?: number | null;
+  error?: string;
+}
+
+export interface TradeAttempt {
+  id: number;
+  tradeId: number;
+  attempt: number;
+  slice: number | null;
+  status: AttemptStatus;
+  quotedOutAmount: string | null;
+  driftBps: number | null;
+  signature: string | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Trade Attempts Class
+// ============================================================================
+
+export class TradeAttempts {
+  /**
+   * Records an attempt. An accepted quote also becomes the trade's quote_json.
+   *
+   * @returns The attempt id
+   */
+  async record(params: RecordAttemptParams): Promise<number> {
+    const { tradeId, attempt, slice, status, quote, driftBps, error } = params;
+
+    return transaction(async (client) => {
+      const res = await client.query(
+        `INSERT INTO trade_attempts (trade_id, attempt, status, quote_json, quoted_out_amount, drift_bps, error_message, slice)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [
+          tradeId,
+          attempt,
+          status,
+          quote ? JSON.stringify(quote) : null,
+          quote ? quote.outAmount : null,
+          driftBps ?? null,
+          error || null,
+          slice ?? null,
+        ]
+      );
+
+      // A slice quote is for part of the input - the trade keeps its full-size quote
+      if (status === 'quoted' && quote && slice === undefined) {
+        await client.query('UPDATE trades SET quote_json = $2 WHERE id = $1', [tradeId, JSON.stringify(quote)]);
+      }
+
+      return res.rows[0].id;
+    });
+  }
+
+  /**
+   * Records how a quoted attempt ended.
+   */
+  async finish(
+    attemptId: number,
+    status: Exclude<AttemptStatus, 'quoted'>,
+    data: { signature?: string; error?: string } = {}
+  ): Promise<void> {
+    await query(
+      `UPDATE trade_attempts
+       SET status = $2, signature = COALESCE($3, signature), error_message = COALESCE($4, error_message)
+       WHERE id = $1`,
+      [attemptId, status, data.signature || null, data.error || null]
+    );
+  }
+
+  /**
+   * Lists a trade's attempts in order.
+   */
+  async list(tradeId: number): Promise<TradeAttempt[]> {
+    const res = await query('SELECT * FROM trade_attempts WHERE trade_id = $1 ORDER BY attempt', [tradeId]);
+
+    return res.rows.map((row) => ({
+      id: row.id,
+      tradeId: row.trade_id,
+      attempt: row.attempt,
+      slice: row.slice,
+      status: row.status,
+      quotedOutAmount: row.quoted_out_amount,
+      driftBps: row.drift_bps !== null ? parseFloat(row.drift_bps) : null,
+      signature: row.signature,
+      error: row.error_message,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+}
+
+// Export singleton instance for convenience
+export const tradeAttempts = new TradeAttempts();
@@ -0,0 +1,289 @@
+import { query, transaction } from '../../lib/db/client';
+import { TradeStatus, ExitTrigger, TradeTransitionError, isValidTradeTransition } from './types';
+import { SizingDecision } from './position-sizing';
+
+/**
+ * Trade Lifecycle
+ *
+ * Every change to trades.status goes through transition(), which locks the
+ * trade row, rejects moves not allowed by TRADE_STATUS_TRANSITIONS and appends
+ * a row to `trade_events` in the same transaction. The events table is the
+ * audit history: the trades row only keeps the latest status.
+ *
+ * Actors: 'pipeline' for the trade pipeline, 'webhook' for signals rejected
+ * before queueing, 'recovery' for the stuck trade recovery worker, 'admin' for
+ * manual changes.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface TransitionData {
+  signature?: string;
+  inputAmount?: number; // Amount actually spent (replaces the sized amount)
+  outputAmount?: number;
+  actualSlippage?: number;
+  error?: string;
+  reason?: string;
+  quoteJson?: any;
+  verificationJson?: any;
+  signalShortfallBps?: number;
+}
+
+export interface PendingTradeParams {
+  walletId: number;
+  symbol: string;
+  action: string; // Swap side (BUY or SELL)
+  signalAction: string; // Alert action, e.g. CLOSE
+  timeframe: string;
+  inputToken: string;
+  outputToken: string;
+  inputAmount: number;
+  isPaper: boolean;
+  sizing: SizingDecision;
+  exitTrigger: ExitTrigger | null;
+  tvPrice: number | null; // Alert price
+  oraclePrice: number | null; // Oracle USD price of the asset when the alert was checked
+  signalTime: Date | null; // Alert / bar close time (defaults to now)
+  signalId: number | null; // signals row of the inbound request
+  jobId: number | null; // trade_jobs row executing the trade
+}
+
+export interface RejectedTradeParams {
+  walletId: number;
+  symbol: string;
+  action: string; // Swap side (BUY or SELL)
+  signalAction?: string; // Alert action, e.g. CLOSE (defaults to the side)
+  timeframe: string;
+  inputToken: string;
+  outputToken: string;
+  reason: string; // rejection_reason, e.g. 'halted'
+  error: string;
+  tvPrice?: number | null; // Alert price
+  oraclePrice?: number | null; // Oracle USD price of the asset when the alert was checked
+  signalTime?: Date | null; // Alert / bar close time (defaults to now)
+  signalId?: number | null; // signals row of the inbound request
+}
+
+export interface TradeEvent {
+  id: number;
+  tradeId: number;
+  fromStatus: TradeStatus | null; // NULL for the creation event
+  toStatus: TradeStatus;
+  actor: string;
+  payload: Record<string, any> | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Trade Lifecycle Class
+// ============================================================================
+
+export class TradeLifecycle {
+  /**
+   * Moves a trade to a new status, writing the given fields and an event.
+   *
+   * @throws TradeTransitionError if the move is not allowed from the current status
+   * @throws Error if the trade does not exist
+   */
+  async transition(tradeId: number, to: TradeStatus, actor: string, data: TransitionData = {}): Promise<void> {
+    await transaction(async (client) => {
+      const current = await client.query('SELECT status FROM trades WHERE id = $1 FOR UPDATE', [tradeId]);
+      if (current.rows.length === 0) {
+        throw new Error(`Trade not found: ${tradeId}`);
+      }
+
+      const from: TradeStatus = current.rows[0].status;
+      if (!isValidTradeTransition(from, to)) {
+        throw new TradeTransitionError(tradeId, from, to);
+      }
+
+      const updates: string[] = ['status = $2'];
+      const values: any[] = [tradeId, to];
+      let paramIndex = 3;
+
+      if (data.signature) {
+        updates.push(`signature = $${paramIndex++}`);
+        values.push(data.signature);
+        updates.push(`execution_timestamp = COALESCE(execution_timestamp, NOW())`);
+      }
+
+      if (data.inputAmount !== undefined) {
+        updates.push(`input_amount = $${paramIndex++}`);
+        values.push(data.inputAmount);
+      }
+
+      if (data.outputAmount !== undefined) {
+        updates.push(`output_amount = $${paramIndex++}`);
+        values.push(data.outputAmount);
+      }
+
+      if (data.actualSlippage !== undefined) {
+        updates.push(`actual_slippage_pct = $${paramIndex++}`);
+        values.push(data.actualSlippage);
+      }
+
+      if (data.error) {
+        updates.push(`error_message = $${paramIndex++}`);
+        values.push(data.error);
+      }
+
+      if (data.reason) {
+        updates.push(`rejection_reason = $${paramIndex++}`);
+        values.push(data.reason);
+      }
+
+      if (data.quoteJson) {
+        updates.push(`quote_json = $${paramIndex++}`);
+        values.push(JSON.stringify(data.quoteJson));
+      }
+
+      if (data.verificationJson) {
+        updates.push(`verification_json = $${paramIndex++}`);
+        values.push(JSON.stringify(data.verificationJson));
+      }
+
+      if (data.signalShortfallBps !== undefined) {
+        updates.push(`signal_shortfall_bps = $${paramIndex++}`);
+        values.push(data.signalShortfallBps);
+      }
+
+      await client.query(`UPDATE trades SET ${updates.join(', ')} WHERE id = $1`, values);
+      await this.recordEvent(client, tradeId, from, to, actor, data);
+    });
+  }
+
+  /**
+   * Records a trade about to be quoted, created directly in 'pending'.
+   *
+   * @returns The trade id
+   */
+  async recordPending(params: PendingTradeParams, actor: string): Promise<number> {
+    const { walletId, symbol, action, signalAction, timeframe, inputToken, outputToken, inputAmount, isPaper } = params;
+    const { sizing, exitTrigger, tvPrice, oraclePrice, signalTime, signalId, jobId } = params;
+
+    return transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO trades (
+          wallet_id, webhook_timestamp, tv_action, tv_symbol, tv_timeframe,
+          input_token, output_token, input_amount, status, is_paper,
+          sizing_policy, sizing_notional_usd, sizing_json, exit_trigger, signal_action,
+          tv_price, oracle_price, signal_id, job_id
+        ) VALUES ($1, COALESCE($16, NOW()), $2, $3, $4, $5, $6, $7, 'pending', $8, $9, $10, $11, $12, $13, $14, $15, $17, $18)
+        RETURNING id`,
+        [
+          walletId,
+          action,
+          symbol,
+          timeframe,
+          inputToken,
+          outputToken,
+          inputAmount,
+          isPaper,
+          sizing.policy,
+          sizing.notionalUsd,
+          JSON.stringify(sizing),
+          exitTrigger,
+          signalAction,
+          tvPrice,
+          oraclePrice,
+          signalTime,
+          signalId,
+          jobId,
+        ]
+      );
+
+      const tradeId: number = result.rows[0].id;
+      await this.recordEvent(client, tradeId, null, 'pending', actor, {
+        symbol,
+        action: signalAction,
+        timeframe,
+        inputAmount,
+        ...(exitTrigger && { exitTrigger }),
+      });
+      return tradeId;
+    });
+  }
+
+  /**
+   * Records a signal rejected before execution as a trade created directly in
+   * 'failed' (input_amount 0, is_paper from the wallet), so rejections show up
+   * alongside other trades.
+   *
+   * @returns The trade id
+   */
+  async recordRejected(params: RejectedTradeParams, actor: string): Promise<number> {
+    return transaction(async (client) => {
+      const res = await client.query(
+        `INSERT INTO trades (
+          wallet_id, webhook_timestamp, tv_action, tv_symbol, tv_timeframe,
+          input_token, output_token, input_amount, status, is_paper,
+          error_message, rejection_reason, signal_action, tv_price, oracle_price, signal_id
+        ) VALUES (
+          $1, COALESCE($12, NOW()), $2, $3, $4, $5, $6, 0, 'failed',
+          (SELECT paper_mode FROM wallets WHERE id = $1), $7, $8, $9, $10, $11, $13
+        )
+        RETURNING id`,
+        [
+          params.walletId,
+          params.action,
+          params.symbol,
+          params.timeframe,
+          params.inputToken,
+          params.outputToken,
+          params.error,
+          params.reason,
+          params.signalAction || params.action,
+          params.tvPrice ?? null,
+          params.oraclePrice ?? null,
+          params.signalTime ?? null,
+          params.signalId ?? null,
+        ]
+      );
+
+      const tradeId: number = res.rows[0].id;
+      await this.recordEvent(client, tradeId, null, 'failed', actor, { reason: params.reason, error: params.error });
+      return tradeId;
+    });
+  }
+
+  /**
+   * Appends an event inside the caller's transaction. Used directly only for
+   * creation events (from_status NULL).
+   */
+  async recordEvent(
+    client: any,
+    tradeId: number,
+    from: TradeStatus | null,
+    to: TradeStatus,
+    actor: string,
+    payload?: Record<string, any>
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO trade_events (trade_id, from_status, to_status, actor, payload)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [tradeId, from, to, actor, payload && Object.keys(payload).length > 0 ? JSON.stringify(payload) : null]
+    );
+  }
+
+  /**
+   * Returns the full status history of a trade, oldest first.
+   */
+  async getHistory(tradeId: number): Promise<TradeEvent[]> {
+    const res = await query('SELECT * FROM trade_events WHERE trade_id = $1 ORDER BY id', [tradeId]);
+
+    return res.rows.map((row) => ({
+      id: Number(row.id),
+      tradeId: row.trade_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actor: row.actor,
+      payload: row.payload,
+      createdAt: row.created_at,
+    }));
+  }
+}
+
+// Export singleton instance for convenience
+export const tradeLifecycle = new TradeLifecycle();
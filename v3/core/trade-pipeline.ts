@@ -0,0 +1,1430 @@
+/**
+ * Trade Execution Pipeline
+ *
+ * Flow: Route → Halt check → Age check → Validate (incl. risk limits) → Price check → Size → Quote → Execute → Verify → Record → Position → Balance check
+ *
+ * Quote → Execute is retried within the pair's RequotePolicy when the quote
+ * exceeds the slippage limit or expires before the swap is sent.
+ *
+ * Routes with twap options run Quote → Execute → Verify once per child swap
+ * (trade_slices) and record the aggregated fill as the trade's single fill.
+ *
+ * SELLs generated by the exit monitor (stop-loss / take-profit / trailing stop)
+ * run the same flow and are tagged with trades.exit_trigger.
+ *
+ * Paper wallets (wallets.paper_mode) replace Execute → Verify with a simulated
+ * fill against the paper ledger; everything else runs unchanged.
+ *
+ * Runs a parsed TradingView signal end to end. The webhook no longer calls this
+ * inline - signals are queued and executed by the trade job worker.
+ */
+
+import { Keypair } from '@solana/web3.js';
+import { QuoteResult, QuoteValidationError } from '../dex/jupiter';
+import { TransactionVerifier } from '../helius';
+import { Position } from './position-tracker';
+import { SlippageModel, simulateFill } from './paper-trading';
+import { PositionSizer, SizingDecision } from './position-sizing';
+import { TradeRoute } from './route-registry';
+import { TransitionData } from './trade-lifecycle';
+import { TwapConfig, planSlices } from './trade-slices';
+import { describeHalt } from './trading-halts';
+import { RiskEngine } from './risk-limits';
+import { SignalPriceGuard, SignalPrices, signalShortfallBps } from './signal-price';
+import { checkSignalAge } from './signal-age';
+import { TradeStatus, ExitTrigger, signalSide } from './types';
+import { SwapProvider, ChainReader, WalletSigner, Clock, NotificationPublisher } from './ports';
+import { Storage, WalletLock } from './storage';
+import { TOKENS, getMintAddress } from '../../lib/config/tokens';
+import {
+  REQUOTE_POLICIES,
+  DEFAULT_REQUOTE_POLICY,
+  RequotePolicy,
+  TWAP_MAX_WINDOW_SECONDS,
+} from '../../lib/config/constants';
+import { Logger, addLogContext } from '../../lib/log/logger';
+import { tradeStageSeconds, tradeSlippagePct } from '../../lib/metrics/metrics';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const logger = new Logger('pipeline');
+
+const MIN_GAS_RESERVE = 0.01; // SOL - always keep for gas
+const MIN_OUTPUT_AMOUNT = 0.0001; // Minimum output in tokens
+
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface TradingViewWebhook {
+  symbol: string; // SOLUSD, FARTCOIN, FARTBOY, USELESS
+  action: string; // BUY, SELL, CLOSE, ADD (FLATTEN_ALL is expanded into CLOSEs by the webhook)
+  timeframe: string; // 30, 60, 240
+  price: string; // Asset USD price on the alert's chart, checked against the oracle ('0' = not checked)
+  alertId?: string; // Optional: TradingView alert id, used as idempotency key
+  alertTime?: string; // Optional: {{timenow}} (ISO 8601), when the alert fired - rejects stale signals
+  barTime?: string; // Optional: {{time}} of the bar, part of the fallback idempotency key
+  volatility?: string; // Optional: volatility in % (e.g. ATR / close * 100), used by volatility_scaled sizing
+  strategy?: string; // Optional: strategy name, selects strategy-specific routes
+  percent?: string; // Optional: SELL - % of the open position, BUY/ADD - % of the available balance
+  quantity?: string; // Optional: SELL - asset tokens to sell, BUY/ADD - funding tokens to spend
+}
+
+export interface RouteInfo {
+  routeId: number;
+  walletName: string;
+  wallet: Keypair;
+  walletId: number;
+  inputToken: string;
+  outputToken: string;
+  inputMint: string;
+  outputMint: string;
+  paperMode: boolean;
+  maxSlippageBps?: number; // Route override for the quote slippage limit
+  twap?: TwapConfig; // Route executes swaps as sliced child swaps
+}
+
+export interface ErrorResponse {
+  success: false;
+  reason: string;
+  error: string;
+  fields?: { field: string; message: string }[]; // Per-field details for parse_failed
+}
+
+export interface SuccessResponse {
+  success: true;
+  tradeId: number;
+  signature: string;
+  inputAmount: number;
+  outputAmount: number;
+  actualSlippage: number;
+  attempts?: number; // Quote attempts used, when the trade was re-quoted
+  slices?: { planned: number; filled: number }; // Child swaps of a sliced (TWAP) trade
+  paper?: true; // Simulated fill, nothing was sent on-chain
+  position?: { id: number; status: Position['status']; currentAmount: number }; // Position after the trade
+}
+
+/**
+ * Outcome of steps 8-9, from either a verified swap or a simulated paper fill
+ */
+interface ExecutedFill {
+  signature: string;
+  inputAmount: number;
+  outputAmount: number;
+  actualSlippage: number;
+  verificationJson: any;
+}
+
+type FillResult =
+  | { success: true; fill: ExecutedFill }
+  | { success: false; result: PipelineResult; signature?: string }; // signature: sent but not verified
+
+/**
+ * A live swap that was not sent (quote expired or failed re-validation) and may be re-quoted
+ */
+type LiveFillResult = FillResult | { success: false; requote: string };
+
+/**
+ * Outcome of steps 7-9 including re-quotes (and slices for TWAP routes)
+ */
+type QuoteFillResult =
+  | { success: true; fill: ExecutedFill; attempts: number; slices?: { planned: number; filled: number } }
+  | { success: false; result: PipelineResult; signature?: string };
+
+/**
+ * Child swap of a sliced trade. Its attempts continue the trade's numbering
+ * after attemptOffset.
+ */
+interface SliceContext {
+  slice: number;
+  attemptOffset: number;
+}
+
+export interface PipelineResult {
+  statusCode: number;
+  body: SuccessResponse | ErrorResponse;
+  tradeId?: number;
+  retryable?: boolean; // Failed before anything was sent on-chain, safe to run again
+}
+
+export interface ExecuteOptions {
+  keyId?: string; // Webhook key that submitted the signal (for logs)
+  allowedWallets?: string[] | null; // Wallet scope of that key (null = unrestricted)
+  exit?: { trigger: ExitTrigger; positionId: number }; // Set on SELLs generated by the exit monitor
+  signalId?: number; // signals row of the webhook request, stored on the trade
+  jobId?: number; // trade_jobs row being executed, stored on the trade
+}
+
+export interface TradePipelineDeps {
+  chainReader: ChainReader;
+  swapProvider: SwapProvider;
+  walletSigner: WalletSigner;
+  clock: Clock;
+  notifier: NotificationPublisher;
+  storage: Storage; // Routes, halts, trades, positions, paper ledger and the wallet lock
+  transactionVerifier: TransactionVerifier;
+  positionSizer: PositionSizer;
+  riskEngine: RiskEngine;
+  signalPriceGuard: SignalPriceGuard;
+}
+
+export interface TradePipelineConfig {
+  paperSlippage: SlippageModel; // Simulated fills of paper wallets
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Network-level failures that are worth retrying (timeouts, resets, 429, 5xx)
+ */
+export function isTransientError(error: unknown): boolean {
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  return /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|timeout|\b429\b|\b50[0234]\b/i.test(
+    message
+  );
+}
+
+/**
+ * Re-quote policy for a pair (either direction), or the default
+ */
+export function getRequotePolicy(inputSymbol: string, outputSymbol: string): RequotePolicy {
+  return (
+    REQUOTE_POLICIES[`${inputSymbol}/${outputSymbol}`] ||
+    REQUOTE_POLICIES[`${outputSymbol}/${inputSymbol}`] ||
+    DEFAULT_REQUOTE_POLICY
+  );
+}
+
+/**
+ * Adverse move of a quote's price from a reference price, in bps (0 if better)
+ */
+export function quoteDriftBps(referencePrice: number, quote: QuoteResult): number {
+  const price = parseInt(quote.outAmount) / parseInt(quote.inAmount);
+  return Math.max(0, ((referencePrice - price) / referencePrice) * 10000);
+}
+
+/**
+ * CLOSE signal that resolves back to the given route (exits generated by the
+ * server rather than an alert). price is the asset's USD price, as in alerts.
+ */
+export function closeSignal(route: TradeRoute, price?: number): TradingViewWebhook {
+  return {
+    symbol: route.symbol,
+    action: 'CLOSE',
+    timeframe: route.timeframe || '',
+    price: price !== undefined ? price.toString() : '0',
+    strategy: route.strategy || undefined,
+  };
+}
+
+function quotePrice(quote: QuoteResult): number {
+  return parseInt(quote.outAmount) / parseInt(quote.inAmount);
+}
+
+// ============================================================================
+// Trade Pipeline Class
+// ============================================================================
+
+export class TradePipeline {
+  private chainReader: ChainReader;
+  private swapProvider: SwapProvider;
+  private walletSigner: WalletSigner;
+  private clock: Clock;
+  private notifier: NotificationPublisher;
+  private storage: Storage;
+  private transactionVerifier: TransactionVerifier;
+  private positionTracker: Storage['positions'];
+  private paperLedger: Storage['paperLedger'];
+  private positionSizer: PositionSizer;
+  private routeRegistry: Storage['routes'];
+  private tradeLifecycle: Storage['trades'];
+  private tradeAttempts: Storage['attempts'];
+  private tradeSlices: Storage['slices'];
+  private tradingHalts: Storage['halts'];
+  private riskEngine: RiskEngine;
+  private signalPriceGuard: SignalPriceGuard;
+
+  constructor(
+    deps: TradePipelineDeps,
+    private config: TradePipelineConfig
+  ) {
+    this.chainReader = deps.chainReader;
+    this.swapProvider = deps.swapProvider;
+    this.walletSigner = deps.walletSigner;
+    this.clock = deps.clock;
+    this.notifier = deps.notifier;
+    this.storage = deps.storage;
+    this.transactionVerifier = deps.transactionVerifier;
+    this.positionTracker = deps.storage.positions;
+    this.paperLedger = deps.storage.paperLedger;
+    this.positionSizer = deps.positionSizer;
+    this.routeRegistry = deps.storage.routes;
+    this.tradeLifecycle = deps.storage.trades;
+    this.tradeAttempts = deps.storage.attempts;
+    this.tradeSlices = deps.storage.slices;
+    this.tradingHalts = deps.storage.halts;
+    this.riskEngine = deps.riskEngine;
+    this.signalPriceGuard = deps.signalPriceGuard;
+  }
+
+  /**
+   * Execute a parsed signal: route, validate, quote, swap, verify and record.
+   * Never throws - unexpected errors become an internal_error result, retryable
+   * only if nothing was sent on-chain yet.
+   *
+   * @param signal - Parsed TradingView signal
+   * @param options - Caller scopes
+   * @returns Response status and body for the signal
+   */
+  async execute(signal: TradingViewWebhook, options: ExecuteOptions = {}): Promise<PipelineResult> {
+    const state = { swapSubmitted: false };
+
+    try {
+      return await this.executeSignal(signal, options, state);
+    } catch (error) {
+      logger.error('Unexpected error', { error });
+      return {
+        statusCode: 500,
+        retryable: !state.swapSubmitted && isTransientError(error),
+        body: {
+          success: false,
+          reason: 'internal_error',
+          error: error instanceof Error ? error.message : 'Internal server error',
+        },
+      };
+    }
+  }
+
+  private async executeSignal(
+    signal: TradingViewWebhook,
+    options: ExecuteOptions,
+    state: { swapSubmitted: boolean }
+  ): Promise<PipelineResult> {
+    // Step 3: Route to correct wallet
+    const routingResult = await this.routeToWallet(signal);
+    if (!routingResult.success) {
+      logger.error(`Routing failed: ${routingResult.error}`);
+      return {
+        statusCode: 400,
+        body: {
+          success: false,
+          reason: 'routing_failed',
+          error: routingResult.error,
+        } as ErrorResponse,
+      };
+    }
+
+    const route = routingResult.data;
+    addLogContext({ wallet: route.walletName });
+    logger.info(
+      `Routed to wallet: ${route.walletName} via route ${route.routeId} (${route.wallet.publicKey.toString().slice(0, 8)}...)`
+    );
+
+    if (options.allowedWallets && !options.allowedWallets.includes(route.walletName)) {
+      logger.error(`Key ${options.keyId} not scoped for wallet ${route.walletName}`);
+      return {
+        statusCode: 403,
+        body: {
+          success: false,
+          reason: 'key_scope_denied',
+          error: `Key ${options.keyId} is not allowed to trade wallet ${route.walletName}`,
+        } as ErrorResponse,
+      };
+    }
+
+    // Steps 4-12 hold a per-wallet lock: concurrent signals must not trade the same balance
+    logger.info(`Waiting for wallet lock: ${route.walletName}`);
+    return this.storage.withWalletLock(route.walletId, (lock) =>
+      this.executeForWallet(signal, route, state, options, lock)
+    );
+  }
+
+  /**
+   * Validate, quote, swap, verify and record for a routed signal.
+   * Caller must hold the wallet execution lock (paused only between TWAP slices).
+   */
+  private async executeForWallet(
+    signal: TradingViewWebhook,
+    route: RouteInfo,
+    state: { swapSubmitted: boolean },
+    options: ExecuteOptions,
+    lock: WalletLock
+  ): Promise<PipelineResult> {
+    const { symbol, action, timeframe } = signal;
+    const side = signalSide(action);
+    const exitTrigger = options.exit?.trigger || null;
+    const signalAge = checkSignalAge(signal, this.clock.now());
+    const signalTime = signalAge?.signalTime ?? null;
+    const signalId = options.signalId ?? null;
+
+    if (action === 'FLATTEN_ALL') {
+      return {
+        statusCode: 400,
+        body: {
+          success: false,
+          reason: 'invalid_action',
+          error: 'FLATTEN_ALL is expanded into CLOSE signals by the webhook and cannot be executed directly',
+        } as ErrorResponse,
+      };
+    }
+
+    if (exitTrigger) {
+      addLogContext({ positionId: options.exit!.positionId });
+      logger.info(`Protective exit: ${exitTrigger} (position ${options.exit!.positionId})`);
+    }
+
+    // Step 3b: Re-check trading halts under the wallet lock (signals queued before a halt)
+    const halt = await this.tradingHalts.findActive({
+      walletName: route.walletName,
+      tokens: [route.inputToken, route.outputToken],
+    });
+    if (halt) {
+      const error = describeHalt(halt);
+      const tradeId = await this.tradeLifecycle.recordRejected(
+        {
+          walletId: route.walletId,
+          symbol,
+          action: side,
+          signalAction: action,
+          timeframe,
+          inputToken: route.inputToken,
+          outputToken: route.outputToken,
+          reason: 'halted',
+          error,
+          signalTime,
+          signalId,
+        },
+        'pipeline'
+      );
+      addLogContext({ tradeId });
+      logger.warn(`Rejected (trade ${tradeId}): ${error}`);
+      return {
+        statusCode: 503,
+        tradeId,
+        body: {
+          success: false,
+          reason: 'halted',
+          error,
+        } as ErrorResponse,
+      };
+    }
+
+    // Step 3c: Reject signals that arrived (or were retried) too late for their timeframe
+    if (signalAge?.stale) {
+      const error = `Signal from ${signalAge.signalTime.toISOString()} is ${Math.round(signalAge.ageSeconds)}s old (max ${signalAge.maxAgeSeconds}s for timeframe ${timeframe})`;
+      const tradeId = await this.tradeLifecycle.recordRejected(
+        {
+          walletId: route.walletId,
+          symbol,
+          action: side,
+          signalAction: action,
+          timeframe,
+          inputToken: route.inputToken,
+          outputToken: route.outputToken,
+          reason: 'stale_signal',
+          error,
+          signalTime,
+          signalId,
+        },
+        'pipeline'
+      );
+      addLogContext({ tradeId });
+      logger.warn(`Rejected (trade ${tradeId}): ${error}`);
+      return {
+        statusCode: 400,
+        tradeId,
+        body: {
+          success: false,
+          reason: 'stale_signal',
+          error,
+        } as ErrorResponse,
+      };
+    }
+
+    // Step 4: Validate pre-execution conditions
+    const validationResult = await this.preValidate(route, action);
+    if (!validationResult.success) {
+      logger.error(`Pre-validation failed: ${validationResult.error}`);
+      return {
+        statusCode: 400,
+        retryable: validationResult.reason === 'validation_error',
+        body: {
+          success: false,
+          reason: validationResult.reason,
+          error: validationResult.error,
+        } as ErrorResponse,
+      };
+    }
+
+    // Step 4b: Compare the alert price with the oracle price (not enforced for protective exits)
+    const tvPrice = parseFloat(signal.price) > 0 ? parseFloat(signal.price) : null;
+    let signalPrices: SignalPrices | null = null;
+    if (tvPrice !== null) {
+      const priceCheck = await this.signalPriceGuard.check({
+        assetToken: side === 'BUY' ? route.outputToken : route.inputToken,
+        fundingToken: side === 'BUY' ? route.inputToken : route.outputToken,
+        signalPrice: tvPrice,
+      });
+      signalPrices = priceCheck.prices;
+
+      if (!priceCheck.success && exitTrigger) {
+        logger.warn(`${priceCheck.error} - not enforced for protective exits`);
+      } else if (!priceCheck.success) {
+        const tradeId = await this.tradeLifecycle.recordRejected(
+          {
+            walletId: route.walletId,
+            symbol,
+            action: side,
+            signalAction: action,
+            timeframe,
+            inputToken: route.inputToken,
+            outputToken: route.outputToken,
+            reason: 'price_deviation',
+            error: priceCheck.error,
+            tvPrice,
+            oraclePrice: priceCheck.prices.assetUsd,
+            signalTime,
+            signalId,
+          },
+          'pipeline'
+        );
+        addLogContext({ tradeId });
+        logger.warn(`Rejected (trade ${tradeId}): ${priceCheck.error}`);
+        return {
+          statusCode: 400,
+          tradeId,
+          body: {
+            success: false,
+            reason: 'price_deviation',
+            error: priceCheck.error,
+          } as ErrorResponse,
+        };
+      }
+    }
+
+    // Step 5: Calculate trade amounts
+    const amountsResult = await this.calculateAmounts(
+      route,
+      signal,
+      validationResult.balance,
+      validationResult.position
+    );
+    if (!amountsResult.success) {
+      logger.error(`Amount calculation failed: ${amountsResult.error}`);
+      return {
+        statusCode: 400,
+        retryable: amountsResult.retryable,
+        body: {
+          success: false,
+          reason: 'calculation_failed',
+          error: amountsResult.error,
+        } as ErrorResponse,
+      };
+    }
+
+    const { sizing } = amountsResult;
+    logger.info(
+      `Trade amounts (${sizing.policy}${sizing.capped ? ', capped' : ''}): ${amountsResult.inputAmount} → ${amountsResult.outputToken}`
+    );
+
+    // Step 6: Record pending trade in database
+    const tradeId = await this.tradeLifecycle.recordPending(
+      {
+        walletId: route.walletId,
+        symbol,
+        action: side,
+        signalAction: action,
+        timeframe,
+        inputToken: route.inputToken,
+        outputToken: route.outputToken,
+        inputAmount: amountsResult.inputAmount,
+        isPaper: route.paperMode,
+        sizing,
+        exitTrigger,
+        tvPrice,
+        oraclePrice: signalPrices?.assetUsd ?? null,
+        signalTime,
+        signalId,
+        jobId: options.jobId ?? null,
+      },
+      'pipeline'
+    );
+
+    addLogContext({ tradeId });
+    logger.info(`Created ${route.paperMode ? 'paper ' : ''}trade record: ${tradeId}`);
+
+    // Steps 7-9: Quote, then execute and verify the swap (or simulate the fill
+    // for paper wallets), re-quoting within the pair's policy - per slice for TWAP routes
+    const fillResult = route.twap
+      ? await this.executeSliced(route, amountsResult.inputAmountRaw, tradeId, state, route.twap, lock)
+      : await this.quoteAndFill(route, amountsResult.inputAmountRaw, tradeId, state);
+    if (!fillResult.success) {
+      return fillResult.result;
+    }
+
+    const { fill, attempts, slices } = fillResult;
+
+    // Step 10: Update trade record, with the fill price (in USD at the funding
+    // token's oracle price) against the alert price
+    const [fundingAmount, assetAmount] =
+      side === 'BUY' ? [fill.inputAmount, fill.outputAmount] : [fill.outputAmount, fill.inputAmount];
+    const signalShortfall =
+      signalPrices?.fundingUsd && assetAmount > 0
+        ? signalShortfallBps(side, signalPrices.signalPrice, (fundingAmount / assetAmount) * signalPrices.fundingUsd)
+        : undefined;
+
+    await this.updateTradeStatus(tradeId, 'verified', {
+      signature: fill.signature,
+      inputAmount: fill.inputAmount,
+      outputAmount: fill.outputAmount,
+      actualSlippage: fill.actualSlippage,
+      verificationJson: fill.verificationJson,
+      signalShortfallBps: signalShortfall,
+    });
+    tradeSlippagePct.observe(
+      { pair: `${route.inputToken}/${route.outputToken}`, mode: route.paperMode ? 'paper' : 'live' },
+      fill.actualSlippage
+    );
+
+    // Step 11: Update position tracker
+    let position: Position | null = null;
+    try {
+      if (side === 'BUY') {
+        position = await this.positionTracker.recordBuy({
+          walletId: route.walletId,
+          token: route.outputToken,
+          amount: fill.outputAmount,
+          cost: fill.inputAmount,
+          tradeId,
+          isPaper: route.paperMode,
+        });
+        logger.info(`Position updated: ${action} ${fill.outputAmount} ${route.outputToken}`);
+      } else {
+        const sellResult = await this.positionTracker.recordSell({
+          walletId: route.walletId,
+          token: route.inputToken,
+          amount: fill.inputAmount,
+          proceeds: fill.outputAmount,
+          tradeId,
+          isPaper: route.paperMode,
+          closePosition: sizing.policy === 'position_exit' && !sizing.capped,
+        });
+        position = sellResult.position;
+        logger.info(
+          `Position updated: ${action} ${fill.inputAmount} ${route.inputToken} → ${position.status} (P&L: ${sellResult.realized_pnl.toFixed(4)})`
+        );
+      }
+    } catch (error) {
+      logger.error('Position tracking error', { error });
+      // Don't fail the webhook - trade succeeded, position tracking can be fixed manually
+      await this.updateTradeStatus(tradeId, 'position_error', {
+        error: error instanceof Error ? error.message : String(error),
+      }).catch((err) => logger.error('Failed to mark position error', { error: err }));
+    }
+
+    // Step 12: Run balance check (paper wallets have nothing on-chain to check)
+    if (!route.paperMode) {
+      try {
+        await this.runBalanceCheck(route, action);
+      } catch (error) {
+        logger.error('Balance check error', { error });
+        // Don't fail the webhook - balance checks are for monitoring
+      }
+    }
+
+    this.notifier.notify({
+      type: 'trade_executed',
+      tradeId,
+      wallet: route.walletName,
+      action,
+      symbol,
+      inputToken: route.inputToken,
+      outputToken: route.outputToken,
+      inputAmount: fill.inputAmount,
+      outputAmount: fill.outputAmount,
+      slippagePct: fill.actualSlippage,
+      signature: fill.signature,
+      paper: route.paperMode,
+    });
+
+    return {
+      statusCode: 200,
+      tradeId,
+      body: {
+        success: true,
+        tradeId,
+        signature: fill.signature,
+        inputAmount: fill.inputAmount,
+        outputAmount: fill.outputAmount,
+        actualSlippage: fill.actualSlippage,
+        attempts: attempts > (slices?.filled ?? 1) ? attempts : undefined,
+        slices,
+        paper: route.paperMode ? true : undefined,
+        position: position
+          ? { id: position.id, status: position.status, currentAmount: position.current_amount }
+          : undefined,
+      } as SuccessResponse,
+    };
+  }
+
+  /**
+   * Steps 7-9 with bounded re-quotes. A quote rejected for slippage, or one that
+   * expires before it is sent, is re-quoted after a backoff while the pair's
+   * RequotePolicy allows it and the price stays within maxDriftBps of the first
+   * quote. Every quote is recorded as a trade_attempts row.
+   *
+   * For a child swap (slice set) the trade status is left to executeSliced.
+   */
+  private async quoteAndFill(
+    route: RouteInfo,
+    inputAmountRaw: number,
+    tradeId: number,
+    state: { swapSubmitted: boolean },
+    slice?: SliceContext
+  ): Promise<QuoteFillResult> {
+    const policy = getRequotePolicy(route.inputToken, route.outputToken);
+    const attemptTag = (attempt: number) => ({ attempt: (slice?.attemptOffset ?? 0) + attempt, slice: slice?.slice });
+    let firstPrice: number | null = null;
+    let quoted = slice !== undefined;
+    let lastError = 'No quote attempts allowed';
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delayMs = policy.backoffMs * Math.pow(2, attempt - 2);
+        logger.warn(`Re-quoting in ${delayMs}ms (attempt ${attempt}/${policy.maxAttempts}): ${lastError}`);
+        await this.clock.sleep(delayMs);
+      }
+      const canRequote = attempt < policy.maxAttempts;
+
+      // Step 7: Get Jupiter quote
+      let quote: QuoteResult;
+      try {
+        quote = await this.swapProvider.getQuote({
+          inputMint: route.inputMint,
+          outputMint: route.outputMint,
+          amount: inputAmountRaw,
+          inputSymbol: route.inputToken,
+          outputSymbol: route.outputToken,
+          maxSlippageBps: route.maxSlippageBps,
+        });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Quote failed';
+        const rejectedQuote = error instanceof QuoteValidationError ? error.quote : null;
+        const slippageRejected = error instanceof QuoteValidationError && error.reason === 'slippage';
+
+        const driftBps = rejectedQuote && firstPrice !== null ? quoteDriftBps(firstPrice, rejectedQuote) : null;
+        if (rejectedQuote && firstPrice === null) {
+          firstPrice = quotePrice(rejectedQuote);
+        }
+
+        await this.tradeAttempts.record({
+          tradeId,
+          ...attemptTag(attempt),
+          status: slippageRejected ? 'quote_rejected' : 'quote_failed',
+          quote: rejectedQuote,
+          driftBps,
+          error: errorMsg,
+        });
+
+        const driftExceeded = driftBps !== null && driftBps > policy.maxDriftBps;
+        if (slippageRejected && canRequote && !driftExceeded) {
+          lastError = errorMsg;
+          continue;
+        }
+
+        const reason = driftExceeded ? 'price_drift' : 'quote_failed';
+        await this.updateFillStatus(tradeId, 'failed', { error: errorMsg, reason }, slice);
+        logger.error(`Quote failed: ${errorMsg}`);
+        return {
+          success: false,
+          result: {
+            statusCode: 400,
+            tradeId,
+            retryable: isTransientError(error),
+            body: {
+              success: false,
+              reason,
+              error: errorMsg,
+            } as ErrorResponse,
+          },
+        };
+      }
+
+      const driftBps = firstPrice !== null ? quoteDriftBps(firstPrice, quote) : 0;
+      if (firstPrice === null) {
+        firstPrice = quotePrice(quote);
+      }
+
+      if (driftBps > policy.maxDriftBps) {
+        const errorMsg = `Price drifted ${driftBps.toFixed(0)}bps from the first quote (max ${policy.maxDriftBps}bps)`;
+        await this.tradeAttempts.record({
+          tradeId,
+          ...attemptTag(attempt),
+          status: 'drift_exceeded',
+          quote,
+          driftBps,
+          error: errorMsg,
+        });
+        await this.updateFillStatus(tradeId, 'failed', { error: errorMsg, reason: 'price_drift' }, slice);
+        logger.error(errorMsg);
+        return {
+          success: false,
+          result: {
+            statusCode: 400,
+            tradeId,
+            body: {
+              success: false,
+              reason: 'price_drift',
+              error: errorMsg,
+            } as ErrorResponse,
+          },
+        };
+      }
+
+      const attemptId = await this.tradeAttempts.record({
+        tradeId,
+        ...attemptTag(attempt),
+        status: 'quoted',
+        quote,
+        driftBps,
+      });
+      if (!quoted) {
+        await this.updateTradeStatus(tradeId, 'quoted', { quoteJson: quote });
+        quoted = true;
+      }
+      logger.info(
+        `Quote received: ${quote.outAmount} ${route.outputToken} (impact: ${quote.priceImpactPct.toFixed(2)}%)`
+      );
+
+      // Steps 8-9: Execute and verify the swap, or simulate the fill for paper wallets
+      const fillResult: LiveFillResult = route.paperMode
+        ? await this.executePaperFill(route, quote, tradeId, slice)
+        : await this.executeLiveSwap(route, quote, tradeId, state, canRequote, slice);
+
+      if ('requote' in fillResult) {
+        await this.tradeAttempts.finish(attemptId, 'expired', { error: fillResult.requote });
+        lastError = fillResult.requote;
+        continue;
+      }
+
+      if (!fillResult.success) {
+        await this.tradeAttempts.finish(attemptId, 'failed', {
+          signature: fillResult.signature,
+          error: (fillResult.result.body as ErrorResponse).error,
+        });
+        return fillResult;
+      }
+
+      await this.tradeAttempts.finish(attemptId, 'filled', { signature: fillResult.fill.signature });
+      return { success: true, fill: fillResult.fill, attempts: attempt };
+    }
+
+    await this.updateFillStatus(tradeId, 'failed', { error: lastError, reason: 'quote_failed' }, slice);
+    return {
+      success: false,
+      result: {
+        statusCode: 400,
+        tradeId,
+        body: {
+          success: false,
+          reason: 'quote_failed',
+          error: lastError,
+        } as ErrorResponse,
+      },
+    };
+  }
+
+  /**
+   * Steps 7-9 for TWAP routes. The full-size quote (usually rejected for price
+   * impact, which is why the route slices) sizes the plan; each child then runs
+   * through quoteAndFill, spaced windowSeconds / slices apart. The wallet lock is released while waiting
+   * between slices, so the wallet's other signals and recovery are not held up.
+   *
+   * The trade moves to 'quoted' with the full-size quote and to 'executed' with
+   * the first child's signature. If a child fails after others filled, the
+   * remaining slices are skipped and the trade completes with the partial fill.
+   * A child whose swap was sent but not verified may still have landed, so it
+   * raises a critical unverified_slice flag for reconciliation.
+   */
+  private async executeSliced(
+    route: RouteInfo,
+    inputAmountRaw: number,
+    tradeId: number,
+    state: { swapSubmitted: boolean },
+    twap: TwapConfig,
+    lock: WalletLock
+  ): Promise<QuoteFillResult> {
+    let fullQuote: QuoteResult;
+    try {
+      fullQuote = await this.swapProvider.getQuote({
+        inputMint: route.inputMint,
+        outputMint: route.outputMint,
+        amount: inputAmountRaw,
+        inputSymbol: route.inputToken,
+        outputSymbol: route.outputToken,
+        maxSlippageBps: route.maxSlippageBps,
+      });
+    } catch (error) {
+      if (!(error instanceof QuoteValidationError)) {
+        const errorMsg = error instanceof Error ? error.message : 'Quote failed';
+        await this.updateTradeStatus(tradeId, 'failed', { error: errorMsg, reason: 'quote_failed' });
+        logger.error(`Quote failed: ${errorMsg}`);
+        return {
+          success: false,
+          result: {
+            statusCode: 400,
+            tradeId,
+            retryable: isTransientError(error),
+            body: {
+              success: false,
+              reason: 'quote_failed',
+              error: errorMsg,
+            } as ErrorResponse,
+          },
+        };
+      }
+      fullQuote = error.quote;
+    }
+
+    const amounts = planSlices(inputAmountRaw, twap, fullQuote.priceImpactPct);
+    if (amounts.length === 1) {
+      logger.info(`TWAP: impact ${fullQuote.priceImpactPct.toFixed(2)}% within target, not sliced`);
+      return this.quoteAndFill(route, inputAmountRaw, tradeId, state);
+    }
+
+    const intervalMs = (twap.windowSeconds * 1000) / amounts.length;
+    await this.tradeSlices.plan(tradeId, amounts);
+    await this.updateTradeStatus(tradeId, 'quoted', { quoteJson: fullQuote });
+    logger.info(
+      `TWAP: ${amounts.length} slices every ${(intervalMs / 1000).toFixed(1)}s (full-size impact: ${fullQuote.priceImpactPct.toFixed(2)}%)`
+    );
+
+    const fills: ExecutedFill[] = [];
+    let attempts = 0;
+    let failure: ErrorResponse | null = null;
+    let failureResult: PipelineResult | null = null;
+    let unverifiedSignature: string | undefined;
+
+    for (let i = 0; i < amounts.length; i++) {
+      const slice = i + 1;
+      if (i > 0) {
+        await lock.pause(() => this.clock.sleep(intervalMs));
+      }
+
+      const sliceResult = await this.quoteAndFill(route, amounts[i], tradeId, state, { slice, attemptOffset: attempts });
+      if (!sliceResult.success) {
+        failureResult = sliceResult.result;
+        failure = sliceResult.result.body as ErrorResponse;
+        unverifiedSignature = sliceResult.signature;
+        await this.tradeSlices.fail(tradeId, slice, failure.error, unverifiedSignature);
+        logger.error(`TWAP slice ${slice}/${amounts.length} failed: ${failure.error}`);
+        if (unverifiedSignature) {
+          await this.positionTracker.flagIssue({
+            tradeId,
+            walletId: route.walletId,
+            flagType: 'unverified_slice',
+            severity: 'critical',
+            description: `Trade ${tradeId} TWAP slice ${slice}/${amounts.length} sent ${unverifiedSignature} but it was not verified (${failure.error}); the position may be missing its fill`,
+          });
+        }
+        break;
+      }
+
+      attempts += sliceResult.attempts;
+      await this.tradeSlices.fill(tradeId, slice, sliceResult.fill);
+      if (fills.length === 0) {
+        await this.updateTradeStatus(tradeId, 'executed', { signature: sliceResult.fill.signature });
+      }
+      fills.push(sliceResult.fill);
+      logger.info(
+        `TWAP slice ${slice}/${amounts.length} filled: ${sliceResult.fill.outputAmount} ${route.outputToken}`
+      );
+    }
+
+    if (fills.length === 0 && failure && failureResult) {
+      await this.updateTradeStatus(tradeId, 'failed', { error: failure.error, reason: failure.reason });
+      return { success: false, result: failureResult };
+    }
+
+    const inputAmount = fills.reduce((sum, fill) => sum + fill.inputAmount, 0);
+    const outputAmount = fills.reduce((sum, fill) => sum + fill.outputAmount, 0);
+    const actualSlippage = fills.reduce((sum, fill) => sum + fill.actualSlippage * fill.inputAmount, 0) / inputAmount;
+
+    if (failure) {
+      logger.warn(
+        `TWAP partial fill: ${fills.length}/${amounts.length} slices, ${inputAmount} ${route.inputToken} spent`
+      );
+    }
+
+    return {
+      success: true,
+      attempts,
+      slices: { planned: amounts.length, filled: fills.length },
+      fill: {
+        signature: fills[0].signature,
+        inputAmount,
+        outputAmount,
+        actualSlippage,
+        verificationJson: {
+          twap: { planned: amounts.length, filled: fills.length, error: failure?.error, unverifiedSignature },
+          slices: fills.map((fill, i) => ({ slice: i + 1, ...fill })),
+        },
+      },
+    };
+  }
+
+  /**
+   * Steps 8-9 for live wallets: submit the swap and verify it on-chain.
+   * Marks the trade as submitted first - from here on it must never be retried.
+   * A swap that was not sent (expired or re-validation failed) is handed back
+   * for a re-quote when canRequote is set.
+   */
+  private async executeLiveSwap(
+    route: RouteInfo,
+    quote: QuoteResult,
+    tradeId: number,
+    state: { swapSubmitted: boolean },
+    canRequote: boolean,
+    slice?: SliceContext
+  ): Promise<LiveFillResult> {
+    state.swapSubmitted = true;
+    const swapResult = await this.swapProvider.executeSwap({
+      quote,
+      wallet: route.wallet,
+      priorityFeeLamports: 10000,
+    });
+
+    if (!swapResult.success && swapResult.requoteable && canRequote) {
+      logger.warn(`Swap not sent: ${swapResult.error}`);
+      return { success: false, requote: swapResult.error || 'Quote expired' };
+    }
+
+    if (!swapResult.success) {
+      await this.updateFillStatus(
+        tradeId,
+        'failed',
+        { error: swapResult.error, reason: 'execution_failed' },
+        slice
+      );
+      logger.error(`Execution failed: ${swapResult.error}`);
+      return {
+        success: false,
+        result: {
+          statusCode: 500,
+          tradeId,
+          body: {
+            success: false,
+            reason: 'execution_failed',
+            error: swapResult.error || 'Swap execution failed',
+          } as ErrorResponse,
+        },
+      };
+    }
+
+    await this.updateFillStatus(tradeId, 'executed', { signature: swapResult.signature }, slice);
+    logger.info(`Swap executed: ${swapResult.signature}`);
+
+    const endVerifyTimer = tradeStageSeconds.startTimer({ stage: 'verify' });
+    const verification = await this.transactionVerifier.verifyTransaction({
+      signature: swapResult.signature!,
+      walletAddress: route.wallet.publicKey.toString(),
+      expectedInputMint: route.inputMint,
+      expectedOutputMint: route.outputMint,
+    });
+    endVerifyTimer();
+
+    if (!verification.success) {
+      await this.updateFillStatus(
+        tradeId,
+        'failed',
+        { signature: swapResult.signature, error: verification.error, reason: 'verification_failed' },
+        slice
+      );
+      logger.error(`Verification failed: ${verification.error}`);
+      return {
+        success: false,
+        signature: swapResult.signature,
+        result: {
+          statusCode: 500,
+          tradeId,
+          body: {
+            success: false,
+            reason: 'verification_failed',
+            error: verification.error || 'Transaction verification failed',
+          } as ErrorResponse,
+        },
+      };
+    }
+
+    const actualSlippage = this.transactionVerifier.calculateSlippage(
+      swapResult.inputAmount,
+      parseInt(quote.outAmount),
+      verification.inputAmount,
+      verification.outputAmount
+    );
+
+    logger.info(`Verified: ${verification.outputAmount} received (slippage: ${actualSlippage.toFixed(2)}%)`);
+
+    return {
+      success: true,
+      fill: {
+        signature: swapResult.signature!,
+        inputAmount: verification.inputAmount,
+        outputAmount: verification.outputAmount,
+        actualSlippage,
+        verificationJson: verification,
+      },
+    };
+  }
+
+  /**
+   * Steps 8-9 for paper wallets: simulate the fill from the quote and apply it
+   * to the paper ledger. Nothing is sent on-chain.
+   */
+  private async executePaperFill(
+    route: RouteInfo,
+    quote: QuoteResult,
+    tradeId: number,
+    slice?: SliceContext
+  ): Promise<FillResult> {
+    const simulated = simulateFill(this.config.paperSlippage, quote);
+    const inputAmount = simulated.inAmountRaw / Math.pow(10, TOKENS[route.inputToken].decimals);
+    const outputAmount = simulated.outAmountRaw / Math.pow(10, TOKENS[route.outputToken].decimals);
+    const signature = slice ? `paper:${tradeId}:${slice.slice}` : `paper:${tradeId}`;
+
+    try {
+      await this.paperLedger.applyFill({
+        walletId: route.walletId,
+        inputToken: route.inputToken,
+        inputAmount,
+        outputToken: route.outputToken,
+        outputAmount,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Paper fill failed';
+      await this.updateFillStatus(tradeId, 'failed', { error: errorMsg, reason: 'execution_failed' }, slice);
+      logger.error(`Paper fill failed: ${errorMsg}`);
+      return {
+        success: false,
+        result: {
+          statusCode: 500,
+          tradeId,
+          body: {
+            success: false,
+            reason: 'execution_failed',
+            error: errorMsg,
+          } as ErrorResponse,
+        },
+      };
+    }
+
+    await this.updateFillStatus(tradeId, 'executed', { signature }, slice);
+
+    const actualSlippage = this.transactionVerifier.calculateSlippage(
+      simulated.inAmountRaw,
+      simulated.quotedOutAmountRaw,
+      simulated.inAmountRaw,
+      simulated.outAmountRaw
+    );
+
+    logger.info(`Paper fill: ${outputAmount} ${route.outputToken} (slippage: ${actualSlippage.toFixed(2)}%)`);
+
+    return {
+      success: true,
+      fill: {
+        signature,
+        inputAmount,
+        outputAmount,
+        actualSlippage,
+        verificationJson: { simulated: true, ...simulated },
+      },
+    };
+  }
+
+  /**
+   * Route trade to a wallet using the routes table
+   */
+  private async routeToWallet(
+    signal: TradingViewWebhook
+  ): Promise<{ success: true; data: RouteInfo } | { success: false; error: string }> {
+    const { symbol, action, timeframe, strategy } = signal;
+
+    try {
+      const tradeRoute = await this.routeRegistry.resolve(symbol, timeframe, strategy);
+      if (!tradeRoute) {
+        return {
+          success: false,
+          error: `No enabled route for ${symbol} [${timeframe}]${strategy ? ` (strategy ${strategy})` : ''}`,
+        };
+      }
+
+      const buying = signalSide(action) === 'BUY';
+      const inputToken = buying ? tradeRoute.fundingToken : tradeRoute.assetToken;
+      const outputToken = buying ? tradeRoute.assetToken : tradeRoute.fundingToken;
+
+      const wallet = this.walletSigner.getWallet(tradeRoute.walletName);
+      const inputMint = getMintAddress(inputToken);
+      const outputMint = getMintAddress(outputToken);
+
+      // Paper mode is read fresh - routes are cached, wallet flags are not
+      const paperMode = await this.paperLedger.isPaperWallet(tradeRoute.walletId);
+
+      if (paperMode === null) {
+        return { success: false, error: `Wallet not found in database: ${tradeRoute.walletName}` };
+      }
+
+      // A sliced order runs inside one job; a longer window is refused rather than shortened
+      const twap = tradeRoute.options.twap;
+      if (twap && twap.windowSeconds > TWAP_MAX_WINDOW_SECONDS) {
+        return {
+          success: false,
+          error: `Route ${tradeRoute.id} twap_window_seconds ${twap.windowSeconds} exceeds TWAP_MAX_WINDOW_SECONDS (${TWAP_MAX_WINDOW_SECONDS})`,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          routeId: tradeRoute.id,
+          walletName: tradeRoute.walletName,
+          wallet,
+          walletId: tradeRoute.walletId,
+          inputToken,
+          outputToken,
+          inputMint,
+          outputMint,
+          paperMode,
+          maxSlippageBps: tradeRoute.options.maxSlippageBps,
+          twap,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Routing failed',
+      };
+    }
+  }
+
+  /**
+   * Pre-execution validation: check balance, position requirements (SELL/CLOSE
+   * need a position to exit, ADD one to add to) and risk limits for entries
+   */
+  private async preValidate(
+    route: RouteInfo,
+    action: string
+  ): Promise<
+    { success: true; balance: number; position: Position | null } | { success: false; reason: string; error: string }
+  > {
+    try {
+      const walletAddress = route.wallet.publicKey.toString();
+
+      // Check balance of input token
+      let balance: number;
+      if (route.paperMode) {
+        balance = await this.paperLedger.getBalance(route.walletId, route.inputToken);
+      } else if (route.inputToken === 'SOL') {
+        const lamports = await this.chainReader.getSolBalance(walletAddress);
+        balance = lamports / 1e9;
+      } else {
+        const accounts = await this.chainReader.getTokenAccountsByOwner(walletAddress, route.inputMint);
+        balance = accounts.reduce((sum, acc) => {
+          return sum + (acc.account.data.parsed.info.tokenAmount.uiAmount || 0);
+        }, 0);
+      }
+
+      logger.info(`Current balance: ${balance} ${route.inputToken}`);
+
+      // Check minimum balance
+      const minRequired = route.inputToken === 'SOL' ? MIN_GAS_RESERVE : MIN_OUTPUT_AMOUNT;
+      if (balance < minRequired) {
+        return {
+          success: false,
+          reason: 'insufficient_balance',
+          error: `Insufficient ${route.inputToken} balance: ${balance} (minimum: ${minRequired})`,
+        };
+      }
+
+      // For SELL/CLOSE: validate position exists
+      let position: Position | null = null;
+      if (signalSide(action) === 'SELL') {
+        position = await this.positionTracker.getOpenPosition(route.walletId, route.inputToken, route.paperMode);
+        if (!position) {
+          return {
+            success: false,
+            reason: 'no_open_position',
+            error: `Cannot ${action} ${route.inputToken}: no open position in wallet`,
+          };
+        }
+
+        logger.info(`Open position: ${position.current_amount} ${route.inputToken} (${position.status})`);
+      }
+
+      // For ADD: there must be a position to add to
+      if (action === 'ADD') {
+        const held = await this.positionTracker.getOpenPosition(route.walletId, route.outputToken, route.paperMode);
+        if (!held) {
+          return {
+            success: false,
+            reason: 'no_open_position',
+            error: `Cannot ADD to ${route.outputToken}: no open position in wallet`,
+          };
+        }
+      }
+
+      // For BUY/ADD: check risk limits (exits are never blocked)
+      if (signalSide(action) === 'BUY') {
+        const risk = await this.riskEngine.check({
+          walletId: route.walletId,
+          walletName: route.walletName,
+          isPaper: route.paperMode,
+        });
+        if (!risk.success) {
+          return {
+            success: false,
+            reason: 'risk_limit',
+            error: `Risk limit breached (${risk.breach.scope} ${risk.breach.rule}): ${risk.breach.message}`,
+          };
+        }
+      }
+
+      return { success: true, balance, position };
+    } catch (error) {
+      return {
+        success: false,
+        reason: 'validation_error',
+        error: error instanceof Error ? error.message : 'Validation failed',
+      };
+    }
+  }
+
+  /**
+   * Calculate trade amounts with the wallet's sizing policy
+   */
+  private async calculateAmounts(
+    route: RouteInfo,
+    signal: TradingViewWebhook,
+    balance: number,
+    openPosition: Position | null
+  ): Promise<
+    | { success: true; inputAmount: number; inputAmountRaw: number; outputToken: string; sizing: SizingDecision }
+    | { success: false; error: string; retryable?: boolean }
+  > {
+    try {
+      // Always keep the gas reserve when spending SOL
+      const available = route.inputToken === 'SOL' ? Math.max(0, balance - MIN_GAS_RESERVE) : balance;
+
+      // BUY/ADD size against equity including what is already held; SELL/CLOSE exit
+      // the open position (SELL only part of it when the signal has a size)
+      const side = signalSide(signal.action);
+      const heldPosition =
+        side === 'BUY'
+          ? await this.positionTracker.getOpenPosition(route.walletId, route.outputToken, route.paperMode)
+          : openPosition;
+
+      const sizingResult = await this.positionSizer.size(
+        route.walletId,
+        { inputToken: route.inputToken, outputToken: route.outputToken },
+        {
+          action: side,
+          available,
+          heldAmount: heldPosition ? heldPosition.current_amount : 0,
+          volatilityPct: signal.volatility ? parseFloat(signal.volatility) : undefined,
+          percent: signal.percent ? parseFloat(signal.percent) : undefined,
+          quantity: signal.quantity ? parseFloat(signal.quantity) : undefined,
+        }
+      );
+
+      if (!sizingResult.success) {
+        return { success: false, error: sizingResult.error };
+      }
+
+      const sizing = sizingResult.decision;
+      const inputAmount = sizing.inputAmount;
+
+      if (inputAmount <= 0) {
+        return { success: false, error: `No funds available to trade after gas reserve` };
+      }
+
+      // Convert to raw amount (lamports or smallest token units)
+      const decimals = TOKENS[route.inputToken].decimals;
+      const inputAmountRaw = Math.floor(inputAmount * Math.pow(10, decimals));
+
+      return {
+        success: true,
+        inputAmount,
+        inputAmountRaw,
+        outputToken: route.outputToken,
+        sizing,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Amount calculation failed',
+        retryable: isTransientError(error),
+      };
+    }
+  }
+
+  /**
+   * Move a trade to a new status (validated, with an event in trade_events)
+   */
+  private async updateTradeStatus(tradeId: number, status: TradeStatus, data?: TransitionData): Promise<void> {
+    await this.tradeLifecycle.transition(tradeId, status, 'pipeline', data);
+  }
+
+  /**
+   * Status update from steps 7-9. A child swap leaves the trade alone -
+   * executeSliced settles it from all slices.
+   */
+  private async updateFillStatus(
+    tradeId: number,
+    status: TradeStatus,
+    data: TransitionData,
+    slice?: SliceContext
+  ): Promise<void> {
+    if (slice) {
+      return;
+    }
+    await this.updateTradeStatus(tradeId, status, data);
+  }
+
+  /**
+   * Run balance check after trade
+   */
+  private async runBalanceCheck(route: RouteInfo, action: string): Promise<void> {
+    const walletAddress = route.wallet.publicKey.toString();
+
+    // Check both input and output token balances
+    const tokensToCheck = [route.inputToken, route.outputToken];
+
+    for (const token of tokensToCheck) {
+      try {
+        const mint = getMintAddress(token);
+
+        let onchainBalance: number;
+        if (token === 'SOL') {
+          const lamports = await this.chainReader.getSolBalance(walletAddress);
+          onchainBalance = lamports / 1e9;
+        } else {
+          const accounts = await this.chainReader.getTokenAccountsByOwner(walletAddress, mint);
+          onchainBalance = accounts.reduce((sum, acc) => {
+            return sum + (acc.account.data.parsed.info.tokenAmount.uiAmount || 0);
+          }, 0);
+        }
+
+        // Record balance check in database
+        await this.storage.balanceChecks.record({ walletId: route.walletId, token, onchainBalance });
+
+        logger.info(`Balance check: ${token} = ${onchainBalance}`);
+      } catch (error) {
+        logger.error(`Balance check failed for ${token}`, { error });
+      }
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Trade Recovery Test Suite
+ *
+ * Tests the position update recovery applies for a verified fill:
+ * 1. BUY adds the output amount at the input cost
+ * 2. SELL removes the input amount for the output proceeds
+ * 3. CLOSE trades close the position's dust, like the pipeline
+ * 4. Paper trades update the paper ledger
+ */
+
+import { positionUpdate, RecoveredTrade } from './trade-recovery';
+
+describe('positionUpdate', () => {
+  const trade = (overrides: Partial<RecoveredTrade>): RecoveredTrade => ({
+    id: 42,
+    walletId: 7,
+    action: 'BUY',
+    inputToken: 'USDC',
+    outputToken: 'SOL',
+    isPaper: false,
+    closePosition: false,
+    ...overrides,
+  });
+  const fill = { inputAmount: 150, outputAmount: 1 };
+
+  it('should record a buy of the output token', () => {
+    expect(positionUpdate(trade({}), fill)).toEqual({
+      side: 'BUY',
+      params: { walletId: 7, token: 'SOL', amount: 1, cost: 150, tradeId: 42, isPaper: false },
+    });
+  });
+
+  it('should record a sell of the input token', () => {
+    const update = positionUpdate(trade({ action: 'SELL', inputToken: 'SOL', outputToken: 'USDC' }), {
+      inputAmount: 1,
+      outputAmount: 160,
+    });
+
+    expect(update).toEqual({
+      side: 'SELL',
+      params: { walletId: 7, token: 'SOL', amount: 1, proceeds: 160, tradeId: 42, isPaper: false, closePosition: false },
+    });
+  });
+
+  it('should close the position for a CLOSE trade', () => {
+    const update = positionUpdate(
+      trade({ action: 'SELL', inputToken: 'SOL', outputToken: 'USDC', closePosition: true }),
+      fill
+    );
+
+    expect(update).toMatchObject({ side: 'SELL', params: { closePosition: true } });
+  });
+
+  it('should keep paper trades on the paper ledger', () => {
+    expect(positionUpdate(trade({ isPaper: true }), fill)).toMatchObject({ params: { isPaper: true } });
+  });
+});
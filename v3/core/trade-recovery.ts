@@ -0,0 +1,491 @@
+import { HeliusClient, TransactionVerifier } from '../helius';
+import { PositionTracker, RecordBuyParams, RecordSellParams } from './position-tracker';
+import { TradeLifecycle } from './trade-lifecycle';
+import { TradeStatus } from './types';
+import { query, withAdvisoryLock, LOCK_NAMESPACES } from '../../lib/db/client';
+import { getMintAddress } from '../../lib/config/tokens';
+import { Logger, withLogContext } from '../../lib/log/logger';
+
+/**
+ * Trade Recovery Worker
+ *
+ * A crash between executeSwap and the 'verified' update leaves a trade in
+ * pending/quoted/executed while funds may have moved on-chain. On startup and
+ * every RECOVERY_INTERVAL_MS, trades in a non-terminal status older than
+ * RECOVERY_STALE_SECONDS, or interrupted by a shutdown (`interrupted_at`), are
+ * reconciled under the wallet execution lock:
+ *
+ *   pending  - no quote, so no swap was sent → failed (recovery_abandoned)
+ *   quoted   - swap may have been sent without its signature being stored:
+ *              the wallet's recent signatures are searched for an unclaimed
+ *              swap with the trade's mints, landed after the trade was created
+ *   executed - signature is stored, verify it
+ *   verified - the crash came before the position update (trades.position_id
+ *              is still NULL): the stored fill is applied to the position
+ *
+ * A verified swap completes the trade (verified + position update) and leaves
+ * an info flag; anything else marks the trade failed and flags it for review.
+ * The position update is the one the pipeline makes, including closing the
+ * position's dust for CLOSE trades; if it fails the trade moves to
+ * position_error.
+ * Paper trades never touch the chain and are simply failed (flagged if the
+ * simulated fill was already applied to the paper ledger). Sliced (TWAP)
+ * trades with pending slices are still running and skipped unless interrupted;
+ * once interrupted after a child swap filled they are failed and flagged
+ * critical: the filled slices in trade_slices must be reconciled by hand.
+ */
+
+const logger = new Logger('recovery');
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SIGNATURE_LOOKBACK = 50; // Recent wallet signatures searched for an unrecorded swap
+const BLOCK_TIME_SKEW_SECONDS = 5; // Tolerance between DB clock and block time
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type RecoveryOutcome = 'recovered' | 'failed' | 'skipped';
+
+export interface RecoverySummary {
+  checked: number;
+  recovered: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface TradeRecoveryDeps {
+  heliusClient: HeliusClient;
+  transactionVerifier: TransactionVerifier;
+  positionTracker: PositionTracker;
+  tradeLifecycle: TradeLifecycle;
+}
+
+export interface RecoveryConfig {
+  staleSeconds: number;
+  intervalMs: number;
+}
+
+export interface RecoveredTrade {
+  id: number;
+  walletId: number;
+  action: string; // Swap side
+  inputToken: string;
+  outputToken: string;
+  isPaper: boolean;
+  closePosition: boolean; // Full exit (CLOSE sized as position_exit, not capped)
+}
+
+export interface RecoveredFill {
+  inputAmount: number;
+  outputAmount: number;
+}
+
+export type PositionUpdate = { side: 'BUY'; params: RecordBuyParams } | { side: 'SELL'; params: RecordSellParams };
+
+interface StuckTrade extends RecoveredTrade {
+  walletAddress: string;
+  status: TradeStatus;
+  signature: string | null;
+  quote: { inAmount: number; outAmount: number } | null; // Raw amounts from quote_json
+  fill: RecoveredFill | null; // Stored amounts of a verified trade
+  filledSlices: number; // Child swaps already filled (TWAP trades)
+  pendingSlices: number; // Child swaps not started or finished yet (TWAP trades)
+  interrupted: boolean; // Marked by a shutdown or the lost-worker reclaim
+  createdAt: Date;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * The position update the pipeline makes for a fill. Pure - the caller applies it.
+ */
+export function positionUpdate(trade: RecoveredTrade, fill: RecoveredFill): PositionUpdate {
+  if (trade.action === 'BUY') {
+    return {
+      side: 'BUY',
+      params: {
+        walletId: trade.walletId,
+        token: trade.outputToken,
+        amount: fill.outputAmount,
+        cost: fill.inputAmount,
+        tradeId: trade.id,
+        isPaper: trade.isPaper,
+      },
+    };
+  }
+
+  return {
+    side: 'SELL',
+    params: {
+      walletId: trade.walletId,
+      token: trade.inputToken,
+      amount: fill.inputAmount,
+      proceeds: fill.outputAmount,
+      tradeId: trade.id,
+      isPaper: trade.isPaper,
+      closePosition: trade.closePosition,
+    },
+  };
+}
+
+// ============================================================================
+// Trade Recovery Class
+// ============================================================================
+
+export class TradeRecovery {
+  private heliusClient: HeliusClient;
+  private transactionVerifier: TransactionVerifier;
+  private positionTracker: PositionTracker;
+  private tradeLifecycle: TradeLifecycle;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RecoverySummary> | null = null;
+
+  constructor(deps: TradeRecoveryDeps, private config: RecoveryConfig) {
+    this.heliusClient = deps.heliusClient;
+    this.transactionVerifier = deps.transactionVerifier;
+    this.positionTracker = deps.positionTracker;
+    this.tradeLifecycle = deps.tradeLifecycle;
+  }
+
+  /**
+   * Runs a recovery pass now, then every intervalMs.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const tick = () => {
+      this.runOnce().catch((error) => logger.error('Recovery pass failed', { error }));
+    };
+
+    tick();
+    this.timer = setInterval(tick, this.config.intervalMs);
+    logger.info(`Started (stale after ${this.config.staleSeconds}s)`);
+  }
+
+  /**
+   * Stops the timer and waits for a pass in progress.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Reconciles every stale non-terminal trade once. Concurrent calls share
+   * the pass in progress.
+   */
+  async runOnce(): Promise<RecoverySummary> {
+    if (!this.running) {
+      this.running = this.recoverStale().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Reconciles a single trade under its wallet's execution lock.
+   */
+  async recoverTrade(tradeId: number): Promise<RecoveryOutcome> {
+    const walletRes = await query('SELECT wallet_id FROM trades WHERE id = $1', [tradeId]);
+    if (walletRes.rows.length === 0) {
+      return 'skipped';
+    }
+
+    return withAdvisoryLock(LOCK_NAMESPACES.WALLET_EXECUTION, walletRes.rows[0].wallet_id, async () => {
+      // Re-read under the lock: the pipeline may have finished the trade meanwhile
+      const trade = await this.getStuckTrade(tradeId);
+      if (!trade) {
+        return 'skipped';
+      }
+
+      if (trade.fill) {
+        return this.applyPosition(trade, trade.fill);
+      }
+
+      // The pipeline releases the wallet lock between slices: a sliced trade is still running
+      if (trade.pendingSlices > 0 && !trade.interrupted) {
+        return 'skipped';
+      }
+
+      if (trade.filledSlices > 0) {
+        return this.failTrade(
+          trade,
+          `Sliced trade interrupted after ${trade.filledSlices} filled slices - reconcile trade_slices manually`,
+          'critical'
+        );
+      }
+
+      if (trade.isPaper) {
+        return this.failPaperTrade(trade);
+      }
+
+      if (trade.status === 'pending') {
+        await this.tradeLifecycle.transition(trade.id, 'failed', 'recovery', {
+          error: 'Trade abandoned before a quote was obtained',
+          reason: 'recovery_abandoned',
+        });
+        logger.warn(`Trade ${trade.id}: abandoned in pending, marked failed`);
+        return 'failed';
+      }
+
+      const signature = trade.signature || (await this.findLandedSignature(trade));
+      if (!signature) {
+        return this.failTrade(trade, 'No landed swap found on-chain for this trade', 'warning');
+      }
+
+      return this.completeTrade(trade, signature);
+    });
+  }
+
+  private async recoverStale(): Promise<RecoverySummary> {
+    const res = await query(
+      `SELECT id FROM trades t
+       WHERE (status IN ('pending', 'quoted', 'executed') OR (status = 'verified' AND position_id IS NULL))
+         AND (created_at < NOW() - make_interval(secs => $1) OR interrupted_at IS NOT NULL)
+         AND (interrupted_at IS NOT NULL
+              OR NOT EXISTS (SELECT 1 FROM trade_slices s WHERE s.trade_id = t.id AND s.status = 'pending'))
+       ORDER BY id`,
+      [this.config.staleSeconds]
+    );
+
+    const summary: RecoverySummary = { checked: res.rows.length, recovered: 0, failed: 0, skipped: 0 };
+
+    for (const row of res.rows) {
+      try {
+        const outcome = await withLogContext({ tradeId: row.id }, () => this.recoverTrade(row.id));
+        summary[outcome]++;
+      } catch (error) {
+        summary.skipped++;
+        logger.error(`Trade ${row.id}: recovery failed`, { error });
+      }
+    }
+
+    if (summary.checked > 0) {
+      logger.info(
+        `Checked ${summary.checked} stuck trades: ${summary.recovered} recovered, ${summary.failed} failed, ${summary.skipped} skipped`
+      );
+    }
+
+    return summary;
+  }
+
+  /**
+   * Verifies the landed swap and finishes the trade as the pipeline would have.
+   */
+  private async completeTrade(trade: StuckTrade, signature: string): Promise<RecoveryOutcome> {
+    const verification = await this.transactionVerifier.verifyTransaction({
+      signature,
+      walletAddress: trade.walletAddress,
+      expectedInputMint: getMintAddress(trade.inputToken),
+      expectedOutputMint: getMintAddress(trade.outputToken),
+    });
+
+    if (!verification.success) {
+      return this.failTrade(trade, `Swap ${signature} did not verify: ${verification.error}`, 'warning', signature);
+    }
+
+    const actualSlippage = trade.quote
+      ? this.transactionVerifier.calculateSlippage(
+          trade.quote.inAmount,
+          trade.quote.outAmount,
+          verification.inputAmount,
+          verification.outputAmount
+        )
+      : undefined;
+
+    if (trade.status === 'quoted') {
+      await this.tradeLifecycle.transition(trade.id, 'executed', 'recovery', { signature });
+    }
+    await this.tradeLifecycle.transition(trade.id, 'verified', 'recovery', {
+      signature,
+      inputAmount: verification.inputAmount,
+      outputAmount: verification.outputAmount,
+      actualSlippage,
+      verificationJson: verification,
+    });
+
+    await this.recordPosition(trade, verification);
+
+    await this.positionTracker.flagIssue({
+      tradeId: trade.id,
+      walletId: trade.walletId,
+      flagType: 'stuck_trade',
+      severity: 'info',
+      description: `Trade ${trade.id} was stuck in ${trade.status} and recovered from on-chain swap ${signature}`,
+    });
+
+    logger.info(`Trade ${trade.id}: recovered from ${trade.status} (${signature})`);
+    return 'recovered';
+  }
+
+  /**
+   * Applies the stored fill of a trade verified before a crash cut off its
+   * position update.
+   */
+  private async applyPosition(trade: StuckTrade, fill: RecoveredFill): Promise<RecoveryOutcome> {
+    await this.recordPosition(trade, fill);
+
+    await this.positionTracker.flagIssue({
+      tradeId: trade.id,
+      walletId: trade.walletId,
+      flagType: 'stuck_trade',
+      severity: 'info',
+      description: `Trade ${trade.id} was verified without a position update; applied its fill to the position`,
+    });
+
+    logger.info(`Trade ${trade.id}: applied verified fill to the position`);
+    return 'recovered';
+  }
+
+  /**
+   * Position update for a verified trade; a failure moves it to position_error
+   * (the tracker flags the cause) so it is not retried.
+   */
+  private async recordPosition(trade: StuckTrade, fill: RecoveredFill): Promise<void> {
+    const update = positionUpdate(trade, fill);
+    try {
+      if (update.side === 'BUY') {
+        await this.positionTracker.recordBuy(update.params);
+      } else {
+        await this.positionTracker.recordSell(update.params);
+      }
+    } catch (error) {
+      logger.error(`Trade ${trade.id}: position tracking error`, { error });
+      await this.tradeLifecycle.transition(trade.id, 'position_error', 'recovery', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async failTrade(
+    trade: StuckTrade,
+    error: string,
+    severity: 'warning' | 'critical',
+    signature?: string
+  ): Promise<RecoveryOutcome> {
+    await this.tradeLifecycle.transition(trade.id, 'failed', 'recovery', {
+      signature,
+      error,
+      reason: 'recovery_failed',
+    });
+
+    await this.positionTracker.flagIssue({
+      tradeId: trade.id,
+      walletId: trade.walletId,
+      flagType: 'stuck_trade',
+      severity,
+      description: `Trade ${trade.id} was stuck in ${trade.status}: ${error}`,
+    });
+
+    logger.warn(`Trade ${trade.id}: marked failed - ${error}`);
+    return 'failed';
+  }
+
+  /**
+   * Paper trades have nothing on-chain to check. Once 'executed', the simulated
+   * fill is already in the paper ledger, so the trade is flagged for review.
+   */
+  private async failPaperTrade(trade: StuckTrade): Promise<RecoveryOutcome> {
+    if (trade.status === 'executed') {
+      return this.failTrade(trade, 'Paper fill applied but position not recorded', 'warning');
+    }
+
+    await this.tradeLifecycle.transition(trade.id, 'failed', 'recovery', {
+      error: `Paper trade abandoned in ${trade.status}`,
+      reason: 'recovery_abandoned',
+    });
+    logger.warn(`Trade ${trade.id}: paper trade abandoned in ${trade.status}, marked failed`);
+    return 'failed';
+  }
+
+  /**
+   * Searches the wallet's recent signatures for a successful swap with the
+   * trade's mints that landed after the trade was created and is not already
+   * recorded on another trade. Oldest candidates are checked first.
+   */
+  private async findLandedSignature(trade: StuckTrade): Promise<string | null> {
+    const since = Math.floor(trade.createdAt.getTime() / 1000) - BLOCK_TIME_SKEW_SECONDS;
+    const signatures = await this.heliusClient.getSignaturesForAddress(trade.walletAddress, SIGNATURE_LOOKBACK);
+
+    const candidates = signatures
+      .filter((info) => info.err === null && info.blockTime !== null && info.blockTime >= since)
+      .map((info) => info.signature)
+      .reverse();
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const claimed = await query('SELECT signature FROM trades WHERE signature = ANY($1)', [candidates]);
+    const claimedSet = new Set(claimed.rows.map((row) => row.signature));
+
+    for (const signature of candidates) {
+      if (claimedSet.has(signature)) continue;
+
+      const verification = await this.transactionVerifier.verifyTransaction({
+        signature,
+        walletAddress: trade.walletAddress,
+        expectedInputMint: getMintAddress(trade.inputToken),
+        expectedOutputMint: getMintAddress(trade.outputToken),
+      });
+
+      if (verification.success) {
+        return signature;
+      }
+    }
+
+    return null;
+  }
+
+  private async getStuckTrade(tradeId: number): Promise<StuckTrade | null> {
+    const res = await query(
+      `SELECT t.*, w.address AS wallet_address,
+              (SELECT COUNT(*) FROM trade_slices s WHERE s.trade_id = t.id AND s.status = 'filled') AS filled_slices,
+              (SELECT COUNT(*) FROM trade_slices s WHERE s.trade_id = t.id AND s.status = 'pending') AS pending_slices
+       FROM trades t
+       JOIN wallets w ON t.wallet_id = w.id
+       WHERE t.id = $1
+         AND (t.status IN ('pending', 'quoted', 'executed') OR (t.status = 'verified' AND t.position_id IS NULL))`,
+      [tradeId]
+    );
+
+    if (res.rows.length === 0) {
+      return null;
+    }
+
+    const row = res.rows[0];
+    return {
+      id: row.id,
+      walletId: row.wallet_id,
+      walletAddress: row.wallet_address,
+      status: row.status,
+      action: row.tv_action,
+      inputToken: row.input_token,
+      outputToken: row.output_token,
+      signature: row.signature,
+      quote: row.quote_json
+        ? { inAmount: parseInt(row.quote_json.inAmount), outAmount: parseInt(row.quote_json.outAmount) }
+        : null,
+      isPaper: row.is_paper,
+      closePosition: row.sizing_policy === 'position_exit' && row.sizing_json?.capped !== true,
+      fill:
+        row.status === 'verified'
+          ? { inputAmount: parseFloat(row.input_amount), outputAmount: parseFloat(row.output_amount) }
+          : null,
+      filledSlices: parseInt(row.filled_slices, 10),
+      pendingSlices: parseInt(row.pending_slices, 10),
+      interrupted: row.interrupted_at !== null,
+      createdAt: row.created_at,
+    };
+  }
+}
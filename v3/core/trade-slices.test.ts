@@ -0,0 +1,49 @@
+/**
+ * Trade Slices Test Suite
+ *
+ * Tests the pure slice planning:
+ * 1. Without a target, the input is split into `slices` children
+ * 2. With a target, the count follows the full-size price impact, capped at `slices`
+ * 3. Children always add up to the input, the last one taking the remainder
+ */
+
+import { planSlices } from './trade-slices';
+
+describe('planSlices', () => {
+  const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+
+  it('should split into the configured slices without a target', () => {
+    const amounts = planSlices(1_000_000, { slices: 4, windowSeconds: 60 }, 10);
+
+    expect(amounts).toEqual([250_000, 250_000, 250_000, 250_000]);
+  });
+
+  it('should give the rounding remainder to the last slice', () => {
+    const amounts = planSlices(1_000_003, { slices: 4, windowSeconds: 60 }, null);
+
+    expect(amounts).toEqual([250_000, 250_000, 250_000, 250_003]);
+    expect(sum(amounts)).toBe(1_000_003);
+  });
+
+  it('should slice only as much as the impact target needs', () => {
+    const config = { slices: 10, windowSeconds: 60, targetImpactPct: 1 };
+
+    expect(planSlices(900, config, 2.5)).toHaveLength(3);
+    expect(planSlices(900, config, 0.4)).toEqual([900]);
+  });
+
+  it('should cap the count at the configured slices', () => {
+    const amounts = planSlices(900, { slices: 5, windowSeconds: 60, targetImpactPct: 0.5 }, 12);
+
+    expect(amounts).toHaveLength(5);
+    expect(sum(amounts)).toBe(900);
+  });
+
+  it('should slice fully when the full-size impact is unknown', () => {
+    expect(planSlices(900, { slices: 3, windowSeconds: 60, targetImpactPct: 1 }, null)).toHaveLength(3);
+  });
+
+  it('should never plan a zero-sized slice', () => {
+    expect(planSlices(2, { slices: 5, windowSeconds: 60 }, null)).toEqual([1, 1]);
+  });
+});
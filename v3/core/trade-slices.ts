@@ -0,0 +1,154 @@
+import { query, toNumber } from '../../lib/db/client';
+
+/**
+ * Trade Slices (TWAP execution)
+ *
+ * A route with twap options splits a trade's input into child swaps spread
+ * over a time window. The trade row stays the parent order: it carries one
+ * lifecycle and the aggregated fill, and each child swap is one row in
+ * `trade_slices` (its quotes are trade_attempts rows tagged with the slice).
+ *
+ * Slice count:
+ *   no target_impact_pct - always `slices` children
+ *   target_impact_pct    - the full-size quote's price impact divided by the
+ *                          target, rounded up and capped at `slices` (impact
+ *                          grows roughly linearly with size); 1 = no slicing
+ *
+ * Slice statuses:
+ *   pending - child swap not finished yet
+ *   filled  - swap verified / paper fill applied
+ *   failed  - quote, swap or verification failed; later slices are skipped. A
+ *             failed slice with a signature was sent and may still have landed
+ *   skipped - never started because an earlier slice failed
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface TwapConfig {
+  slices: number; // Max child swaps
+  windowSeconds: number; // Children are spread evenly over this window
+  targetImpactPct?: number; // Slice only as much as needed to bring price impact under this
+}
+
+export type SliceStatus = 'pending' | 'filled' | 'failed' | 'skipped';
+
+export interface SliceFill {
+  signature: string;
+  inputAmount: number;
+  outputAmount: number;
+  actualSlippage: number;
+}
+
+export interface TradeSlice {
+  id: number;
+  tradeId: number;
+  slice: number;
+  inputAmountRaw: string;
+  status: SliceStatus;
+  signature: string | null;
+  inputAmount: number | null;
+  outputAmount: number | null;
+  actualSlippage: number | null;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Splits a raw input amount into child amounts. Pure - the caller supplies the
+ * full-size quote's price impact (null if unknown, which slices fully).
+ *
+ * Children are equal except the last, which takes the rounding remainder.
+ */
+export function planSlices(inputAmountRaw: number, config: TwapConfig, fullImpactPct: number | null): number[] {
+  let count = Math.max(1, Math.floor(config.slices));
+
+  if (config.targetImpactPct !== undefined && fullImpactPct !== null) {
+    count = Math.min(count, Math.max(1, Math.ceil(fullImpactPct / config.targetImpactPct)));
+  }
+
+  // Never plan a zero-sized child
+  count = Math.min(count, Math.max(1, Math.floor(inputAmountRaw)));
+
+  const size = Math.floor(inputAmountRaw / count);
+  const amounts = new Array(count).fill(size);
+  amounts[count - 1] = inputAmountRaw - size * (count - 1);
+  return amounts;
+}
+
+// ============================================================================
+// Trade Slices Class
+// ============================================================================
+
+export class TradeSlices {
+  /**
+   * Records the planned children of a trade as pending.
+   */
+  async plan(tradeId: number, amountsRaw: number[]): Promise<void> {
+    for (let i = 0; i < amountsRaw.length; i++) {
+      await query(
+        `INSERT INTO trade_slices (trade_id, slice, input_amount_raw, status)
+         VALUES ($1, $2, $3, 'pending')`,
+        [tradeId, i + 1, amountsRaw[i]]
+      );
+    }
+  }
+
+  /**
+   * Records a filled child swap.
+   */
+  async fill(tradeId: number, slice: number, fill: SliceFill): Promise<void> {
+    await query(
+      `UPDATE trade_slices
+       SET status = 'filled', signature = $3, input_amount = $4, output_amount = $5, actual_slippage_pct = $6
+       WHERE trade_id = $1 AND slice = $2`,
+      [tradeId, slice, fill.signature, fill.inputAmount, fill.outputAmount, fill.actualSlippage]
+    );
+  }
+
+  /**
+   * Records a failed child swap and skips the slices after it. The signature
+   * is set when the swap was sent but could not be verified.
+   */
+  async fail(tradeId: number, slice: number, error: string, signature?: string): Promise<void> {
+    await query(
+      `UPDATE trade_slices
+       SET status = CASE WHEN slice = $2 THEN 'failed' ELSE 'skipped' END,
+           error_message = CASE WHEN slice = $2 THEN $3 ELSE error_message END,
+           signature = CASE WHEN slice = $2 THEN $4 ELSE signature END
+       WHERE trade_id = $1 AND slice >= $2 AND status = 'pending'`,
+      [tradeId, slice, error, signature || null]
+    );
+  }
+
+  /**
+   * Lists a trade's slices in order (empty for unsliced trades).
+   */
+  async list(tradeId: number): Promise<TradeSlice[]> {
+    const res = await query('SELECT * FROM trade_slices WHERE trade_id = $1 ORDER BY slice', [tradeId]);
+
+    return res.rows.map((row) => ({
+      id: row.id,
+      tradeId: row.trade_id,
+      slice: row.slice,
+      inputAmountRaw: row.input_amount_raw,
+      status: row.status,
+      signature: row.signature,
+      inputAmount: toNumber(row.input_amount),
+      outputAmount: toNumber(row.output_amount),
+      actualSlippage: toNumber(row.actual_slippage_pct),
+      error: row.error_message,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+}
+
+// Export singleton instance for convenience
+export const tradeSlices = new TradeSlices();
@@ -0,0 +1,226 @@
+import { query } from '../../lib/db/client';
+
+/**
+ * Trading Halts (kill switch)
+ *
+ * Halts are rows in `trading_halts` and stay active until resumed, across
+ * restarts and processes. Scopes:
+ *   global - stops every signal
+ *   wallet - stops signals routed to one wallet (target = wallet name)
+ *   token  - stops signals that buy or sell a token (target = token symbol)
+ *
+ * Halts are read from the database on every check (no cache) so a halt takes
+ * effect immediately everywhere. Each halt keeps who set it and why, and who
+ * lifted it.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type HaltScope = 'global' | 'wallet' | 'token';
+
+export interface TradingHalt {
+  id: number;
+  scope: HaltScope;
+  target: string | null; // NULL for global
+  reason: string;
+  haltedBy: string;
+  haltedAt: Date;
+  resumedBy: string | null;
+  resumedAt: Date | null;
+  resumeReason: string | null;
+}
+
+export interface HaltParams {
+  scope: HaltScope;
+  target?: string | null;
+  reason: string;
+  actor: string;
+}
+
+export interface ResumeParams {
+  scope: HaltScope;
+  target?: string | null;
+  reason?: string;
+  actor: string;
+}
+
+/**
+ * Invalid halt request (unknown scope, wallet or token)
+ */
+export class HaltConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HaltConfigError';
+  }
+}
+
+const HALT_SCOPES: HaltScope[] = ['global', 'wallet', 'token'];
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Human-readable description of a halt for responses and logs
+ */
+export function describeHalt(halt: TradingHalt): string {
+  const scope = halt.scope === 'global' ? 'Trading' : `${halt.scope === 'wallet' ? 'Wallet' : 'Token'} ${halt.target}`;
+  return `${scope} halted by ${halt.haltedBy}: ${halt.reason}`;
+}
+
+// ============================================================================
+// Trading Halts Class
+// ============================================================================
+
+export class TradingHalts {
+  /**
+   * Returns the active halt that blocks a signal for this wallet and tokens,
+   * or null if trading is allowed. Global halts win over wallet and token halts.
+   */
+  async findActive(params: { walletName: string; tokens: string[] }): Promise<TradingHalt | null> {
+    const res = await query(
+      `SELECT * FROM trading_halts
+       WHERE resumed_at IS NULL
+         AND (
+           scope = 'global'
+           OR (scope = 'wallet' AND target = $1)
+           OR (scope = 'token' AND target = ANY($2))
+         )
+       ORDER BY CASE scope WHEN 'global' THEN 0 WHEN 'wallet' THEN 1 ELSE 2 END, id
+       LIMIT 1`,
+      [params.walletName, params.tokens]
+    );
+
+    return res.rows.length > 0 ? this.mapHalt(res.rows[0]) : null;
+  }
+
+  /**
+   * Lists active halts, or every halt including resumed ones.
+   */
+  async list(includeResumed = false): Promise<TradingHalt[]> {
+    const res = await query(
+      `SELECT * FROM trading_halts
+       ${includeResumed ? '' : 'WHERE resumed_at IS NULL'}
+       ORDER BY id DESC`
+    );
+
+    return res.rows.map((row) => this.mapHalt(row));
+  }
+
+  /**
+   * Activates a halt. Halting something that is already halted returns the
+   * existing halt unchanged.
+   *
+   * @throws HaltConfigError if the scope, wallet or token is unknown
+   */
+  async halt(params: HaltParams): Promise<{ halt: TradingHalt; created: boolean }> {
+    const target = await this.normalizeTarget(params.scope, params.target);
+
+    const existing = await this.getActive(params.scope, target);
+    if (existing) {
+      return { halt: existing, created: false };
+    }
+
+    const res = await query(
+      `INSERT INTO trading_halts (scope, target, reason, halted_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING
+       RETURNING *`,
+      [params.scope, target, params.reason, params.actor]
+    );
+
+    if (res.rows.length === 0) {
+      // Lost a race with a concurrent halt of the same target
+      return { halt: (await this.getActive(params.scope, target))!, created: false };
+    }
+
+    return { halt: this.mapHalt(res.rows[0]), created: true };
+  }
+
+  /**
+   * Lifts an active halt.
+   *
+   * @returns The resumed halt, or null if nothing was halted
+   * @throws HaltConfigError if the scope, wallet or token is unknown
+   */
+  async resume(params: ResumeParams): Promise<TradingHalt | null> {
+    const target = await this.normalizeTarget(params.scope, params.target);
+
+    const res = await query(
+      `UPDATE trading_halts
+       SET resumed_at = NOW(), resumed_by = $3, resume_reason = $4
+       WHERE scope = $1 AND target IS NOT DISTINCT FROM $2 AND resumed_at IS NULL
+       RETURNING *`,
+      [params.scope, target, params.actor, params.reason || null]
+    );
+
+    return res.rows.length > 0 ? this.mapHalt(res.rows[0]) : null;
+  }
+
+  private async getActive(scope: HaltScope, target: string | null): Promise<TradingHalt | null> {
+    const res = await query(
+      `SELECT * FROM trading_halts
+       WHERE scope = $1 AND target IS NOT DISTINCT FROM $2 AND resumed_at IS NULL`,
+      [scope, target]
+    );
+
+    return res.rows.length > 0 ? this.mapHalt(res.rows[0]) : null;
+  }
+
+  /**
+   * Validates the scope and resolves the target to its stored form.
+   */
+  private async normalizeTarget(scope: HaltScope, target?: string | null): Promise<string | null> {
+    if (!HALT_SCOPES.includes(scope)) {
+      throw new HaltConfigError(`Invalid scope: ${scope} (expected ${HALT_SCOPES.join(', ')})`);
+    }
+
+    if (scope === 'global') {
+      if (target) {
+        throw new HaltConfigError('A global halt takes no target');
+      }
+      return null;
+    }
+
+    if (!target) {
+      throw new HaltConfigError(`A ${scope} halt requires a target`);
+    }
+
+    if (scope === 'wallet') {
+      const res = await query('SELECT name FROM wallets WHERE name = $1', [target]);
+      if (res.rows.length === 0) {
+        throw new HaltConfigError(`Wallet not found: ${target}`);
+      }
+      return target;
+    }
+
+    const symbol = target.toUpperCase();
+    const res = await query('SELECT symbol FROM tokens WHERE symbol = $1', [symbol]);
+    if (res.rows.length === 0) {
+      throw new HaltConfigError(`Unknown token: ${symbol}`);
+    }
+    return symbol;
+  }
+
+  /**
+   * Maps database row to TradingHalt type.
+   */
+  private mapHalt(row: any): TradingHalt {
+    return {
+      id: row.id,
+      scope: row.scope,
+      target: row.target,
+      reason: row.reason,
+      haltedBy: row.halted_by,
+      haltedAt: row.halted_at,
+      resumedBy: row.resumed_by,
+      resumedAt: row.resumed_at,
+      resumeReason: row.resume_reason,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const tradingHalts = new TradingHalts();
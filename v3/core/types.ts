@@ -25,6 +25,7 @@ export interface Position {
   first_entry_at: Date;
   last_exit_at: Date | null;
   closed_at: Date | null;
+  is_paper: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -51,9 +52,13 @@ export interface Trade {
   webhook_timestamp: Date;
   execution_timestamp: Date | null;
   tv_action: TradeAction;
+  signal_action: SignalAction | null;
   tv_symbol: string;
   tv_timeframe: string | null;
   tv_price: number | null;
+  oracle_price: number | null;
+  signal_shortfall_bps: number | null;
+  signal_id: number | null;
   input_token: string;
   output_token: string;
   input_amount: number;
@@ -68,6 +73,12 @@ export interface Trade {
   status: TradeStatus;
   error_message: string | null;
   rejection_reason: string | null;
+  realized_pnl: number | null;
+  exit_trigger: ExitTrigger | null;
+  sizing_policy: string | null;
+  sizing_notional_usd: number | null;
+  sizing_json: any | null;
+  is_paper: boolean;
   quote_json: any | null;
   verification_json: any | null;
   created_at: Date;
@@ -84,6 +95,7 @@ export interface Wallet {
   base_token: string;
   quote_token: string;
   min_gas_reserve: number;
+  paper_mode: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -105,6 +117,24 @@ export type FlagSeverity = 'info' | 'warning' | 'critical';
 
 export type TradeAction = 'BUY' | 'SELL';
 
+/**
+ * Alert actions. BUY/ADD enter (ADD only into an open position), SELL exits all
+ * or part of the open position, CLOSE exits all of it and FLATTEN_ALL closes
+ * every open position the key may trade.
+ */
+export type SignalAction = 'BUY' | 'SELL' | 'CLOSE' | 'ADD' | 'FLATTEN_ALL';
+
+export const SIGNAL_ACTIONS: SignalAction[] = ['BUY', 'SELL', 'CLOSE', 'ADD', 'FLATTEN_ALL'];
+
+/**
+ * Swap direction of an alert action (stored as trades.tv_action).
+ */
+export function signalSide(action: string): TradeAction {
+  return action === 'BUY' || action === 'ADD' ? 'BUY' : 'SELL';
+}
+
+export type ExitTrigger = 'stop_loss' | 'take_profit' | 'trailing_stop';
+
 export type TradeStatus =
   | 'pending'
   | 'quoted'
@@ -114,6 +144,27 @@ export type TradeStatus =
   | 'position_tracked'
   | 'position_error';
 
+/**
+ * Legal trade status transitions. Terminal statuses map to an empty list.
+ *
+ * pending → quoted → executed → verified → position_tracked
+ *    ↘         ↘          ↘           ↘
+ *   failed    failed    failed    position_error → position_tracked
+ */
+export const TRADE_STATUS_TRANSITIONS: Record<TradeStatus, TradeStatus[]> = {
+  pending: ['quoted', 'failed'],
+  quoted: ['executed', 'failed'],
+  executed: ['verified', 'failed'],
+  verified: ['position_tracked', 'position_error'],
+  failed: [],
+  position_tracked: [],
+  position_error: ['position_tracked'],
+};
+
+export function isValidTradeTransition(from: TradeStatus, to: TradeStatus): boolean {
+  return (TRADE_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
 export type WalletType = 'sol_timeframe' | 'meme';
 
 // ============================================================================
@@ -126,6 +177,7 @@ export interface RecordBuyParams {
   amount: number;
   cost: number;
   tradeId: number;
+  isPaper?: boolean;
 }
 
 export interface RecordSellParams {
@@ -134,6 +186,8 @@ export interface RecordSellParams {
   amount: number;
   proceeds: number;
   tradeId: number;
+  isPaper?: boolean;
+  closePosition?: boolean;
 }
 
 export interface FlagParams {
@@ -240,6 +294,7 @@ export interface PositionRow {
   first_entry_at: Date;
   last_exit_at: Date | null;
   closed_at: Date | null;
+  is_paper: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -294,3 +349,14 @@ export class PositionNotFoundError extends PositionError {
     this.name = 'PositionNotFoundError';
   }
 }
+
+export class TradeTransitionError extends Error {
+  constructor(
+    public tradeId: number,
+    public from: string,
+    public to: string
+  ) {
+    super(`Illegal trade status transition for trade ${tradeId}: ${from} → ${to}`);
+    this.name = 'TradeTransitionError';
+  }
+}
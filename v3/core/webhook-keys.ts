@@ -0,0 +1,189 @@
+import * as crypto from 'crypto';
+import { query } from '../../lib/db/client';
+
+/**
+ * Webhook Key Store
+ *
+ * Named HMAC signing keys for the webhook, persisted in `webhook_keys`.
+ * Several keys can be valid at once, each optionally scoped to wallets and
+ * symbols. Rotation creates a new generation under the same name and lets the
+ * previous one expire after a grace period, so senders can switch over without
+ * a server restart.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface WebhookKey {
+  id: number;
+  keyId: string;
+  name: string;
+  secret: string;
+  allowedWallets: string[] | null;
+  allowedSymbols: string[] | null;
+  parser: string; // Payload parser name (see v3/api/webhook-parsers.ts)
+  active: boolean;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateKeyParams {
+  name: string;
+  allowedWallets?: string[] | null;
+  allowedSymbols?: string[] | null;
+  parser?: string;
+  expiresAt?: Date | null;
+}
+
+// ============================================================================
+// Webhook Key Store Class
+// ============================================================================
+
+export class WebhookKeyStore {
+  /**
+   * Returns all keys that can currently authenticate requests.
+   */
+  async getUsableKeys(): Promise<WebhookKey[]> {
+    const res = await query(
+      `SELECT * FROM webhook_keys
+       WHERE active = TRUE
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())`
+    );
+
+    return res.rows.map((row) => this.mapKey(row));
+  }
+
+  /**
+   * Lists every key generation, newest first (secrets included - admin use only).
+   */
+  async listKeys(): Promise<WebhookKey[]> {
+    const res = await query('SELECT * FROM webhook_keys ORDER BY name, created_at DESC');
+    return res.rows.map((row) => this.mapKey(row));
+  }
+
+  /**
+   * Creates a new key with a random secret.
+   *
+   * @param params - Key name, scopes and optional expiry
+   * @returns The created key, including its secret
+   */
+  async createKey(params: CreateKeyParams): Promise<WebhookKey> {
+    const keyId = `${params.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${crypto.randomBytes(4).toString('hex')}`;
+    const secret = crypto.randomBytes(32).toString('hex');
+
+    const res = await query(
+      `INSERT INTO webhook_keys (key_id, name, secret, allowed_wallets, allowed_symbols, parser, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        keyId,
+        params.name,
+        secret,
+        params.allowedWallets || null,
+        params.allowedSymbols || null,
+        params.parser || 'json',
+        params.expiresAt || null,
+      ]
+    );
+
+    return this.mapKey(res.rows[0]);
+  }
+
+  /**
+   * Rotates a key: issues a new generation with the same name, scopes and parser, and
+   * schedules every older usable generation to expire after the grace period.
+   *
+   * @param name - Key name to rotate
+   * @param graceSeconds - How long the old generation stays valid
+   * @returns The new key generation
+   * @throws Error if no usable key with that name exists
+   */
+  async rotateKey(name: string, graceSeconds: number): Promise<WebhookKey> {
+    const currentRes = await query(
+      `SELECT * FROM webhook_keys
+       WHERE name = $1 AND active = TRUE AND revoked_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [name]
+    );
+
+    if (currentRes.rows.length === 0) {
+      throw new Error(`No active webhook key named ${name}`);
+    }
+
+    const current = this.mapKey(currentRes.rows[0]);
+
+    await query(
+      `UPDATE webhook_keys
+       SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(secs => $2))
+       WHERE name = $1 AND active = TRUE AND revoked_at IS NULL`,
+      [name, graceSeconds]
+    );
+
+    return this.createKey({
+      name,
+      allowedWallets: current.allowedWallets,
+      allowedSymbols: current.allowedSymbols,
+      parser: current.parser,
+    });
+  }
+
+  /**
+   * Changes the payload parser for every generation of a key.
+   */
+  async setParser(name: string, parser: string): Promise<void> {
+    const res = await query('UPDATE webhook_keys SET parser = $2 WHERE name = $1', [name, parser]);
+
+    if (res.rowCount === 0) {
+      throw new Error(`Webhook key not found: ${name}`);
+    }
+  }
+
+  /**
+   * Revokes a single key generation immediately.
+   */
+  async revokeKey(keyId: string): Promise<void> {
+    const res = await query(
+      `UPDATE webhook_keys SET active = FALSE, revoked_at = NOW() WHERE key_id = $1`,
+      [keyId]
+    );
+
+    if (res.rowCount === 0) {
+      throw new Error(`Webhook key not found: ${keyId}`);
+    }
+  }
+
+  /**
+   * Records that a key was used (best effort, never blocks a request).
+   */
+  async touchKey(id: number): Promise<void> {
+    await query('UPDATE webhook_keys SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+
+  /**
+   * Maps database row to WebhookKey type.
+   */
+  private mapKey(row: any): WebhookKey {
+    return {
+      id: row.id,
+      keyId: row.key_id,
+      name: row.name,
+      secret: row.secret,
+      allowedWallets: row.allowed_wallets,
+      allowedSymbols: row.allowed_symbols,
+      parser: row.parser || 'json',
+      active: row.active,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at,
+      lastUsedAt: row.last_used_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const webhookKeyStore = new WebhookKeyStore();
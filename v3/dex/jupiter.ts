@@ -1,5 +1,6 @@
 import { Connection, Keypair, VersionedTransaction, TransactionMessage } from '@solana/web3.js';
 import { SLIPPAGE_LIMITS, DEFAULT_MAX_SLIPPAGE_BPS, MAX_PRICE_IMPACT_PCT, MAX_ROUTE_HOPS } from '../../lib/config/constants';
+import { tradeStageSeconds } from '../../lib/metrics/metrics';
 
 // ============================================================================
 // Type Definitions
@@ -11,6 +12,7 @@ export interface QuoteParams {
   amount: number; // in smallest units (lamports for SOL, micro-units for tokens)
   inputSymbol?: string; // Optional: for pair-specific slippage lookup
   outputSymbol?: string; // Optional: for pair-specific slippage lookup
+  maxSlippageBps?: number; // Optional: overrides the pair-specific slippage limit
 }
 
 export interface QuoteResult {
@@ -53,6 +55,24 @@ export interface SwapResult {
   inputMint: string;
   outputMint: string;
   error?: string;
+  requoteable?: boolean; // Nothing was sent: quote expired or now exceeds the slippage limit
+}
+
+export type QuoteRejectionReason = 'zero_output' | 'price_impact' | 'route_hops' | 'slippage';
+
+/**
+ * Quote fetched but rejected by validateQuote. Carries the quote so callers
+ * can record it and compare prices across re-quotes.
+ */
+export class QuoteValidationError extends Error {
+  constructor(
+    message: string,
+    public reason: QuoteRejectionReason,
+    public quote: QuoteResult
+  ) {
+    super(message);
+    this.name = 'QuoteValidationError';
+  }
 }
 
 interface JupiterQuoteResponse {
@@ -124,10 +144,10 @@ export class JupiterDex {
    * Rejects trades that don't meet quality criteria
    */
   async getQuote(params: QuoteParams): Promise<QuoteResult> {
-    const { inputMint, outputMint, amount, inputSymbol, outputSymbol } = params;
+    const { inputMint, outputMint, amount, inputSymbol, outputSymbol, maxSlippageBps } = params;
 
-    // Get pair-specific slippage limit
-    const slippageBps = this.getSlippageLimit(inputSymbol, outputSymbol);
+    // Get pair-specific slippage limit (unless the route overrides it)
+    const slippageBps = maxSlippageBps ?? this.getSlippageLimit(inputSymbol, outputSymbol);
 
     // Build query parameters
     const queryParams = new URLSearchParams({
@@ -139,7 +159,9 @@ export class JupiterDex {
     });
 
     // Fetch quote from Jupiter
+    const endQuoteTimer = tradeStageSeconds.startTimer({ stage: 'quote' });
     const response = await fetch(`${JUPITER_QUOTE_API}?${queryParams.toString()}`);
+    endQuoteTimer();
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -177,6 +199,7 @@ export class JupiterDex {
         inputMint: quote.inputMint,
         outputMint: quote.outputMint,
         error: `Quote expired (${(quoteAge / 1000).toFixed(1)}s old, max ${QUOTE_MAX_AGE_MS / 1000}s)`,
+        requoteable: true,
       };
     }
 
@@ -192,11 +215,13 @@ export class JupiterDex {
         inputMint: quote.inputMint,
         outputMint: quote.outputMint,
         error: error instanceof Error ? error.message : 'Quote validation failed',
+        requoteable: error instanceof QuoteValidationError && error.reason === 'slippage',
       };
     }
 
     try {
       // Request swap transaction from Jupiter
+      const endSendTimer = tradeStageSeconds.startTimer({ stage: 'send' });
       const swapResponse = await fetch(JUPITER_SWAP_API, {
         method: 'POST',
         headers: {
@@ -238,9 +263,12 @@ export class JupiterDex {
         skipPreflight: false,
         maxRetries: 0, // No retries - fail fast
       });
+      endSendTimer();
 
       // Confirm the transaction
+      const endConfirmTimer = tradeStageSeconds.startTimer({ stage: 'confirm' });
       const confirmation = await this.connection.confirmTransaction(signature, 'confirmed');
+      endConfirmTimer();
 
       if (confirmation.value.err) {
         return {
@@ -276,27 +304,31 @@ export class JupiterDex {
 
   /**
    * Validates quote against strict quality criteria
-   * Throws descriptive errors for any violations - NO EXCEPTIONS
+   * Throws QuoteValidationError for any violations - NO EXCEPTIONS
    */
   private validateQuote(quote: QuoteResult, slippageBps: number, inputSymbol?: string, outputSymbol?: string): void {
     // 1. Output amount must be > 0
     const outAmount = parseInt(quote.outAmount);
     if (outAmount <= 0) {
-      throw new Error(`Invalid quote: output amount is ${outAmount} (must be > 0)`);
+      throw new QuoteValidationError(`Invalid quote: output amount is ${outAmount} (must be > 0)`, 'zero_output', quote);
     }
 
     // 2. Price impact must be < 3%
     if (quote.priceImpactPct >= MAX_PRICE_IMPACT_PCT) {
-      throw new Error(
-        `Price impact ${quote.priceImpactPct.toFixed(2)}% exceeds ${MAX_PRICE_IMPACT_PCT}% limit`
+      throw new QuoteValidationError(
+        `Price impact ${quote.priceImpactPct.toFixed(2)}% exceeds ${MAX_PRICE_IMPACT_PCT}% limit`,
+        'price_impact',
+        quote
       );
     }
 
     // 3. Route must be <= 2 hops
     const routeHops = quote.routePlan.length;
     if (routeHops > MAX_ROUTE_HOPS) {
-      throw new Error(
-        `Route complexity ${routeHops} hops exceeds ${MAX_ROUTE_HOPS} hop limit`
+      throw new QuoteValidationError(
+        `Route complexity ${routeHops} hops exceeds ${MAX_ROUTE_HOPS} hop limit`,
+        'route_hops',
+        quote
       );
     }
 
@@ -306,8 +338,10 @@ export class JupiterDex {
 
     if (expectedSlippage > slippageLimitPct) {
       const pairName = inputSymbol && outputSymbol ? `${inputSymbol}/${outputSymbol}` : 'this pair';
-      throw new Error(
-        `Expected slippage ${expectedSlippage.toFixed(2)}% exceeds ${slippageLimitPct}% limit for ${pairName}`
+      throw new QuoteValidationError(
+        `Expected slippage ${expectedSlippage.toFixed(2)}% exceeds ${slippageLimitPct}% limit for ${pairName}`,
+        'slippage',
+        quote
       );
     }
   }
@@ -27,6 +27,11 @@ import {
   VerificationErrorType,
   TokenAccountResponse,
 } from "./types";
+import { TOKENS } from "../../lib/config/tokens";
+import { notifier } from "../notify/notifier";
+import { Logger } from "../../lib/log/logger";
+
+const logger = new Logger("balance-sync");
 
 export class BalanceSyncer {
   private readonly DEFAULT_DISCREPANCY_THRESHOLD = 0.01; // 0.01 tokens
@@ -111,18 +116,28 @@ export class BalanceSyncer {
       const duration = Date.now() - startTime;
 
       if (hasDiscrepancy) {
-        console.warn(
-          `[BalanceSyncer] DISCREPANCY DETECTED: ${request.walletAddress.slice(0, 8)}... ${request.tokenMint.slice(0, 8)}... | DB: ${request.expectedBalance} | Chain: ${onchainBalance} | Diff: ${discrepancy} (${duration}ms)`
+        logger.warn(
+          `DISCREPANCY DETECTED: ${request.walletAddress.slice(0, 8)}... ${request.tokenMint.slice(0, 8)}... | DB: ${request.expectedBalance} | Chain: ${onchainBalance} | Diff: ${discrepancy} (${duration}ms)`
         );
+        notifier.notify({
+          type: "balance_mismatch",
+          wallet: request.walletAddress,
+          token:
+            Object.values(TOKENS).find((t) => t.mint === request.tokenMint)
+              ?.symbol || request.tokenMint,
+          expected: request.expectedBalance,
+          actual: onchainBalance,
+          discrepancy,
+        });
       } else {
-        console.log(
-          `[BalanceSyncer] Balance OK: ${request.walletAddress.slice(0, 8)}... ${request.tokenMint.slice(0, 8)}... | ${onchainBalance} (${duration}ms)`
+        logger.info(
+          `Balance OK: ${request.walletAddress.slice(0, 8)}... ${request.tokenMint.slice(0, 8)}... | ${onchainBalance} (${duration}ms)`
         );
       }
 
       return result;
     } catch (error) {
-      console.error(`[BalanceSyncer] Error checking balance:`, error);
+      logger.error(`Error checking balance`, { error });
       return this.createErrorResult(
         request.walletAddress,
         request.tokenMint,
@@ -144,9 +159,7 @@ export class BalanceSyncer {
     request: BatchBalanceSyncRequest
   ): Promise<BatchBalanceResult> {
     const startTime = Date.now();
-    console.log(
-      `[BalanceSyncer] Starting batch sync for ${request.wallets.length} wallets`
-    );
+    logger.info(`Starting batch sync for ${request.wallets.length} wallets`);
 
     const threshold =
       request.discrepancyThreshold || this.DEFAULT_DISCREPANCY_THRESHOLD;
@@ -186,17 +199,14 @@ export class BalanceSyncer {
       errors,
     };
 
-    console.log(
-      `[BalanceSyncer] Batch sync complete in ${duration}ms: ${successCount}/${totalChecked} successful, ${discrepanciesFound} discrepancies found`
+    logger.info(
+      `Batch sync complete in ${duration}ms: ${successCount}/${totalChecked} successful, ${discrepanciesFound} discrepancies found`
     );
 
     if (discrepanciesFound > 0) {
-      console.warn(
-        `[BalanceSyncer] WARNING: ${discrepanciesFound} balance discrepancies detected!`
-      );
-      console.warn(
-        `[BalanceSyncer] Discrepancies:`,
-        results.filter((r) => r.success && r.hasDiscrepancy)
+      logger.warn(
+        `WARNING: ${discrepanciesFound} balance discrepancies detected!`,
+        { discrepancies: results.filter((r) => r.success && r.hasDiscrepancy) }
       );
     }
 
@@ -235,14 +245,11 @@ export class BalanceSyncer {
         balances.set(mint, current + uiAmount);
       }
 
-      console.log(
-        `[BalanceSyncer] Retrieved ${balances.size} token balances for ${walletAddress.slice(0, 8)}...`
+      logger.info(
+        `Retrieved ${balances.size} token balances for ${walletAddress.slice(0, 8)}...`
       );
     } catch (error) {
-      console.error(
-        `[BalanceSyncer] Error getting all token balances:`,
-        error
-      );
+      logger.error(`Error getting all token balances`, { error });
     }
 
     return balances;
@@ -281,16 +288,13 @@ export class BalanceSyncer {
 
       const sufficient = onchainBalance >= requiredAmount;
 
-      console.log(
-        `[BalanceSyncer] Balance check: ${walletAddress.slice(0, 8)}... has ${onchainBalance} ${tokenMint.slice(0, 8)}..., needs ${requiredAmount} - ${sufficient ? "OK" : "INSUFFICIENT"}`
+      logger.info(
+        `Balance check: ${walletAddress.slice(0, 8)}... has ${onchainBalance} ${tokenMint.slice(0, 8)}..., needs ${requiredAmount} - ${sufficient ? "OK" : "INSUFFICIENT"}`
       );
 
       return sufficient;
     } catch (error) {
-      console.error(
-        `[BalanceSyncer] Error checking sufficient balance:`,
-        error
-      );
+      logger.error(`Error checking sufficient balance`, { error });
       return false;
     }
   }
@@ -352,7 +356,7 @@ export class BalanceSyncer {
         message,
       };
     } catch (error) {
-      console.error(`[BalanceSyncer] Error detecting phantom trade:`, error);
+      logger.error(`Error detecting phantom trade`, { error });
       return {
         isPhantom: false,
         onchainBalance: 0,
@@ -6,6 +6,7 @@
  * - Automatic retries with exponential backoff
  * - Response caching (5 minute TTL)
  * - Comprehensive error handling
+ * - Request, retry and cache hit counters (GET /metrics)
  *
  * Budget: 10M calls/month - use aggressively for verification
  */
@@ -15,9 +16,15 @@ import {
   EnhancedTransaction,
   TokenAccountResponse,
   RpcResponse,
+  SignatureInfo,
   CacheEntry,
   VerificationErrorType,
 } from "./types";
+import {
+  heliusRequestsTotal,
+  heliusRetriesTotal,
+  heliusCacheLookupsTotal,
+} from "../../lib/metrics/metrics";
 
 export class HeliusClient {
   private apiKey: string;
@@ -212,6 +219,46 @@ export class HeliusClient {
     return balance;
   }
 
+  /**
+   * Get recent transaction signatures for an address, newest first.
+   * Not cached - used to find transactions that may have just landed.
+   *
+   * @param address - Wallet address
+   * @param limit - Maximum signatures to return (max 1000)
+   * @returns Signatures with block time and error status
+   */
+  async getSignaturesForAddress(
+    address: string,
+    limit: number = 50
+  ): Promise<SignatureInfo[]> {
+    const body = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getSignaturesForAddress",
+      params: [address, { limit, commitment: "confirmed" }],
+    };
+
+    const response = await this.rateLimitedRequest<
+      RpcResponse<SignatureInfo[]>
+    >(async () => {
+      const res = await fetch(this.rpcEndpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      }
+
+      return (await res.json()) as RpcResponse<SignatureInfo[]>;
+    });
+
+    return response?.result || [];
+  }
+
   /**
    * Rate-limited request wrapper with retry logic
    * Ensures we don't exceed API rate limits and handles transient failures
@@ -236,10 +283,12 @@ export class HeliusClient {
 
             // Execute request
             const result = await requestFn();
+            heliusRequestsTotal.inc({ outcome: "success" });
             resolve(result);
             return;
           } catch (error) {
             lastError = error as Error;
+            heliusRequestsTotal.inc({ outcome: "error" });
 
             // Don't retry on 404 or 400 errors
             if (
@@ -252,6 +301,7 @@ export class HeliusClient {
 
             // Wait before retry (exponential backoff)
             if (attempt < this.retryAttempts) {
+              heliusRetriesTotal.inc();
               const delay = this.retryDelayMs * Math.pow(2, attempt - 1);
               await this.sleep(delay);
             }
@@ -293,16 +343,21 @@ export class HeliusClient {
    */
   private getFromCache<T>(key: string): T | null {
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (!entry) {
+      heliusCacheLookupsTotal.inc({ result: "miss" });
+      return null;
+    }
 
     const now = Date.now();
     const age = (now - entry.timestamp) / 1000; // Convert to seconds
 
     if (age > entry.ttl) {
       this.cache.delete(key);
+      heliusCacheLookupsTotal.inc({ result: "miss" });
       return null;
     }
 
+    heliusCacheLookupsTotal.inc({ result: "hit" });
     return entry.data as T;
   }
 
@@ -1,4 +1,5 @@
 import { TOKENS } from '../../lib/config/tokens';
+import { Logger } from '../../lib/log/logger';
 
 /**
  * Price Oracle using Jupiter Quote API
@@ -8,6 +9,8 @@ import { TOKENS } from '../../lib/config/tokens';
  * Uses tiny quote amounts to derive prices efficiently
  */
 
+const logger = new Logger('price-oracle');
+
 interface PriceData {
   price: number;
   timestamp: number;
@@ -69,7 +72,7 @@ export class PriceOracle {
           const price = await this.getPrice(symbol);
           result[symbol] = price;
         } catch (error) {
-          console.error(`[PriceOracle] Error fetching ${symbol}:`, error);
+          logger.error(`Error fetching ${symbol}`, { error });
           // Try cache
           const token = TOKENS[symbol.toUpperCase()];
           if (token) {
@@ -132,7 +135,7 @@ export class PriceOracle {
       return price * decimalAdjustment;
 
     } catch (error) {
-      console.error(`[PriceOracle] Error fetching price for ${mint}:`, error);
+      logger.error(`Error fetching price for ${mint}`, { error });
       throw error;
     }
   }
@@ -76,6 +76,13 @@ export interface RpcResponse<T> {
   id: number;
 }
 
+export interface SignatureInfo {
+  signature: string;
+  slot: number;
+  blockTime: number | null; // Unix seconds
+  err: any | null; // Non-null if the transaction failed on-chain
+}
+
 // ============================================================================
 // Verification Result Types
 // ============================================================================
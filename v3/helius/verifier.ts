@@ -24,9 +24,13 @@ import {
   TokenTransfer,
   EnhancedTransaction,
 } from "./types";
+import { Logger } from "../../lib/log/logger";
+
+const logger = new Logger("verifier");
 
 export class TransactionVerifier {
-  constructor(private client: HeliusClient) {}
+  // Only parsed transactions are needed, so any ChainReader will do
+  constructor(private client: Pick<HeliusClient, "getEnhancedTransaction">) {}
 
   /**
    * Verify a completed swap transaction
@@ -179,16 +183,11 @@ export class TransactionVerifier {
       };
 
       const duration = Date.now() - startTime;
-      console.log(
-        `[TransactionVerifier] Verified ${request.signature} in ${duration}ms`
-      );
+      logger.info(`Verified ${request.signature} in ${duration}ms`);
 
       return result;
     } catch (error) {
-      console.error(
-        `[TransactionVerifier] Error verifying transaction:`,
-        error
-      );
+      logger.error(`Error verifying transaction`, { error });
       return this.createErrorResult(
         request.signature,
         request.walletAddress,
@@ -222,8 +221,8 @@ export class TransactionVerifier {
       actualIn <= 0 ||
       actualOut <= 0
     ) {
-      console.warn(
-        `[TransactionVerifier] Invalid amounts for slippage calculation: expected(${expectedIn}, ${expectedOut}), actual(${actualIn}, ${actualOut})`
+      logger.warn(
+        `Invalid amounts for slippage calculation: expected(${expectedIn}, ${expectedOut}), actual(${actualIn}, ${actualOut})`
       );
       return 0;
     }
@@ -236,10 +235,7 @@ export class TransactionVerifier {
 
       return slippage * 100; // Return as percentage
     } catch (error) {
-      console.error(
-        `[TransactionVerifier] Error calculating slippage:`,
-        error
-      );
+      logger.error(`Error calculating slippage`, { error });
       return 0;
     }
   }
@@ -253,17 +249,15 @@ export class TransactionVerifier {
   async verifyBatch(
     requests: VerifyTransactionRequest[]
   ): Promise<VerifiedTransaction[]> {
-    console.log(
-      `[TransactionVerifier] Verifying batch of ${requests.length} transactions`
-    );
+    logger.info(`Verifying batch of ${requests.length} transactions`);
 
     const results = await Promise.all(
       requests.map((req) => this.verifyTransaction(req))
     );
 
     const successCount = results.filter((r) => r.success).length;
-    console.log(
-      `[TransactionVerifier] Batch complete: ${successCount}/${requests.length} successful`
+    logger.info(
+      `Batch complete: ${successCount}/${requests.length} successful`
     );
 
     return results;
@@ -0,0 +1,110 @@
+/**
+ * Notifier Test Suite
+ *
+ * Tests which channels receive a notification and the retry schedule:
+ * 1. Disabled channels, lower severities and unlisted event types are skipped
+ * 2. Rendered trade and balance events carry the expected severity and fields
+ * 3. Retry delays double per attempt and are capped
+ */
+
+import { NotificationChannel, channelAccepts, retryDelayMs } from './notifier';
+import { renderNotification } from './templates';
+
+function channel(overrides: Partial<NotificationChannel> = {}): NotificationChannel {
+  return {
+    id: 1,
+    name: 'ops',
+    type: 'webhook',
+    config: { url: 'https://example.com/hook' },
+    minSeverity: 'warning',
+    events: null,
+    enabled: true,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const mismatch = renderNotification({
+  type: 'balance_mismatch',
+  wallet: 'SOL_30M',
+  token: 'USDC',
+  expected: 100,
+  actual: 90,
+  discrepancy: 10,
+});
+
+const executed = renderNotification({
+  type: 'trade_executed',
+  tradeId: 42,
+  wallet: 'SOL_30M',
+  action: 'BUY',
+  symbol: 'SOLUSD',
+  inputToken: 'USDC',
+  outputToken: 'SOL',
+  inputAmount: 100,
+  outputAmount: 0.5,
+  slippagePct: 0.123,
+  signature: '5sig',
+  paper: false,
+});
+
+describe('renderNotification', () => {
+  it('should render executed trades as info with a transaction link', () => {
+    expect(executed.severity).toBe('info');
+    expect(executed.title).toBe('BUY SOLUSD executed (SOL_30M)');
+    expect(executed.fields.Slippage).toBe('0.12%');
+    expect(executed.fields.Transaction).toBe('https://solscan.io/tx/5sig');
+  });
+
+  it('should mark paper trades and omit the transaction link', () => {
+    const paper = renderNotification({
+      type: 'trade_executed',
+      tradeId: 43,
+      wallet: 'PAPER',
+      action: 'SELL',
+      symbol: 'SOLUSD',
+      inputToken: 'SOL',
+      outputToken: 'USDC',
+      inputAmount: 0.5,
+      outputAmount: 101,
+      slippagePct: 0,
+      signature: 'paper-43',
+      paper: true,
+    });
+
+    expect(paper.title).toMatch(/^\[PAPER\] SELL SOLUSD/);
+    expect(paper.fields.Transaction).toBeUndefined();
+  });
+
+  it('should render balance mismatches as critical', () => {
+    expect(mismatch.severity).toBe('critical');
+    expect(mismatch.fields).toMatchObject({ Wallet: 'SOL_30M', Token: 'USDC', Discrepancy: '10' });
+  });
+});
+
+describe('channelAccepts', () => {
+  it('should filter by minimum severity', () => {
+    expect(channelAccepts(channel(), mismatch)).toBe(true);
+    expect(channelAccepts(channel(), executed)).toBe(false);
+    expect(channelAccepts(channel({ minSeverity: 'info' }), executed)).toBe(true);
+  });
+
+  it('should filter by event type when events are listed', () => {
+    const tradesOnly = channel({ minSeverity: 'info', events: ['trade_executed', 'trade_failed'] });
+    expect(channelAccepts(tradesOnly, executed)).toBe(true);
+    expect(channelAccepts(tradesOnly, mismatch)).toBe(false);
+  });
+
+  it('should skip disabled channels', () => {
+    expect(channelAccepts(channel({ enabled: false }), mismatch)).toBe(false);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('should double the delay per attempt up to an hour', () => {
+    expect(retryDelayMs(1, 30000)).toBe(30000);
+    expect(retryDelayMs(2, 30000)).toBe(60000);
+    expect(retryDelayMs(3, 30000)).toBe(120000);
+    expect(retryDelayMs(20, 30000)).toBe(60 * 60 * 1000);
+  });
+});
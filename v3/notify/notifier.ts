@@ -0,0 +1,495 @@
+import { query } from '../../lib/db/client';
+import { NOTIFY_MAX_ATTEMPTS, NOTIFY_RETRY_BASE_DELAY_MS, NOTIFY_INTERVAL_MS } from '../../lib/config/constants';
+import {
+  Notification,
+  NotificationEvent,
+  NotificationEventType,
+  NotificationSeverity,
+  NOTIFICATION_EVENT_TYPES,
+  NOTIFICATION_SEVERITIES,
+  meetsSeverity,
+  renderNotification,
+} from './templates';
+import {
+  ChannelConfig,
+  ChannelType,
+  CHANNEL_TYPES,
+  DEFAULT_SINKS,
+  NotificationConfigError,
+  NotificationSink,
+  maskChannelConfig,
+} from './sinks';
+import { Logger } from '../../lib/log/logger';
+
+/**
+ * Notifier
+ *
+ * Sends executed trades, failed trades, position flags and balance mismatches
+ * to the channels in `notification_channels` (webhook, Telegram, Discord,
+ * Slack, email). Each channel has a minimum severity and optionally a list of
+ * event types.
+ *
+ * notify() never throws and never waits for delivery: every matching channel
+ * gets a row in `notification_deliveries`, which is sent right away. Failed
+ * sends stay 'pending' and are retried with exponential backoff by the
+ * background worker (start()) until NOTIFY_MAX_ATTEMPTS, then marked 'failed'.
+ * The rendered message is stored, so a retry sends exactly what was first tried.
+ */
+
+const logger = new Logger('notifier');
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed'];
+
+export interface NotificationChannel {
+  id: number;
+  name: string;
+  type: ChannelType;
+  config: ChannelConfig;
+  minSeverity: NotificationSeverity;
+  events: NotificationEventType[] | null; // null = every event type
+  enabled: boolean;
+  createdAt: Date;
+}
+
+export interface CreateChannelParams {
+  name: string;
+  type: string;
+  config: ChannelConfig;
+  minSeverity?: string;
+  events?: string[] | null;
+}
+
+export interface NotificationDelivery {
+  id: number;
+  channelId: number;
+  channelName: string;
+  eventType: NotificationEventType;
+  severity: NotificationSeverity;
+  title: string;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date;
+  createdAt: Date;
+  sentAt: Date | null;
+}
+
+export interface DeliveryFilters {
+  status?: DeliveryStatus;
+  channelId?: number;
+  beforeId?: number; // Paging: deliveries with a lower id
+  limit?: number;
+}
+
+export interface NotifierConfig {
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  intervalMs: number; // Retry worker poll interval
+}
+
+export interface RetrySummary {
+  attempted: number;
+  sent: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// A delivery being sent is not picked up by the retry worker for this long
+const DELIVERY_LEASE_SECONDS = 120;
+
+const RETRY_BATCH_SIZE = 20;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_LIST_LIMIT = 200;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Whether a channel should get a notification (enabled, severity and event type)
+ */
+export function channelAccepts(channel: NotificationChannel, notification: Notification): boolean {
+  return (
+    channel.enabled &&
+    meetsSeverity(notification.severity, channel.minSeverity) &&
+    (channel.events === null || channel.events.includes(notification.type))
+  );
+}
+
+/**
+ * Backoff before the next attempt: base, 2x base, 4x base ... capped at an hour
+ */
+export function retryDelayMs(attempts: number, baseDelayMs: number): number {
+  return Math.min(baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+// ============================================================================
+// Notifier Class
+// ============================================================================
+
+export class Notifier {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<RetrySummary> | null = null;
+
+  constructor(
+    private config: NotifierConfig,
+    private sinks: Record<ChannelType, NotificationSink> = DEFAULT_SINKS
+  ) {}
+
+  // ==========================================================================
+  // Dispatch
+  // ==========================================================================
+
+  /**
+   * Queues and sends a notification to every matching channel. Failures are
+   * logged, never thrown: a notification must not change what it reports on.
+   */
+  notify(event: NotificationEvent): void {
+    this.dispatch(event).catch((error) => {
+      logger.error(`Failed to dispatch ${event.type} notification`, { error });
+    });
+  }
+
+  /**
+   * notify(), awaitable.
+   *
+   * @returns The deliveries created, after their first attempt
+   */
+  async dispatch(event: NotificationEvent): Promise<NotificationDelivery[]> {
+    const notification = renderNotification(event);
+    const channels = (await this.listChannels()).filter((channel) => channelAccepts(channel, notification));
+
+    const deliveryIds = await Promise.all(channels.map((channel) => this.createDelivery(channel.id, notification)));
+    return Promise.all(deliveryIds.map((id) => this.deliver(id)));
+  }
+
+  /**
+   * Sends a test notification to one channel, ignoring its filters.
+   *
+   * @returns The delivery after its first attempt, or null if the channel is unknown
+   */
+  async sendTest(channelId: number): Promise<NotificationDelivery | null> {
+    const channel = await this.getChannel(channelId);
+    if (!channel) {
+      return null;
+    }
+
+    const deliveryId = await this.createDelivery(channel.id, renderNotification({ type: 'test', channel: channel.name }));
+    return this.deliver(deliveryId, true);
+  }
+
+  // ==========================================================================
+  // Retry Worker
+  // ==========================================================================
+
+  /**
+   * Retries due deliveries every intervalMs.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => logger.error('Retry pass failed', { error }));
+    }, this.config.intervalMs);
+    logger.info(`Started (max ${this.config.maxAttempts} attempts)`);
+  }
+
+  /**
+   * Stops the timer and waits for a pass in progress.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Sends every pending delivery whose retry is due. Concurrent calls share
+   * the pass in progress; other processes skip rows this one has claimed.
+   */
+  async runOnce(): Promise<RetrySummary> {
+    if (!this.running) {
+      this.running = this.retryDue().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async retryDue(): Promise<RetrySummary> {
+    const res = await query(
+      `UPDATE notification_deliveries
+       SET next_attempt_at = NOW() + make_interval(secs => $1)
+       WHERE id IN (
+         SELECT id FROM notification_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at, id
+         FOR UPDATE SKIP LOCKED
+         LIMIT $2
+       )
+       RETURNING id`,
+      [DELIVERY_LEASE_SECONDS, RETRY_BATCH_SIZE]
+    );
+
+    const summary: RetrySummary = { attempted: res.rows.length, sent: 0 };
+    for (const row of res.rows) {
+      const delivery = await this.deliver(row.id);
+      if (delivery.status === 'sent') {
+        summary.sent++;
+      }
+    }
+
+    if (summary.attempted > 0) {
+      logger.info(`Retried ${summary.attempted} notifications: ${summary.sent} sent`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * One send attempt. Success marks the delivery 'sent'; a failure schedules
+   * the next attempt, or marks it 'failed' once attempts run out (or at once
+   * for a test or a disabled channel).
+   */
+  private async deliver(deliveryId: number, once: boolean = false): Promise<NotificationDelivery> {
+    const res = await query(
+      `SELECT d.message, d.attempts, c.name, c.type, c.config, c.enabled
+       FROM notification_deliveries d
+       JOIN notification_channels c ON c.id = d.channel_id
+       WHERE d.id = $1`,
+      [deliveryId]
+    );
+    const row = res.rows[0];
+    const notification: Notification = row.message;
+
+    let error: string | null = null;
+    if (!row.enabled && !once) {
+      error = 'Channel disabled';
+    } else {
+      try {
+        await this.sinks[row.type as ChannelType].send(row.config, notification);
+      } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+      }
+    }
+
+    const attempts = row.attempts + 1;
+    if (error === null) {
+      await query(
+        `UPDATE notification_deliveries
+         SET status = 'sent', attempts = $2, last_error = NULL, sent_at = NOW()
+         WHERE id = $1`,
+        [deliveryId, attempts]
+      );
+      logger.info(`Sent ${notification.type} to ${row.name}: ${notification.title}`);
+    } else if (once || !row.enabled || attempts >= this.config.maxAttempts) {
+      await query(
+        `UPDATE notification_deliveries
+         SET status = 'failed', attempts = $2, last_error = $3
+         WHERE id = $1`,
+        [deliveryId, attempts, error]
+      );
+      logger.error(`Notification ${deliveryId} to ${row.name} failed after ${attempts} attempts: ${error}`);
+    } else {
+      const delayMs = retryDelayMs(attempts, this.config.retryBaseDelayMs);
+      await query(
+        `UPDATE notification_deliveries
+         SET attempts = $2, last_error = $3, next_attempt_at = NOW() + make_interval(secs => $4)
+         WHERE id = $1`,
+        [deliveryId, attempts, error, delayMs / 1000]
+      );
+      logger.warn(`Notification ${deliveryId} to ${row.name} failed, retrying in ${delayMs}ms: ${error}`);
+    }
+
+    return (await this.getDelivery(deliveryId))!;
+  }
+
+  private async createDelivery(channelId: number, notification: Notification): Promise<number> {
+    const res = await query(
+      `INSERT INTO notification_deliveries (channel_id, event_type, severity, title, message, next_attempt_at)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))
+       RETURNING id`,
+      [
+        channelId,
+        notification.type,
+        notification.severity,
+        notification.title,
+        JSON.stringify(notification),
+        DELIVERY_LEASE_SECONDS,
+      ]
+    );
+
+    return res.rows[0].id;
+  }
+
+  // ==========================================================================
+  // Channels
+  // ==========================================================================
+
+  async listChannels(): Promise<NotificationChannel[]> {
+    const res = await query('SELECT * FROM notification_channels ORDER BY id');
+    return res.rows.map((row) => this.mapChannel(row));
+  }
+
+  async getChannel(id: number): Promise<NotificationChannel | null> {
+    const res = await query('SELECT * FROM notification_channels WHERE id = $1', [id]);
+    return res.rows.length > 0 ? this.mapChannel(res.rows[0]) : null;
+  }
+
+  /**
+   * Adds an enabled channel.
+   *
+   * @throws NotificationConfigError on an unknown type, severity or event type,
+   *         an invalid config for the type, or a duplicate name
+   */
+  async createChannel(params: CreateChannelParams): Promise<NotificationChannel> {
+    if (!CHANNEL_TYPES.includes(params.type as ChannelType)) {
+      throw new NotificationConfigError(`Unknown channel type: ${params.type} (${CHANNEL_TYPES.join(', ')})`);
+    }
+
+    const minSeverity = params.minSeverity ?? 'warning';
+    if (!NOTIFICATION_SEVERITIES.includes(minSeverity as NotificationSeverity)) {
+      throw new NotificationConfigError(`Unknown severity: ${minSeverity} (${NOTIFICATION_SEVERITIES.join(', ')})`);
+    }
+
+    const events = params.events ?? null;
+    const unknownEvents = (events || []).filter((type) => !NOTIFICATION_EVENT_TYPES.includes(type as NotificationEventType));
+    if (unknownEvents.length > 0) {
+      throw new NotificationConfigError(`Unknown event types: ${unknownEvents.join(', ')}`);
+    }
+
+    if (typeof params.config !== 'object' || params.config === null || Array.isArray(params.config)) {
+      throw new NotificationConfigError('config must be an object');
+    }
+    this.sinks[params.type as ChannelType].validate(params.config);
+
+    const existing = await query('SELECT id FROM notification_channels WHERE name = $1', [params.name]);
+    if (existing.rows.length > 0) {
+      throw new NotificationConfigError(`Channel ${params.name} already exists (id ${existing.rows[0].id})`);
+    }
+
+    const res = await query(
+      `INSERT INTO notification_channels (name, type, config, min_severity, events)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [params.name, params.type, JSON.stringify(params.config), minSeverity, events]
+    );
+
+    return this.mapChannel(res.rows[0]);
+  }
+
+  /**
+   * @returns The updated channel, or null if unknown
+   */
+  async setChannelEnabled(id: number, enabled: boolean): Promise<NotificationChannel | null> {
+    const res = await query(
+      'UPDATE notification_channels SET enabled = $2, updated_at = NOW() WHERE id = $1 RETURNING *',
+      [id, enabled]
+    );
+    return res.rows.length > 0 ? this.mapChannel(res.rows[0]) : null;
+  }
+
+  /**
+   * The channel with its secrets masked, for API responses
+   */
+  maskChannel(channel: NotificationChannel): NotificationChannel {
+    return { ...channel, config: maskChannelConfig(this.sinks[channel.type], channel.config) };
+  }
+
+  // ==========================================================================
+  // Delivery Log
+  // ==========================================================================
+
+  /**
+   * Lists deliveries, newest first.
+   */
+  async listDeliveries(filters: DeliveryFilters = {}): Promise<NotificationDelivery[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`d.status = $${values.length}`);
+    }
+    if (filters.channelId) {
+      values.push(filters.channelId);
+      conditions.push(`d.channel_id = $${values.length}`);
+    }
+    if (filters.beforeId) {
+      values.push(filters.beforeId);
+      conditions.push(`d.id < $${values.length}`);
+    }
+
+    values.push(Math.min(filters.limit || 50, MAX_LIST_LIMIT));
+
+    const res = await query(
+      `SELECT d.*, c.name AS channel_name
+       FROM notification_deliveries d
+       JOIN notification_channels c ON c.id = d.channel_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY d.id DESC
+       LIMIT $${values.length}`,
+      values
+    );
+
+    return res.rows.map((row) => this.mapDelivery(row));
+  }
+
+  async getDelivery(id: number): Promise<NotificationDelivery | null> {
+    const res = await query(
+      `SELECT d.*, c.name AS channel_name
+       FROM notification_deliveries d
+       JOIN notification_channels c ON c.id = d.channel_id
+       WHERE d.id = $1`,
+      [id]
+    );
+    return res.rows.length > 0 ? this.mapDelivery(res.rows[0]) : null;
+  }
+
+  private mapChannel(row: any): NotificationChannel {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      config: row.config,
+      minSeverity: row.min_severity,
+      events: row.events,
+      enabled: row.enabled,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapDelivery(row: any): NotificationDelivery {
+    return {
+      id: row.id,
+      channelId: row.channel_id,
+      channelName: row.channel_name,
+      eventType: row.event_type,
+      severity: row.severity,
+      title: row.title,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      nextAttemptAt: row.next_attempt_at,
+      createdAt: row.created_at,
+      sentAt: row.sent_at,
+    };
+  }
+}
+
+// Export singleton instance for convenience
+export const notifier = new Notifier({
+  maxAttempts: NOTIFY_MAX_ATTEMPTS,
+  retryBaseDelayMs: NOTIFY_RETRY_BASE_DELAY_MS,
+  intervalMs: NOTIFY_INTERVAL_MS,
+});
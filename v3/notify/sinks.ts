@@ -0,0 +1,259 @@
+import { Notification, NotificationSeverity } from './templates';
+import { sendMail } from './smtp';
+
+/**
+ * Notification Sinks
+ *
+ * One sink per channel type. A sink validates a channel's `config` when the
+ * channel is added and delivers a rendered Notification with it:
+ *
+ *   webhook  - { url, headers? }                 POST of the notification as JSON
+ *   telegram - { botToken, chatId }              Bot API sendMessage
+ *   discord  - { webhookUrl }                    Embed with the fields, colored by severity
+ *   slack    - { webhookUrl }                    Incoming webhook with section blocks
+ *   email    - { host, port?, secure?, username?, password?, from, to[] }   SMTP
+ *
+ * send() throws when the channel refused or could not be reached; the notifier
+ * records the error and retries.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ChannelType = 'webhook' | 'telegram' | 'discord' | 'slack' | 'email';
+
+export const CHANNEL_TYPES: ChannelType[] = ['webhook', 'telegram', 'discord', 'slack', 'email'];
+
+export type ChannelConfig = Record<string, any>;
+
+export interface NotificationSink {
+  readonly secretFields: string[]; // Masked when channels are listed
+
+  /**
+   * @throws NotificationConfigError on a missing or invalid setting
+   */
+  validate(config: ChannelConfig): void;
+
+  send(config: ChannelConfig, notification: Notification): Promise<void>;
+}
+
+export class NotificationConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationConfigError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEND_TIMEOUT_MS = 10000;
+
+const TELEGRAM_MAX_LENGTH = 4096;
+
+const DISCORD_COLORS: Record<NotificationSeverity, number> = {
+  info: 0x2ecc71,
+  warning: 0xf1c40f,
+  critical: 0xe74c3c,
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Title, text and fields as plain text (Telegram, email)
+ */
+export function formatPlainText(notification: Notification): string {
+  const fields = Object.entries(notification.fields).map(([name, value]) => `${name}: ${value}`);
+  return [notification.title, '', notification.text, ...(fields.length > 0 ? ['', ...fields] : [])].join('\n');
+}
+
+/**
+ * Copy of a channel config with its secrets replaced, for API responses
+ */
+export function maskChannelConfig(sink: NotificationSink, config: ChannelConfig): ChannelConfig {
+  const masked = { ...config };
+  for (const field of sink.secretFields) {
+    if (masked[field] !== undefined) {
+      masked[field] = '********';
+    }
+  }
+  return masked;
+}
+
+function requireString(config: ChannelConfig, field: string): void {
+  if (typeof config[field] !== 'string' || config[field] === '') {
+    throw new NotificationConfigError(`${field} is required`);
+  }
+}
+
+function requireUrl(config: ChannelConfig, field: string): void {
+  requireString(config, field);
+
+  let url: URL;
+  try {
+    url = new URL(config[field]);
+  } catch {
+    throw new NotificationConfigError(`${field} is not a valid URL`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new NotificationConfigError(`${field} must be an http(s) URL`);
+  }
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`HTTP ${res.status}: ${text.slice(0, 200)}`);
+  }
+}
+
+// ============================================================================
+// Sink Classes
+// ============================================================================
+
+export class HttpWebhookSink implements NotificationSink {
+  readonly secretFields = ['url', 'headers'];
+
+  validate(config: ChannelConfig): void {
+    requireUrl(config, 'url');
+    if (config.headers !== undefined) {
+      const headers = config.headers;
+      if (typeof headers !== 'object' || headers === null || Object.values(headers).some((v) => typeof v !== 'string')) {
+        throw new NotificationConfigError('headers must be an object of strings');
+      }
+    }
+  }
+
+  async send(config: ChannelConfig, notification: Notification): Promise<void> {
+    await postJson(config.url, { ...notification, sentAt: new Date().toISOString() }, config.headers);
+  }
+}
+
+export class TelegramSink implements NotificationSink {
+  readonly secretFields = ['botToken'];
+
+  validate(config: ChannelConfig): void {
+    requireString(config, 'botToken');
+    if (typeof config.chatId !== 'number' && (typeof config.chatId !== 'string' || config.chatId === '')) {
+      throw new NotificationConfigError('chatId is required');
+    }
+  }
+
+  async send(config: ChannelConfig, notification: Notification): Promise<void> {
+    await postJson(`https://api.telegram.org/bot${config.botToken}/sendMessage`, {
+      chat_id: config.chatId,
+      text: formatPlainText(notification).slice(0, TELEGRAM_MAX_LENGTH),
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+export class DiscordSink implements NotificationSink {
+  readonly secretFields = ['webhookUrl'];
+
+  validate(config: ChannelConfig): void {
+    requireUrl(config, 'webhookUrl');
+  }
+
+  async send(config: ChannelConfig, notification: Notification): Promise<void> {
+    await postJson(config.webhookUrl, {
+      embeds: [
+        {
+          title: notification.title.slice(0, 256),
+          description: notification.text.slice(0, 4096),
+          color: DISCORD_COLORS[notification.severity],
+          fields: Object.entries(notification.fields)
+            .slice(0, 25)
+            .map(([name, value]) => ({ name, value: value.slice(0, 1024), inline: true })),
+          timestamp: new Date().toISOString(),
+        },
+      ],
+    });
+  }
+}
+
+export class SlackSink implements NotificationSink {
+  readonly secretFields = ['webhookUrl'];
+
+  validate(config: ChannelConfig): void {
+    requireUrl(config, 'webhookUrl');
+  }
+
+  async send(config: ChannelConfig, notification: Notification): Promise<void> {
+    const fields = Object.entries(notification.fields).slice(0, 10);
+
+    await postJson(config.webhookUrl, {
+      text: notification.title, // Fallback for clients that do not render blocks
+      blocks: [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*${notification.title}*\n${notification.text}`.slice(0, 3000) },
+        },
+        ...(fields.length > 0
+          ? [
+              {
+                type: 'section',
+                fields: fields.map(([name, value]) => ({ type: 'mrkdwn', text: `*${name}*\n${value}` })),
+              },
+            ]
+          : []),
+      ],
+    });
+  }
+}
+
+export class EmailSink implements NotificationSink {
+  readonly secretFields = ['password'];
+
+  validate(config: ChannelConfig): void {
+    requireString(config, 'host');
+    requireString(config, 'from');
+    if (config.port !== undefined && !(Number.isInteger(config.port) && config.port > 0 && config.port < 65536)) {
+      throw new NotificationConfigError(`Invalid port: ${config.port}`);
+    }
+    if (!Array.isArray(config.to) || config.to.length === 0 || config.to.some((to: unknown) => typeof to !== 'string')) {
+      throw new NotificationConfigError('to must be a non-empty list of addresses');
+    }
+  }
+
+  async send(config: ChannelConfig, notification: Notification): Promise<void> {
+    const secure = config.secure ?? config.port === 465;
+
+    await sendMail(
+      {
+        host: config.host,
+        port: config.port ?? (secure ? 465 : 587),
+        secure,
+        username: config.username,
+        password: config.password,
+        requireTls: config.requireTls,
+      },
+      {
+        from: config.from,
+        to: config.to,
+        subject: `[IAGood ${notification.severity.toUpperCase()}] ${notification.title}`,
+        text: formatPlainText(notification),
+      }
+    );
+  }
+}
+
+// Sinks by channel type
+export const DEFAULT_SINKS: Record<ChannelType, NotificationSink> = {
+  webhook: new HttpWebhookSink(),
+  telegram: new TelegramSink(),
+  discord: new DiscordSink(),
+  slack: new SlackSink(),
+  email: new EmailSink(),
+};
@@ -0,0 +1,76 @@
+/**
+ * SMTP Client Test Suite
+ *
+ * Runs sendMail against a local plain-text SMTP server (no STARTTLS offered):
+ * 1. Credentials are refused without TLS by default
+ * 2. requireTls: false sends them, for a trusted local relay
+ * 3. Messages without credentials are delivered
+ */
+
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { sendMail, MailMessage } from './smtp';
+
+const MAIL: MailMessage = { from: 'IAGood <alerts@example.com>', to: ['ops@example.com'], subject: 'Test', text: 'hi' };
+
+describe('sendMail', () => {
+  let server: net.Server;
+  let port: number;
+  let commands: string[];
+
+  beforeEach(async () => {
+    commands = [];
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let data = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (data) {
+            if (line === '.') {
+              data = false;
+              socket.write('250 queued\r\n');
+            }
+            continue;
+          }
+          commands.push(line.split(' ')[0]);
+          if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+          else if (line === 'DATA') {
+            data = true;
+            socket.write('354 go\r\n');
+          } else if (line === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const config = (extra: object = {}) => ({ host: '127.0.0.1', port, secure: false, timeoutMs: 2000, ...extra });
+
+  it('should refuse to send credentials without TLS', async () => {
+    await expect(sendMail(config({ username: 'user', password: 'pass' }), MAIL)).rejects.toThrow('STARTTLS');
+    expect(commands).not.toContain('AUTH');
+  });
+
+  it('should send credentials without TLS when requireTls is false', async () => {
+    await sendMail(config({ username: 'user', password: 'pass', requireTls: false }), MAIL);
+    expect(commands).toContain('AUTH');
+  });
+
+  it('should deliver without credentials', async () => {
+    await sendMail(config(), MAIL);
+    expect(commands).toEqual(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+  });
+});
@@ -0,0 +1,241 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+/**
+ * Minimal SMTP Client
+ *
+ * Just enough SMTP to hand a plain-text notification to a relay: implicit TLS
+ * (port 465, `secure`) or STARTTLS when the server offers it, AUTH PLAIN, one
+ * message per connection. Credentials are only sent over TLS unless
+ * `requireTls` is turned off for a trusted local relay. Bodies are sent base64-encoded, so no dot-stuffing
+ * or 8BITMIME support is needed.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  requireTls?: boolean; // Refuse to send credentials over plain text (default true)
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string; // 'IAGood <alerts@example.com>' or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  text: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * The address part of 'Name <address>'
+ */
+export function mailAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * RFC 5322 message with a base64 text/plain body. Header values are stripped
+ * of line breaks; a non-ASCII subject is encoded as an RFC 2047 word.
+ */
+export function formatMailMessage(mail: MailMessage, date: Date = new Date()): string {
+  const header = (value: string) => value.replace(/[\r\n]+/g, ' ');
+  const subject = header(mail.subject);
+  const encodedSubject = /^[\x20-\x7e]*$/.test(subject)
+    ? subject
+    : `=?UTF-8?B?${Buffer.from(subject, 'utf8').toString('base64')}?=`;
+  const domain = mailAddress(mail.from).split('@')[1] || os.hostname();
+  const body = Buffer.from(mail.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+
+  return [
+    `From: ${header(mail.from)}`,
+    `To: ${mail.to.map(header).join(', ')}`,
+    `Subject: ${encodedSubject}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${date.getTime()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) || []),
+  ].join('\r\n');
+}
+
+/**
+ * Delivers one message.
+ *
+ * @throws Error with the server's reply when a command is refused, on timeout, or
+ *   when credentials would be sent without TLS
+ */
+export async function sendMail(config: SmtpConfig, mail: MailMessage): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  const session = new SmtpSession(socket, timeoutMs);
+
+  try {
+    await session.expect('greeting', [220]);
+
+    let encrypted = config.secure;
+    const ehlo = await session.command(`EHLO ${os.hostname()}`, 'EHLO', [250]);
+    if (!config.secure && /^STARTTLS$/im.test(ehlo.text)) {
+      await session.command('STARTTLS', 'STARTTLS', [220]);
+      await session.startTls(config.host);
+      await session.command(`EHLO ${os.hostname()}`, 'EHLO', [250]);
+      encrypted = true;
+    }
+
+    if (config.username) {
+      if (!encrypted && config.requireTls !== false) {
+        throw new Error(`SMTP server ${config.host} does not offer STARTTLS; refusing to send credentials in plain text`);
+      }
+      const credentials = Buffer.from(`\0${config.username}\0${config.password || ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, 'AUTH', [235]);
+    }
+
+    await session.command(`MAIL FROM:<${mailAddress(mail.from)}>`, 'MAIL FROM', [250]);
+    for (const to of mail.to) {
+      await session.command(`RCPT TO:<${mailAddress(to)}>`, 'RCPT TO', [250, 251]);
+    }
+    await session.command('DATA', 'DATA', [354]);
+    await session.command(`${formatMailMessage(mail)}\r\n.`, 'message', [250]);
+    await session.command('QUIT', 'QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
+
+// ============================================================================
+// SMTP Session Class
+// ============================================================================
+
+/**
+ * Reads SMTP replies (multi-line '250-...' continuations up to the final
+ * '250 ...' line) off a socket, across a STARTTLS upgrade.
+ */
+class SmtpSession {
+  private buffer = '';
+  private error: Error | null = null;
+  private waiting: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  async command(line: string, label: string, expected: number[]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(label, expected);
+  }
+
+  async expect(label: string, expected: number[]): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} refused: ${response.code} ${response.text}`);
+    }
+    return response;
+  }
+
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    const secure = tls.connect({ socket: plain, servername: host });
+    this.attach(secure);
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => {
+      socket.destroy(new Error(`SMTP server did not answer within ${this.timeoutMs}ms`));
+    });
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.deliver();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.takeResponse();
+    if (response) return Promise.resolve(response);
+    if (this.error) return Promise.reject(this.error);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private deliver(): void {
+    if (!this.waiting) return;
+
+    const response = this.takeResponse();
+    if (response) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error = this.error || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.error);
+    }
+  }
+
+  private takeResponse(): SmtpResponse | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf('\n', offset);
+      if (end < 0) return null;
+
+      const line = this.buffer.slice(offset, end).replace(/\r$/, '');
+      offset = end + 1;
+      lines.push(line.slice(4));
+
+      if (/^\d{3}( |$)/.test(line)) {
+        this.buffer = this.buffer.slice(offset);
+        return { code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') };
+      }
+    }
+  }
+}
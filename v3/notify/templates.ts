@@ -0,0 +1,184 @@
+/**
+ * Notification Templates
+ *
+ * Turns an event (executed trade, failed trade, position flag, balance
+ * mismatch) into a Notification: severity, a one-line title, a plain-text body
+ * and the same details as key/value fields for sinks that lay them out
+ * (Discord embeds, Slack blocks, the generic webhook's JSON).
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export const NOTIFICATION_SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+
+export type NotificationEventType = 'trade_executed' | 'trade_failed' | 'position_flag' | 'balance_mismatch' | 'test';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'trade_executed',
+  'trade_failed',
+  'position_flag',
+  'balance_mismatch',
+  'test',
+];
+
+export interface TradeExecutedEvent {
+  type: 'trade_executed';
+  tradeId: number;
+  wallet: string;
+  action: string; // Signal action (BUY, SELL, CLOSE, ...)
+  symbol: string;
+  inputToken: string;
+  outputToken: string;
+  inputAmount: number;
+  outputAmount: number;
+  slippagePct: number;
+  signature: string;
+  paper: boolean;
+}
+
+export interface TradeFailedEvent {
+  type: 'trade_failed';
+  severity: 'warning' | 'critical'; // critical = failed at or after the swap
+  tradeId: number | null; // null when the signal failed before a trade row existed
+  jobId?: number;
+  action: string;
+  symbol: string;
+  timeframe?: string;
+  reason: string; // ErrorResponse reason
+  error: string;
+}
+
+export interface PositionFlagEvent {
+  type: 'position_flag';
+  severity: NotificationSeverity;
+  flagType: string;
+  description: string;
+  walletId: number;
+  positionId?: number;
+  tradeId?: number;
+}
+
+export interface BalanceMismatchEvent {
+  type: 'balance_mismatch';
+  wallet: string; // Name or address
+  token: string; // Symbol or mint
+  expected: number;
+  actual: number;
+  discrepancy: number;
+}
+
+export interface TestEvent {
+  type: 'test';
+  channel: string;
+}
+
+export type NotificationEvent =
+  | TradeExecutedEvent
+  | TradeFailedEvent
+  | PositionFlagEvent
+  | BalanceMismatchEvent
+  | TestEvent;
+
+export interface Notification {
+  type: NotificationEventType;
+  severity: NotificationSeverity;
+  title: string;
+  text: string;
+  fields: Record<string, string>;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Whether a notification of `severity` passes a channel's minimum severity
+ */
+export function meetsSeverity(severity: NotificationSeverity, minSeverity: NotificationSeverity): boolean {
+  return NOTIFICATION_SEVERITIES.indexOf(severity) >= NOTIFICATION_SEVERITIES.indexOf(minSeverity);
+}
+
+/**
+ * Renders an event. Title and text are plain text; sinks add their own markup.
+ */
+export function renderNotification(event: NotificationEvent): Notification {
+  switch (event.type) {
+    case 'trade_executed': {
+      const fields: Record<string, string> = {
+        Trade: String(event.tradeId),
+        Wallet: event.wallet,
+        Sold: `${event.inputAmount} ${event.inputToken}`,
+        Received: `${event.outputAmount} ${event.outputToken}`,
+        Slippage: `${event.slippagePct.toFixed(2)}%`,
+      };
+      if (!event.paper) {
+        fields.Transaction = `https://solscan.io/tx/${event.signature}`;
+      }
+
+      return {
+        type: event.type,
+        severity: 'info',
+        title: `${event.paper ? '[PAPER] ' : ''}${event.action} ${event.symbol} executed (${event.wallet})`,
+        text: `Trade ${event.tradeId}: ${event.inputAmount} ${event.inputToken} → ${event.outputAmount} ${event.outputToken}, slippage ${event.slippagePct.toFixed(2)}%`,
+        fields,
+      };
+    }
+
+    case 'trade_failed': {
+      const fields: Record<string, string> = { Reason: event.reason };
+      if (event.tradeId !== null) fields.Trade = String(event.tradeId);
+      if (event.jobId !== undefined) fields.Job = String(event.jobId);
+      if (event.timeframe) fields.Timeframe = event.timeframe;
+
+      return {
+        type: event.type,
+        severity: event.severity,
+        title: `${event.action} ${event.symbol} failed: ${event.reason}`,
+        text: event.error,
+        fields,
+      };
+    }
+
+    case 'position_flag': {
+      const fields: Record<string, string> = { Flag: event.flagType, Wallet: String(event.walletId) };
+      if (event.positionId !== undefined) fields.Position = String(event.positionId);
+      if (event.tradeId !== undefined) fields.Trade = String(event.tradeId);
+
+      return {
+        type: event.type,
+        severity: event.severity,
+        title: `Position flag ${event.severity.toUpperCase()}: ${event.flagType}`,
+        text: event.description,
+        fields,
+      };
+    }
+
+    case 'balance_mismatch':
+      return {
+        type: event.type,
+        severity: 'critical',
+        title: `Balance mismatch: ${event.token} in ${event.wallet}`,
+        text: `Expected ${event.expected} ${event.token}, found ${event.actual} on-chain (off by ${event.discrepancy})`,
+        fields: {
+          Wallet: event.wallet,
+          Token: event.token,
+          Expected: String(event.expected),
+          'On-chain': String(event.actual),
+          Discrepancy: String(event.discrepancy),
+        },
+      };
+
+    case 'test':
+      return {
+        type: event.type,
+        severity: 'info',
+        title: `Test notification for ${event.channel}`,
+        text: 'Notifications from the IAGood trading bot reach this channel.',
+        fields: {},
+      };
+  }
+}
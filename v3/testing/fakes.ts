@@ -0,0 +1,407 @@
+import * as crypto from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import {
+  QuoteParams,
+  QuoteResult,
+  SwapParams,
+  SwapResult,
+  QuoteValidationError,
+  QuoteRejectionReason,
+} from '../dex/jupiter';
+import { EnhancedTransaction, TokenAccountResponse } from '../helius/types';
+import { NotificationEvent, NotificationEventType } from '../notify/templates';
+import { SwapProvider, ChainReader, WalletSigner, Clock, PriceSource, NotificationPublisher } from '../core/ports';
+import { TOKENS, TokenConfig } from '../../lib/config/tokens';
+
+/**
+ * In-memory Fakes of the Ports
+ *
+ * Offline stand-ins for Jupiter, Helius, the wallet seed, the clock, the price
+ * oracle and the notifier, for driving createApp (v3/api/app.ts) in tests:
+ *
+ *   FakeClock          - settable time; sleep() advances it instantly
+ *   FakeSigner         - deterministic keypairs per wallet name (no seed needed)
+ *   FakePrices         - fixed USD prices
+ *   FakeChain          - SOL and token balances per address, parsed transactions
+ *   FakeSwapProvider   - quotes at FakePrices, swaps that move FakeChain balances
+ *                        and land as parsed transactions; failNext() injects faults
+ *   RecordingNotifier  - keeps every notification
+ *
+ * Amounts follow the real clients: quotes and SwapResult in raw units,
+ * balances and parsed transfers in UI units.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Fault injected into the next matching call:
+ *   quote - getQuote throws (a QuoteValidationError carrying the quote if reason is set)
+ *   swap  - executeSwap returns an error without sending (requoteable: quote expired)
+ *   chain - the swap lands but fails on-chain (transactionError, balances unchanged)
+ */
+export type SwapFault =
+  | { stage: 'quote'; error?: string; reason?: QuoteRejectionReason }
+  | { stage: 'swap'; error?: string; requoteable?: boolean }
+  | { stage: 'chain'; error?: any };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Counterparty of every fake swap
+export const FAKE_POOL_ADDRESS = 'FakePoo1111111111111111111111111111111111111';
+
+const DEFAULT_PRICES: Record<string, number> = {
+  SOL: 150,
+  USDC: 1,
+  FARTCOIN: 1.2,
+  FARTBOY: 0.05,
+  USELESS: 0.3,
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function tokenByMint(mint: string): TokenConfig {
+  const token = Object.values(TOKENS).find((config) => config.mint === mint);
+  if (!token) {
+    throw new Error(`Unknown mint: ${mint}`);
+  }
+  return token;
+}
+
+function toRaw(amount: number, decimals: number): number {
+  return Math.floor(amount * Math.pow(10, decimals));
+}
+
+function toUi(amountRaw: number, decimals: number): number {
+  return amountRaw / Math.pow(10, decimals);
+}
+
+// ============================================================================
+// Clock, Signer, Prices, Notifier
+// ============================================================================
+
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(start: Date = new Date('2026-01-05T12:00:00Z')) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  set(time: Date): void {
+    this.time = time.getTime();
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.advance(ms);
+  }
+}
+
+export class FakeSigner implements WalletSigner {
+  private wallets = new Map<string, Keypair>();
+
+  getWallet(walletName: string): Keypair {
+    let wallet = this.wallets.get(walletName);
+    if (!wallet) {
+      const seed = crypto.createHash('sha256').update(`fake-wallet:${walletName}`).digest();
+      wallet = Keypair.fromSeed(seed);
+      this.wallets.set(walletName, wallet);
+    }
+    return wallet;
+  }
+
+  address(walletName: string): string {
+    return this.getWallet(walletName).publicKey.toString();
+  }
+}
+
+export class FakePrices implements PriceSource {
+  private prices: Record<string, number>;
+
+  constructor(prices: Record<string, number> = DEFAULT_PRICES) {
+    this.prices = { ...prices };
+  }
+
+  set(token: string, usd: number): void {
+    this.prices[token] = usd;
+  }
+
+  async getPrice(tokenSymbol: string): Promise<number> {
+    const price = this.prices[tokenSymbol.toUpperCase()];
+    if (price === undefined) {
+      throw new Error(`Unknown token: ${tokenSymbol}`);
+    }
+    return price;
+  }
+
+  async getPrices(tokenSymbols: string[]): Promise<Record<string, number>> {
+    const result: Record<string, number> = {};
+    for (const symbol of tokenSymbols) {
+      const price = this.prices[symbol.toUpperCase()];
+      if (price !== undefined) {
+        result[symbol] = price;
+      }
+    }
+    return result;
+  }
+}
+
+export class RecordingNotifier implements NotificationPublisher {
+  readonly events: NotificationEvent[] = [];
+
+  notify(event: NotificationEvent): void {
+    this.events.push(event);
+  }
+
+  ofType<T extends NotificationEventType>(type: T): Extract<NotificationEvent, { type: T }>[] {
+    return this.events.filter((event): event is Extract<NotificationEvent, { type: T }> => event.type === type);
+  }
+}
+
+// ============================================================================
+// Fake Chain
+// ============================================================================
+
+export class FakeChain implements ChainReader {
+  private balances = new Map<string, Map<string, number>>(); // address -> mint -> raw amount
+  private transactions = new Map<string, EnhancedTransaction>();
+  private slot = 1;
+
+  /**
+   * Sets a balance in UI units (SOL for SOL)
+   */
+  setBalance(address: string, token: string, amount: number): void {
+    const config = TOKENS[token];
+    this.setRaw(address, config.mint, toRaw(amount, config.decimals));
+  }
+
+  /**
+   * Balance in UI units
+   */
+  balance(address: string, token: string): number {
+    const config = TOKENS[token];
+    return toUi(this.getRaw(address, config.mint), config.decimals);
+  }
+
+  getRaw(address: string, mint: string): number {
+    return this.balances.get(address)?.get(mint) || 0;
+  }
+
+  setRaw(address: string, mint: string, amountRaw: number): void {
+    if (!this.balances.has(address)) {
+      this.balances.set(address, new Map());
+    }
+    this.balances.get(address)!.set(mint, amountRaw);
+  }
+
+  addTransaction(transaction: Omit<EnhancedTransaction, 'slot'>): EnhancedTransaction {
+    const landed = { ...transaction, slot: this.slot++ };
+    this.transactions.set(landed.signature, landed);
+    return landed;
+  }
+
+  async getSolBalance(walletAddress: string): Promise<number> {
+    return this.getRaw(walletAddress, TOKENS.SOL.mint);
+  }
+
+  async getTokenAccountsByOwner(walletAddress: string, tokenMint?: string): Promise<TokenAccountResponse[]> {
+    const mints = tokenMint ? [tokenMint] : [...(this.balances.get(walletAddress)?.keys() || [])];
+
+    return mints
+      .filter((mint) => mint !== TOKENS.SOL.mint && this.balances.get(walletAddress)?.has(mint))
+      .map((mint) => {
+        const decimals = tokenByMint(mint).decimals;
+        const amountRaw = this.getRaw(walletAddress, mint);
+        const uiAmount = toUi(amountRaw, decimals);
+        return {
+          pubkey: `${walletAddress.slice(0, 8)}:${mint.slice(0, 8)}`,
+          account: {
+            data: {
+              parsed: {
+                info: {
+                  mint,
+                  owner: walletAddress,
+                  tokenAmount: { amount: String(amountRaw), decimals, uiAmount, uiAmountString: String(uiAmount) },
+                },
+                type: 'account',
+              },
+              program: 'spl-token',
+              space: 165,
+            },
+            executable: false,
+            lamports: 2039280,
+            owner: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+            rentEpoch: 0,
+          },
+        };
+      });
+  }
+
+  async getEnhancedTransaction(signature: string): Promise<EnhancedTransaction | null> {
+    return this.transactions.get(signature) || null;
+  }
+}
+
+// ============================================================================
+// Fake Swap Provider
+// ============================================================================
+
+export class FakeSwapProvider implements SwapProvider {
+  readonly quotes: QuoteParams[] = [];
+  readonly swaps: SwapResult[] = [];
+  priceImpactPct = 0.1;
+  fillSlippageBps = 0; // Fill below the quote, as a real swap would
+  private faults: SwapFault[] = [];
+  private signatures = 0;
+
+  constructor(
+    private chain: FakeChain,
+    private prices: FakePrices
+  ) {}
+
+  /**
+   * Makes the next quote (stage 'quote') or swap (stages 'swap' and 'chain') fail
+   */
+  failNext(fault: SwapFault): void {
+    this.faults.push(fault);
+  }
+
+  async getQuote(params: QuoteParams): Promise<QuoteResult> {
+    this.quotes.push(params);
+    const quote = await this.buildQuote(params);
+
+    const fault = this.takeFault(['quote']);
+    if (fault?.stage === 'quote') {
+      if (fault.reason) {
+        throw new QuoteValidationError(fault.error || `Quote rejected: ${fault.reason}`, fault.reason, quote);
+      }
+      throw new Error(fault.error || 'Jupiter quote API error: 500');
+    }
+
+    return quote;
+  }
+
+  async executeSwap(params: SwapParams): Promise<SwapResult> {
+    const { quote, wallet } = params;
+    const address = wallet.publicKey.toString();
+    const inAmountRaw = parseInt(quote.inAmount);
+    const outAmountRaw = Math.floor(parseInt(quote.outAmount) * (1 - this.fillSlippageBps / 10000));
+    const base = { inputAmount: 0, outputAmount: 0, inputMint: quote.inputMint, outputMint: quote.outputMint };
+
+    const fault = this.takeFault(['swap', 'chain']);
+    if (fault?.stage === 'swap') {
+      return this.record({
+        ...base,
+        success: false,
+        error: fault.error || 'Transaction simulation failed',
+        requoteable: fault.requoteable,
+      });
+    }
+
+    if (this.chain.getRaw(address, quote.inputMint) < inAmountRaw) {
+      return this.record({ ...base, success: false, error: 'Insufficient funds for swap' });
+    }
+
+    const signature = `fakesig${++this.signatures}`;
+    if (fault?.stage === 'chain') {
+      this.chain.addTransaction({
+        ...this.describe(signature, address),
+        transactionError: fault.error || { InstructionError: [2, { Custom: 6001 }] },
+      });
+      return this.record({ ...base, success: true, signature, inputAmount: inAmountRaw });
+    }
+
+    this.chain.setRaw(address, quote.inputMint, this.chain.getRaw(address, quote.inputMint) - inAmountRaw);
+    this.chain.setRaw(address, quote.outputMint, this.chain.getRaw(address, quote.outputMint) + outAmountRaw);
+    this.chain.addTransaction({
+      ...this.describe(signature, address),
+      tokenTransfers: [
+        {
+          fromUserAccount: address,
+          toUserAccount: FAKE_POOL_ADDRESS,
+          tokenAmount: toUi(inAmountRaw, tokenByMint(quote.inputMint).decimals),
+          mint: quote.inputMint,
+        },
+        {
+          fromUserAccount: FAKE_POOL_ADDRESS,
+          toUserAccount: address,
+          tokenAmount: toUi(outAmountRaw, tokenByMint(quote.outputMint).decimals),
+          mint: quote.outputMint,
+        },
+      ],
+    });
+
+    return this.record({ ...base, success: true, signature, inputAmount: inAmountRaw, outputAmount: outAmountRaw });
+  }
+
+  private async buildQuote(params: QuoteParams): Promise<QuoteResult> {
+    const input = tokenByMint(params.inputMint);
+    const output = tokenByMint(params.outputMint);
+    const inputUsd = await this.prices.getPrice(input.symbol);
+    const outputUsd = await this.prices.getPrice(output.symbol);
+
+    const outAmountRaw = toRaw((toUi(params.amount, input.decimals) * inputUsd) / outputUsd, output.decimals);
+    const slippageBps = params.maxSlippageBps ?? 50;
+
+    return {
+      inputMint: params.inputMint,
+      outputMint: params.outputMint,
+      inAmount: String(params.amount),
+      outAmount: String(outAmountRaw),
+      otherAmountThreshold: String(Math.floor(outAmountRaw * (1 - slippageBps / 10000))),
+      swapMode: 'ExactIn',
+      slippageBps,
+      priceImpactPct: this.priceImpactPct,
+      routePlan: [
+        {
+          swapInfo: {
+            ammKey: FAKE_POOL_ADDRESS,
+            label: 'Fake AMM',
+            inputMint: params.inputMint,
+            outputMint: params.outputMint,
+            inAmount: String(params.amount),
+            outAmount: String(outAmountRaw),
+            feeAmount: '0',
+            feeMint: params.inputMint,
+          },
+          percent: 100,
+        },
+      ],
+      timeFetched: Date.now(),
+    };
+  }
+
+  private describe(signature: string, feePayer: string): Omit<EnhancedTransaction, 'slot'> {
+    return {
+      description: 'Fake swap',
+      type: 'SWAP',
+      source: 'JUPITER',
+      fee: 5000,
+      feePayer,
+      signature,
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  private takeFault(stages: SwapFault['stage'][]): SwapFault | undefined {
+    const index = this.faults.findIndex((fault) => stages.includes(fault.stage));
+    return index >= 0 ? this.faults.splice(index, 1)[0] : undefined;
+  }
+
+  private record(result: SwapResult): SwapResult {
+    this.swaps.push(result);
+    return result;
+  }
+}
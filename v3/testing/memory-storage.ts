@@ -0,0 +1,904 @@
+import { Storage, BalanceCheckParams, BlockedRequest, WalletLock } from '../core/storage';
+import { Clock } from '../core/ports';
+import { TradeRoute, RouteOptions, matchRoute, matchPositionRoute } from '../core/route-registry';
+import { TradingHalt, HaltParams } from '../core/trading-halts';
+import { PendingTradeParams, RejectedTradeParams, TransitionData, TradeEvent } from '../core/trade-lifecycle';
+import { RecordAttemptParams, TradeAttempt, AttemptStatus } from '../core/trade-attempts';
+import { SliceFill, TradeSlice } from '../core/trade-slices';
+import {
+  Position,
+  WalletPosition,
+  RecordBuyParams,
+  RecordSellParams,
+  SellResult,
+  FlagParams,
+  CLOSE_DUST_RATIO,
+} from '../core/position-tracker';
+import { ApplyFillParams } from '../core/paper-trading';
+import { SizingPolicy, allInPolicy } from '../core/position-sizing';
+import { RiskLimits, RiskActivity, TokenAmount } from '../core/risk-limits';
+import {
+  ReceivedSignal,
+  SignalContext,
+  SignalOutcome,
+  SignalStatus,
+  UNAUTHENTICATED_PAYLOAD_CHARS,
+  redactPayload,
+} from '../core/signal-log';
+import { ClaimResult, StoredResponse } from '../core/idempotency';
+import { TradeJob, EnqueueParams, ReclaimedJobs } from '../core/job-queue';
+import { PipelineResult } from '../core/trade-pipeline';
+import { WebhookKey } from '../core/webhook-keys';
+import { TradeStatus, ExitTrigger, TradeTransitionError, isValidTradeTransition } from '../core/types';
+import { IDEMPOTENCY_WINDOW_SECONDS, JOB_MAX_ATTEMPTS } from '../../lib/config/constants';
+
+/**
+ * In-memory Storage
+ *
+ * Storage (v3/core/storage.ts) kept in plain arrays and maps, for running the
+ * webhook and trade pipeline offline with the fakes in fakes.ts. It follows the
+ * Postgres stores where the pipeline depends on them: trade status transitions
+ * are validated, positions use the same average cost accounting, idempotency
+ * keys expire after the window and jobs only run once run_after has passed
+ * (both on the given clock).
+ *
+ * Tables are public so tests can assert on them; the add* / set* helpers stand
+ * in for the admin API and seed scripts.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface MemoryWallet {
+  id: number;
+  name: string;
+  paperMode: boolean;
+}
+
+export interface MemoryTrade {
+  id: number;
+  walletId: number;
+  symbol: string;
+  action: string; // Swap side
+  signalAction: string;
+  timeframe: string;
+  inputToken: string;
+  outputToken: string;
+  inputAmount: number;
+  outputAmount: number | null;
+  status: TradeStatus;
+  isPaper: boolean;
+  signature: string | null;
+  actualSlippage: number | null;
+  error: string | null;
+  rejectionReason: string | null;
+  realizedPnl: number | null;
+  exitTrigger: ExitTrigger | null;
+  signalId: number | null;
+  jobId: number | null;
+  positionId: number | null; // Position the fill was applied to
+  createdAt: Date;
+  executedAt: Date | null;
+  interruptedAt: Date | null;
+}
+
+export interface MemorySignal {
+  id: number;
+  receivedAt: Date;
+  ip: string | null;
+  rawPayload: string | null;
+  status: SignalStatus;
+  context: SignalContext;
+  outcome: SignalOutcome | null;
+}
+
+export interface AddRouteParams {
+  symbol: string;
+  timeframe?: string | null;
+  strategy?: string | null;
+  walletName: string;
+  assetToken: string;
+  fundingToken: string;
+  options?: RouteOptions;
+}
+
+// ============================================================================
+// Memory Storage Class
+// ============================================================================
+
+export class MemoryStorage implements Storage {
+  readonly wallets: MemoryWallet[] = [];
+  readonly routeTable: TradeRoute[] = [];
+  readonly haltTable: TradingHalt[] = [];
+  readonly tradeTable: MemoryTrade[] = [];
+  readonly events: TradeEvent[] = [];
+  readonly attemptTable: TradeAttempt[] = [];
+  readonly sliceTable: TradeSlice[] = [];
+  readonly positionTable: Position[] = [];
+  readonly flags: FlagParams[] = [];
+  readonly paperBalances = new Map<string, number>(); // `${walletId}:${token}`
+  readonly policies = new Map<number, SizingPolicy>();
+  readonly riskLimits: RiskLimits[] = [];
+  readonly balanceCheckTable: BalanceCheckParams[] = [];
+  readonly signalTable: MemorySignal[] = [];
+  readonly idempotencyKeys = new Map<string, { claimedAt: Date; response: StoredResponse | null }>();
+  readonly jobTable: TradeJob[] = [];
+  readonly keys: WebhookKey[] = [];
+  readonly blockedRequests: BlockedRequest[] = [];
+  private walletLocks = new Map<number, Promise<void>>();
+  private nextId = 1;
+
+  constructor(
+    private clock: Clock,
+    private idempotencyWindowSeconds = IDEMPOTENCY_WINDOW_SECONDS
+  ) {}
+
+  // ==========================================================================
+  // Seed Helpers
+  // ==========================================================================
+
+  addWallet(name: string, options: { paperMode?: boolean } = {}): MemoryWallet {
+    const wallet = { id: this.id(), name, paperMode: options.paperMode === true };
+    this.wallets.push(wallet);
+    return wallet;
+  }
+
+  addRoute(params: AddRouteParams): TradeRoute {
+    const wallet = this.walletByName(params.walletName);
+    const route: TradeRoute = {
+      id: this.id(),
+      symbol: params.symbol,
+      timeframe: params.timeframe ?? null,
+      strategy: params.strategy ?? null,
+      walletId: wallet.id,
+      walletName: wallet.name,
+      assetToken: params.assetToken,
+      fundingToken: params.fundingToken,
+      options: params.options || {},
+      enabled: true,
+      createdAt: this.clock.now(),
+    };
+    this.routeTable.push(route);
+    return route;
+  }
+
+  setPaperBalance(walletId: number, token: string, amount: number): void {
+    this.paperBalances.set(`${walletId}:${token}`, amount);
+  }
+
+  addWebhookKey(key: Pick<WebhookKey, 'keyId' | 'name' | 'secret'> & Partial<WebhookKey>): WebhookKey {
+    const stored: WebhookKey = {
+      id: this.id(),
+      allowedWallets: null,
+      allowedSymbols: null,
+      parser: 'json',
+      active: true,
+      expiresAt: null,
+      revokedAt: null,
+      lastUsedAt: null,
+      createdAt: this.clock.now(),
+      ...key,
+    };
+    this.keys.push(stored);
+    return stored;
+  }
+
+  trade(tradeId: number): MemoryTrade | undefined {
+    return this.tradeTable.find((trade) => trade.id === tradeId);
+  }
+
+  // ==========================================================================
+  // Storage
+  // ==========================================================================
+
+  routes: Storage['routes'] = {
+    resolve: async (symbol, timeframe, strategy) => matchRoute(this.enabledRoutes(), symbol, timeframe, strategy),
+    findForPosition: async (walletId, assetToken) => matchPositionRoute(this.enabledRoutes(), walletId, assetToken),
+  };
+
+  halts: Storage['halts'] = {
+    findActive: async (params) => {
+      const scopeOrder = { global: 0, wallet: 1, token: 2 };
+      const active = this.haltTable
+        .filter(
+          (halt) =>
+            halt.resumedAt === null &&
+            (halt.scope === 'global' ||
+              (halt.scope === 'wallet' && halt.target === params.walletName) ||
+              (halt.scope === 'token' && params.tokens.includes(halt.target!)))
+        )
+        .sort((a, b) => scopeOrder[a.scope] - scopeOrder[b.scope] || a.id - b.id);
+      return active[0] || null;
+    },
+    halt: async (params: HaltParams) => {
+      const target = params.scope === 'global' ? null : params.target ?? null;
+      const existing = this.haltTable.find(
+        (halt) => halt.resumedAt === null && halt.scope === params.scope && halt.target === target
+      );
+      if (existing) {
+        return { halt: existing, created: false };
+      }
+
+      const halt: TradingHalt = {
+        id: this.id(),
+        scope: params.scope,
+        target,
+        reason: params.reason,
+        haltedBy: params.actor,
+        haltedAt: this.clock.now(),
+        resumedBy: null,
+        resumedAt: null,
+        resumeReason: null,
+      };
+      this.haltTable.push(halt);
+      return { halt, created: true };
+    },
+  };
+
+  trades: Storage['trades'] = {
+    recordPending: async (params: PendingTradeParams, actor: string) => {
+      const trade = this.insertTrade({
+        walletId: params.walletId,
+        symbol: params.symbol,
+        action: params.action,
+        signalAction: params.signalAction,
+        timeframe: params.timeframe,
+        inputToken: params.inputToken,
+        outputToken: params.outputToken,
+        inputAmount: params.inputAmount,
+        status: 'pending',
+        isPaper: params.isPaper,
+        exitTrigger: params.exitTrigger,
+        signalId: params.signalId,
+        jobId: params.jobId,
+        createdAt: this.clock.now(),
+      });
+      this.addEvent(trade.id, null, 'pending', actor, {
+        symbol: params.symbol,
+        action: params.signalAction,
+        timeframe: params.timeframe,
+        inputAmount: params.inputAmount,
+      });
+      return trade.id;
+    },
+    recordRejected: async (params: RejectedTradeParams, actor: string) => {
+      const trade = this.insertTrade({
+        walletId: params.walletId,
+        symbol: params.symbol,
+        action: params.action,
+        signalAction: params.signalAction || params.action,
+        timeframe: params.timeframe,
+        inputToken: params.inputToken,
+        outputToken: params.outputToken,
+        inputAmount: 0,
+        status: 'failed',
+        isPaper: this.walletById(params.walletId)?.paperMode === true,
+        error: params.error,
+        rejectionReason: params.reason,
+        signalId: params.signalId ?? null,
+        createdAt: this.clock.now(),
+      });
+      this.addEvent(trade.id, null, 'failed', actor, { reason: params.reason, error: params.error });
+      return trade.id;
+    },
+    transition: async (tradeId: number, to: TradeStatus, actor: string, data: TransitionData = {}) => {
+      const trade = this.trade(tradeId);
+      if (!trade) {
+        throw new Error(`Trade not found: ${tradeId}`);
+      }
+
+      const from = trade.status;
+      if (!isValidTradeTransition(from, to)) {
+        throw new TradeTransitionError(tradeId, from, to);
+      }
+
+      trade.status = to;
+      if (data.signature) {
+        trade.signature = data.signature;
+        trade.executedAt = trade.executedAt ?? this.clock.now();
+      }
+      if (data.inputAmount !== undefined) trade.inputAmount = data.inputAmount;
+      if (data.outputAmount !== undefined) trade.outputAmount = data.outputAmount;
+      if (data.actualSlippage !== undefined) trade.actualSlippage = data.actualSlippage;
+      if (data.error) trade.error = data.error;
+      if (data.reason) trade.rejectionReason = data.reason;
+      this.addEvent(tradeId, from, to, actor, { ...data });
+    },
+  };
+
+  attempts: Storage['attempts'] = {
+    record: async (params: RecordAttemptParams) => {
+      const attempt: TradeAttempt = {
+        id: this.id(),
+        tradeId: params.tradeId,
+        attempt: params.attempt,
+        slice: params.slice ?? null,
+        status: params.status,
+        quotedOutAmount: params.quote?.outAmount ?? null,
+        driftBps: params.driftBps ?? null,
+        signature: null,
+        error: params.error ?? null,
+        createdAt: this.clock.now(),
+        updatedAt: this.clock.now(),
+      };
+      this.attemptTable.push(attempt);
+      return attempt.id;
+    },
+    finish: async (
+      attemptId: number,
+      status: Exclude<AttemptStatus, 'quoted'>,
+      data: { signature?: string; error?: string } = {}
+    ) => {
+      const attempt = this.attemptTable.find((row) => row.id === attemptId);
+      if (attempt) {
+        attempt.status = status;
+        attempt.signature = data.signature ?? attempt.signature;
+        attempt.error = data.error ?? attempt.error;
+        attempt.updatedAt = this.clock.now();
+      }
+    },
+  };
+
+  slices: Storage['slices'] = {
+    plan: async (tradeId: number, amountsRaw: number[]) => {
+      amountsRaw.forEach((amount, i) => {
+        this.sliceTable.push({
+          id: this.id(),
+          tradeId,
+          slice: i + 1,
+          inputAmountRaw: String(amount),
+          status: 'pending',
+          signature: null,
+          inputAmount: null,
+          outputAmount: null,
+          actualSlippage: null,
+          error: null,
+          createdAt: this.clock.now(),
+          updatedAt: this.clock.now(),
+        });
+      });
+    },
+    fill: async (tradeId: number, slice: number, fill: SliceFill) => {
+      const row = this.sliceTable.find((s) => s.tradeId === tradeId && s.slice === slice);
+      if (row) {
+        Object.assign(row, { status: 'filled', ...fill, updatedAt: this.clock.now() });
+      }
+    },
+    fail: async (tradeId: number, slice: number, error: string, signature?: string) => {
+      for (const row of this.sliceTable) {
+        if (row.tradeId === tradeId && row.slice >= slice && row.status === 'pending') {
+          row.status = row.slice === slice ? 'failed' : 'skipped';
+          row.error = row.slice === slice ? error : row.error;
+          row.signature = row.slice === slice ? signature || null : row.signature;
+        }
+      }
+    },
+  };
+
+  positions: Storage['positions'] = {
+    getOpenPosition: async (walletId: number, token: string, isPaper = false) =>
+      this.openPosition(walletId, token, isPaper),
+    listOpenPositions: async () =>
+      this.positionTable
+        .filter((position) => {
+          const wallet = this.walletById(position.wallet_id);
+          return position.status !== 'CLOSED' && wallet !== undefined && position.is_paper === wallet.paperMode;
+        })
+        .sort((a, b) => a.id - b.id)
+        .map((position): WalletPosition => ({ ...position, wallet_name: this.walletById(position.wallet_id)!.name })),
+    recordBuy: async (params: RecordBuyParams) => this.recordBuy(params),
+    recordSell: async (params: RecordSellParams) => this.recordSell(params),
+    flagIssue: async (params: FlagParams) => {
+      this.flags.push(params);
+    },
+  };
+
+  paperLedger: Storage['paperLedger'] = {
+    isPaperWallet: async (walletId: number) => this.walletById(walletId)?.paperMode ?? null,
+    getBalance: async (walletId: number, token: string) => this.paperBalances.get(`${walletId}:${token}`) || 0,
+    applyFill: async (params: ApplyFillParams) => {
+      const inputKey = `${params.walletId}:${params.inputToken}`;
+      const outputKey = `${params.walletId}:${params.outputToken}`;
+      const available = this.paperBalances.get(inputKey) || 0;
+      if (available < params.inputAmount) {
+        throw new Error(
+          `Insufficient paper ${params.inputToken} balance for ${params.inputAmount} in wallet ${params.walletId}`
+        );
+      }
+
+      this.paperBalances.set(inputKey, available - params.inputAmount);
+      this.paperBalances.set(outputKey, (this.paperBalances.get(outputKey) || 0) + params.outputAmount);
+    },
+  };
+
+  sizingPolicies: Storage['sizingPolicies'] = {
+    getPolicy: async (walletId: number) => this.policies.get(walletId) || allInPolicy(walletId),
+  };
+
+  risk: Storage['risk'] = {
+    getLimits: async (walletId: number, isPaper: boolean) =>
+      this.riskLimits
+        .filter((limits) => limits.walletId === walletId || (limits.walletId === null && !isPaper))
+        .sort((a, b) => (a.walletId === null ? 1 : 0) - (b.walletId === null ? 1 : 0)),
+    getActivity: async (limits: RiskLimits, walletId: number | null, isPaper: boolean) =>
+      this.riskActivity(limits, walletId, isPaper),
+  };
+
+  balanceChecks: Storage['balanceChecks'] = {
+    record: async (params: BalanceCheckParams) => {
+      this.balanceCheckTable.push(params);
+    },
+  };
+
+  signals: Storage['signals'] = {
+    receive: async (params: ReceivedSignal) => {
+      const signal: MemorySignal = {
+        id: this.id(),
+        receivedAt: this.clock.now(),
+        ip: params.ip,
+        rawPayload: redactPayload(params.rawPayload),
+        status: 'received',
+        context: {},
+        outcome: null,
+      };
+      this.signalTable.push(signal);
+      return signal.id;
+    },
+    complete: async (signalId: number, context: SignalContext, outcome: SignalOutcome) => {
+      const signal = this.signalTable.find((row) => row.id === signalId);
+      if (signal) {
+        Object.assign(signal, { status: outcome.status, context: { ...context }, outcome });
+        if (outcome.rejectionReason === 'authentication_failed') {
+          signal.rawPayload = signal.rawPayload?.slice(0, UNAUTHENTICATED_PAYLOAD_CHARS) ?? null;
+        }
+      }
+    },
+  };
+
+  idempotency: Storage['idempotency'] = {
+    claim: async (key: string): Promise<ClaimResult> => {
+      const existing = this.idempotencyKeys.get(key);
+      const expired =
+        existing &&
+        existing.claimedAt.getTime() < this.clock.now().getTime() - this.idempotencyWindowSeconds * 1000;
+
+      if (!existing || expired) {
+        this.idempotencyKeys.set(key, { claimedAt: this.clock.now(), response: null });
+        return { claimed: true };
+      }
+
+      if (!existing.response) {
+        return { claimed: false, inProgress: true };
+      }
+      return { claimed: false, inProgress: false, response: existing.response };
+    },
+    complete: async (key: string, response: StoredResponse) => {
+      const existing = this.idempotencyKeys.get(key);
+      if (existing) {
+        existing.response = JSON.parse(JSON.stringify(response));
+      }
+    },
+    release: async (key: string) => {
+      if (this.idempotencyKeys.get(key)?.response === null) {
+        this.idempotencyKeys.delete(key);
+      }
+    },
+  };
+
+  jobs: Storage['jobs'] = {
+    enqueue: async (params: EnqueueParams) => {
+      const now = this.clock.now();
+      const job: TradeJob = {
+        id: this.id(),
+        status: 'queued',
+        signal: params.signal,
+        options: params.options || {},
+        attempts: 0,
+        max_attempts: params.maxAttempts || JOB_MAX_ATTEMPTS,
+        run_after: now,
+        locked_at: null,
+        locked_by: null,
+        trade_id: null,
+        last_error: null,
+        result_status: null,
+        result: null,
+        created_at: now,
+        updated_at: now,
+        completed_at: null,
+      };
+      this.jobTable.push(job);
+      return { ...job };
+    },
+    getJob: async (id: number) => {
+      const job = this.job(id);
+      return job ? { ...job } : null;
+    },
+    claimNext: async (workerId: string) => {
+      const now = this.clock.now();
+      const job = this.jobTable
+        .filter((row) => row.status === 'queued' && row.run_after.getTime() <= now.getTime())
+        .sort((a, b) => a.run_after.getTime() - b.run_after.getTime() || a.id - b.id)[0];
+      if (!job) {
+        return null;
+      }
+
+      Object.assign(job, { status: 'running', attempts: job.attempts + 1, locked_at: now, locked_by: workerId });
+      return { ...job };
+    },
+    complete: async (jobId: number, result: PipelineResult) => {
+      Object.assign(this.job(jobId)!, {
+        status: result.body.success ? 'succeeded' : 'failed',
+        trade_id: result.tradeId || null,
+        result_status: result.statusCode,
+        result: result.body,
+        last_error: result.body.success ? null : result.body.error,
+        locked_at: null,
+        locked_by: null,
+        completed_at: this.clock.now(),
+      });
+    },
+    retry: async (jobId: number, error: string, delayMs: number) => {
+      Object.assign(this.job(jobId)!, {
+        status: 'queued',
+        last_error: error,
+        run_after: new Date(this.clock.now().getTime() + delayMs),
+        locked_at: null,
+        locked_by: null,
+      });
+    },
+    reclaimExpired: async (leaseSeconds: number, error: string) => {
+      const now = this.clock.now();
+      const expired = this.jobTable.filter(
+        (job) => job.status === 'running' && now.getTime() - job.locked_at!.getTime() > leaseSeconds * 1000
+      );
+      const reclaimed: ReclaimedJobs = { requeued: [], failed: [], trades: [] };
+
+      for (const job of expired) {
+        const requeue = job.attempts < job.max_attempts && !this.tradeTable.some((trade) => trade.jobId === job.id);
+        Object.assign(job, {
+          status: requeue ? 'queued' : 'failed',
+          last_error: error,
+          locked_at: null,
+          locked_by: null,
+          completed_at: requeue ? null : now,
+        });
+        if (requeue) {
+          reclaimed.requeued.push({ ...job });
+          continue;
+        }
+
+        reclaimed.failed.push({ ...job });
+        for (const trade of this.tradeTable) {
+          if (trade.jobId === job.id && ['pending', 'quoted', 'executed'].includes(trade.status)) {
+            trade.interruptedAt = now;
+            reclaimed.trades.push({ id: trade.id, jobId: job.id });
+          }
+        }
+      }
+
+      return reclaimed;
+    },
+  };
+
+  webhookKeys: Storage['webhookKeys'] = {
+    getUsableKeys: async () => {
+      const now = this.clock.now().getTime();
+      return this.keys.filter(
+        (key) => key.active && key.revokedAt === null && (key.expiresAt === null || key.expiresAt.getTime() > now)
+      );
+    },
+    touchKey: async (id: number) => {
+      const key = this.keys.find((row) => row.id === id);
+      if (key) {
+        key.lastUsedAt = this.clock.now();
+      }
+    },
+  };
+
+  webhookRequests: Storage['webhookRequests'] = {
+    record: async (request: BlockedRequest) => {
+      this.blockedRequests.push(request);
+    },
+  };
+
+  async withWalletLock<T>(walletId: number, fn: (lock: WalletLock) => Promise<T>): Promise<T> {
+    let release = await this.acquireWalletLock(walletId);
+    const lock: WalletLock = {
+      pause: async <R>(paused: () => Promise<R>): Promise<R> => {
+        release();
+        try {
+          return await paused();
+        } finally {
+          release = await this.acquireWalletLock(walletId);
+        }
+      },
+    };
+
+    try {
+      return await fn(lock);
+    } finally {
+      release();
+    }
+  }
+
+  async checkConnection(): Promise<void> {}
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  /**
+   * Waits for the wallet's lock holders queued so far
+   *
+   * @returns Releases the lock
+   */
+  private async acquireWalletLock(walletId: number): Promise<() => void> {
+    const previous = this.walletLocks.get(walletId) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    this.walletLocks.set(walletId, previous.then(() => current));
+
+    await previous;
+    return release;
+  }
+
+  private id(): number {
+    return this.nextId++;
+  }
+
+  private walletByName(name: string): MemoryWallet {
+    const wallet = this.wallets.find((row) => row.name === name);
+    if (!wallet) {
+      throw new Error(`Wallet not found: ${name}`);
+    }
+    return wallet;
+  }
+
+  private walletById(walletId: number): MemoryWallet | undefined {
+    return this.wallets.find((row) => row.id === walletId);
+  }
+
+  private enabledRoutes(): TradeRoute[] {
+    return this.routeTable.filter((route) => route.enabled);
+  }
+
+  private job(jobId: number): TradeJob | undefined {
+    return this.jobTable.find((row) => row.id === jobId);
+  }
+
+  private insertTrade(
+    fields: Pick<
+      MemoryTrade,
+      | 'walletId'
+      | 'symbol'
+      | 'action'
+      | 'signalAction'
+      | 'timeframe'
+      | 'inputToken'
+      | 'outputToken'
+      | 'inputAmount'
+      | 'status'
+      | 'isPaper'
+      | 'createdAt'
+    > &
+      Partial<MemoryTrade>
+  ): MemoryTrade {
+    const trade: MemoryTrade = {
+      id: this.id(),
+      outputAmount: null,
+      signature: null,
+      actualSlippage: null,
+      error: null,
+      rejectionReason: null,
+      realizedPnl: null,
+      exitTrigger: null,
+      signalId: null,
+      jobId: null,
+      positionId: null,
+      executedAt: null,
+      interruptedAt: null,
+      ...fields,
+    };
+    this.tradeTable.push(trade);
+    return trade;
+  }
+
+  private addEvent(
+    tradeId: number,
+    from: TradeStatus | null,
+    to: TradeStatus,
+    actor: string,
+    payload: Record<string, any>
+  ): void {
+    this.events.push({
+      id: this.id(),
+      tradeId,
+      fromStatus: from,
+      toStatus: to,
+      actor,
+      payload: Object.keys(payload).length > 0 ? payload : null,
+      createdAt: this.clock.now(),
+    });
+  }
+
+  private openPosition(walletId: number, token: string, isPaper: boolean): Position | null {
+    return (
+      this.positionTable.find(
+        (position) =>
+          position.wallet_id === walletId &&
+          position.token === token &&
+          position.is_paper === isPaper &&
+          position.status !== 'CLOSED'
+      ) || null
+    );
+  }
+
+  private markApplied(tradeId: number, positionId: number): void {
+    const trade = this.trade(tradeId);
+    if (trade) {
+      trade.positionId = positionId;
+    }
+  }
+
+  private recordBuy(params: RecordBuyParams): Position {
+    const { walletId, token, amount, cost, tradeId, isPaper = false } = params;
+    if (amount <= 0) {
+      throw new Error(`Invalid buy amount: ${amount}. Amount must be positive.`);
+    }
+    if (cost <= 0) {
+      throw new Error(`Invalid buy cost: ${cost}. Cost must be positive.`);
+    }
+
+    const now = this.clock.now();
+    const existing = this.openPosition(walletId, token, isPaper);
+    if (existing) {
+      existing.total_entry_amount += amount;
+      existing.total_entry_cost += cost;
+      existing.avg_entry_price = existing.total_entry_cost / existing.total_entry_amount;
+      existing.current_amount += amount;
+      existing.updated_at = now;
+      this.markApplied(tradeId, existing.id);
+      return { ...existing };
+    }
+
+    const position: Position = {
+      id: this.id(),
+      wallet_id: walletId,
+      token,
+      status: 'OPEN',
+      entry_trade_id: tradeId,
+      entry_timestamp: now,
+      total_entry_amount: amount,
+      total_entry_cost: cost,
+      avg_entry_price: cost / amount,
+      current_amount: amount,
+      total_exit_amount: 0,
+      total_exit_proceeds: 0,
+      realized_pnl: 0,
+      first_entry_at: now,
+      last_exit_at: null,
+      closed_at: null,
+      is_paper: isPaper,
+      created_at: now,
+      updated_at: now,
+    };
+    this.positionTable.push(position);
+    this.markApplied(tradeId, position.id);
+    return { ...position };
+  }
+
+  private async recordSell(params: RecordSellParams): Promise<SellResult> {
+    const { walletId, token, amount, proceeds, tradeId, isPaper = false, closePosition = false } = params;
+    if (amount <= 0) {
+      throw new Error(`Invalid sell amount: ${amount}. Amount must be positive.`);
+    }
+
+    const position = this.openPosition(walletId, token, isPaper);
+    if (!position) {
+      await this.positions.flagIssue({
+        walletId,
+        tradeId,
+        flagType: 'sell_without_position',
+        severity: 'critical',
+        description: `Cannot sell ${amount} ${token}: no open position for wallet ${walletId}. Trade ID: ${tradeId}`,
+      });
+      throw new Error(`Cannot sell ${amount} ${token}: no open position for wallet ${walletId}`);
+    }
+    if (amount > position.current_amount) {
+      await this.positions.flagIssue({
+        positionId: position.id,
+        walletId,
+        tradeId,
+        flagType: 'sell_exceeds_position',
+        severity: 'critical',
+        description: `Cannot sell ${amount} ${token}: only ${position.current_amount} ${token} available`,
+      });
+      throw new Error(`Cannot sell ${amount} ${token}: only ${position.current_amount} ${token} available`);
+    }
+
+    const costBasis = position.avg_entry_price * amount;
+    const realizedPnl = proceeds - costBasis;
+    const now = this.clock.now();
+
+    let remaining = position.current_amount - amount;
+    if (remaining < 1e-9 || (closePosition && remaining <= position.current_amount * CLOSE_DUST_RATIO)) {
+      remaining = 0;
+    }
+
+    position.current_amount = remaining;
+    position.total_exit_amount += amount;
+    position.total_exit_proceeds += proceeds;
+    position.realized_pnl += realizedPnl;
+    position.status = remaining === 0 ? 'CLOSED' : 'PARTIAL';
+    position.last_exit_at = now;
+    position.closed_at = remaining === 0 ? now : null;
+    position.updated_at = now;
+
+    const trade = this.trade(tradeId);
+    if (trade) {
+      trade.realizedPnl = realizedPnl;
+    }
+    this.markApplied(tradeId, position.id);
+
+    return { position: { ...position }, realized_pnl: realizedPnl, cost_basis: costBasis };
+  }
+
+  private riskActivity(limits: RiskLimits, walletId: number | null, isPaper: boolean): RiskActivity {
+    const now = this.clock.now();
+    const inScope = (row: { walletId: number; isPaper: boolean }) =>
+      (walletId === null || row.walletId === walletId) && row.isPaper === isPaper;
+    const exits = this.tradeTable
+      .filter((trade) => inScope(trade) && trade.action === 'SELL' && trade.realizedPnl !== null)
+      .sort((a, b) => (b.executedAt?.getTime() || 0) - (a.executedAt?.getTime() || 0));
+    const sumByToken = (amounts: TokenAmount[]) => {
+      const totals = new Map<string, number>();
+      for (const { token, amount } of amounts) {
+        totals.set(token, (totals.get(token) || 0) + amount);
+      }
+      return [...totals].map(([token, amount]) => ({ token, amount }));
+    };
+
+    const startOfDay = new Date(now);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    return {
+      realizedPnlToday:
+        limits.maxDailyLossUsd === null
+          ? []
+          : sumByToken(
+              exits
+                .filter((trade) => trade.executedAt !== null && trade.executedAt >= startOfDay)
+                .map((trade) => ({ token: trade.outputToken, amount: trade.realizedPnl! }))
+            ),
+      tradesLastHour:
+        limits.maxTradesPerHour === null
+          ? 0
+          : this.tradeTable.filter(
+              (trade) =>
+                inScope(trade) &&
+                ['executed', 'verified', 'position_tracked', 'position_error'].includes(trade.status) &&
+                trade.createdAt.getTime() > now.getTime() - 3600 * 1000
+            ).length,
+      recentExits:
+        limits.lossCooldownCount === null || limits.lossCooldownCount <= 0
+          ? []
+          : exits
+              .slice(0, limits.lossCooldownCount)
+              .map((trade) => ({ realizedPnl: trade.realizedPnl!, executedAt: trade.executedAt! })),
+      openPositions:
+        limits.maxOpenExposureUsd === null
+          ? []
+          : sumByToken(
+              this.positionTable
+                .filter(
+                  (position) =>
+                    (walletId === null || position.wallet_id === walletId) &&
+                    position.is_paper === isPaper &&
+                    position.status !== 'CLOSED'
+                )
+                .map((position) => ({ token: position.token, amount: position.current_amount }))
+            ),
+    };
+  }
+}